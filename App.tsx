@@ -1,92 +1,595 @@
-import React, { useState } from 'react';
-import { processDocument } from './services/mistralService';
-import { parseReceiptWithGemini } from './services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { resumePendingBatch, toOCRResult } from './services/mistralService';
+import { OCR_PROVIDERS, getOcrProvider, loadOcrProviderId, saveOcrProviderId } from './services/ocrProvider';
+import { getPendingBatchJobs } from './services/mistralBatchService';
+import { PROXY_ENABLED } from './services/proxyService';
+import { loadPreprocessOptions, savePreprocessOptions, isPreprocessable, preprocessImage } from './services/imagePreprocessor';
+import { LLM_PROVIDERS, OFFLINE_PARSER_MODEL, loadLlmSettings, saveLlmSettings, resolveParserSettings, parseReceipt } from './services/llmProvider';
+import { loadCategorySettings, saveCategorySettings, learnFromCorrection } from './services/categoryService';
+import { BASE_CURRENCY, loadExchangeRates, saveExchangeRates, convertReceipt, normalizeCurrency } from './services/currencyService';
+import { validateReceipt } from './services/receiptValidator';
+import { locateFields } from './services/sourceLocator';
+import { segmentReceipts, mergeSegments, splitSegment } from './services/receiptSegmenter';
+import { isPdfSource, countPdfPages } from './services/pdfService';
+import { parsePageRange, validatePageRange, countSelectedPages } from './services/pageRange';
+import { computeImageHash, findImageDuplicate, findReceiptDuplicate, mergeDuplicateReceipts } from './services/duplicateDetector';
+import { listScans, saveScan, deleteScan, updateScan, buildScanRecord } from './services/historyService';
+import { createQueueItem, disposeQueueItem, isRemoteSource, runWithConcurrency, MAX_CONCURRENT_SCANS } from './services/scanQueue';
 import FileUploader from './components/FileUploader';
+import ScanQueue from './components/ScanQueue';
+import HistoryPanel from './components/HistoryPanel';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import ExportPanel from './components/ExportPanel';
 import CostEstimator from './components/CostEstimator';
 import OutputViewer from './components/OutputViewer';
 import ReceiptViewer from './components/ReceiptViewer';
-import { OCRResult, ApiMode } from './types';
-import { Command, Cpu, Loader2, Zap, Layers, FileText, Receipt, Braces } from 'lucide-react';
+import ValidationPanel from './components/ValidationPanel';
+import ParserSettings from './components/ParserSettings';
+import CategoryEditor from './components/CategoryEditor';
+import ExchangeRateSettings from './components/ExchangeRateSettings';
+import ImagePreprocessPanel from './components/ImagePreprocessPanel';
+import SourceViewer from './components/SourceViewer';
+import ReceiptSegmentBar from './components/ReceiptSegmentBar';
+import PdfPagePicker from './components/PdfPagePicker';
+import DuplicateWarning from './components/DuplicateWarning';
+import { OCRResult, ApiMode, OcrProviderId, LlmSettings, CategorySettings, ExchangeRate, PreprocessOptions, UploadedFile, ScanRecord, ReceiptData, ExportReceipt } from './types';
+import { Command, Cpu, Loader2, Zap, Layers, FileText, Receipt, Braces, ScanSearch } from 'lucide-react';
 import logoImg from './assets/logo.png';
 
 const App: React.FC = () => {
-    // inputSource can be a File object or a string URL
-    const [inputSource, setInputSource] = useState<File | string | null>(null);
+    // Scan queue: each entry holds a File or URL plus its own status and result
+    const [queue, setQueue] = useState<UploadedFile[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
 
-    // API Keys from Environment Variables
+    // API Keys from Environment Variables (unset when the API proxy holds them)
     const mistralApiKey = import.meta.env.VITE_MISTRAL_API_KEY;
-    const geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY;
+    const mistralReady = PROXY_ENABLED || !!mistralApiKey;
 
-    const [status, setStatus] = useState<'idle' | 'processing' | 'gemini_processing' | 'success' | 'error'>('idle');
+    const [status, setStatus] = useState<'idle' | 'error'>('idle');
     const [statusMessage, setStatusMessage] = useState('');
-    const [result, setResult] = useState<OCRResult | null>(null);
-    const [estimatedPages, setEstimatedPages] = useState(1);
     const [apiMode, setApiMode] = useState<ApiMode>('batch'); // Default to Batch
     const [pageRange, setPageRange] = useState('');
-
-    // Metrics for Cost Analysis
-    const [inputCharCount, setInputCharCount] = useState(0);
-    const [outputCharCount, setOutputCharCount] = useState(0);
+    const [ocrProviderId, setOcrProviderId] = useState<OcrProviderId>(() => loadOcrProviderId());
+    const ocrProvider = getOcrProvider(ocrProviderId);
+    const ocrApiMode: ApiMode = ocrProvider.supportsBatch ? apiMode : 'realtime';
+    const [llmSettings, setLlmSettings] = useState<LlmSettings>(() => loadLlmSettings());
+    const [categorySettings, setCategorySettings] = useState<CategorySettings>(() => loadCategorySettings());
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>(() => loadExchangeRates());
+    const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(() => loadPreprocessOptions());
 
     // UI Tabs for output
-    const [activeTab, setActiveTab] = useState<'visual' | 'invoice_json' | 'raw'>('visual');
+    const [activeTab, setActiveTab] = useState<'visual' | 'source' | 'invoice_json' | 'raw'>('visual');
+    const [activeField, setActiveField] = useState<string | null>(null); // Source review selection
 
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
-    const handleProcess = async () => {
-        if (!inputSource) return;
+    // Persisted scans (IndexedDB)
+    const [history, setHistory] = useState<ScanRecord[]>([]);
+    const [reparsingId, setReparsingId] = useState<string | null>(null);
+    const [segmentBusy, setSegmentBusy] = useState(false);
+    const [duplicateBusy, setDuplicateBusy] = useState(false);
+    const [showAnalytics, setShowAnalytics] = useState(false);
+
+    // Scans finishing in parallel compare against the latest history, not the one their run started with
+    const historyRef = useRef(history);
+    historyRef.current = history;
+
+    const pageRangeError = validatePageRange(pageRange);
+
+    const selectedItem = queue.find(item => item.id === selectedId);
+    const result = selectedItem?.result || null;
+    const sourceLocations = useMemo(
+        () => result?.receiptData ? locateFields(result.json?.pages || [], result.receiptData) : {},
+        [result]
+    );
+    const parserSettings = resolveParserSettings(llmSettings, ocrProvider.local);
+    const parserModel = parserSettings ? parserSettings.model : OFFLINE_PARSER_MODEL;
+    const parserLabel = parserSettings ? LLM_PROVIDERS[parserSettings.provider].label : 'Kural Tabanlı';
+
+    // Queue-wide progress and metrics for the button and Cost Analysis
+    const ocrRunning = queue.some(item => item.status === 'uploading');
+    const parseRunning = queue.some(item => item.status === 'processing');
+    const isProcessing = ocrRunning || parseRunning;
+    // Likely duplicates wait for a decision before any OCR is paid for
+    const idleCount = queue.filter(item => item.status === 'idle' && !item.duplicate).length;
+    const doneItems = queue.filter(item => item.status === 'done' && item.result);
+
+    // Receipts split from one document share its pages; count each document once.
+    // Before OCR a PDF counts the pages its range selects.
+    const documentPages = new Map<string, number>();
+    queue.forEach(item => {
+        const key = item.documentId || item.id;
+        const pages = !item.result && item.pageCount
+            ? countSelectedPages(item.pageRange ?? pageRange, item.pageCount)
+            : item.pageCount || 1;
+        documentPages.set(key, Math.max(documentPages.get(key) || 0, pages));
+    });
+    const estimatedPages = Math.max(1, [...documentPages.values()].reduce((acc, pages) => acc + pages, 0));
+    const inputCharCount = doneItems.reduce((acc, item) => acc + (item.result!.markdown?.length || 0), 0);
+    const outputCharCount = doneItems.reduce((acc, item) => acc + (item.result!.receiptData ? JSON.stringify(item.result!.receiptData).length : 0), 0);
+    const costStatus = doneItems.length > 0 ? 'success' : isProcessing ? 'processing' : status;
+
+    // Export scopes: history rows are keyed by scan id so exports match the stored records
+    const queueExports: ExportReceipt[] = doneItems
+        .filter(item => item.result!.receiptData)
+        .map(item => ({ id: item.historyId || item.id, name: item.name, data: item.result!.receiptData! }));
+    const historyExports: ExportReceipt[] = history
+        .filter(record => record.receiptData)
+        .map(record => ({ id: record.id, name: record.name, data: record.receiptData! }));
+    const selectedExport = queueExports.find(r => r.id === (selectedItem?.historyId || selectedItem?.id)) || null;
+    const documentEntries = selectedItem?.documentId
+        ? queue.filter(item => item.documentId === selectedItem.documentId && item.status === 'done')
+        : selectedItem ? [selectedItem] : [];
+
+    useEffect(() => setActiveField(null), [selectedId]);
+
+    const updateItem = (id: string, patch: Partial<UploadedFile>) => {
+        setQueue(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    };
+
+    // Stored scans an entry may duplicate: not its own document and not one the user ruled out
+    const duplicateCandidates = (item: UploadedFile, ownRecordIds: string[] = []) => {
+        const documentId = item.documentId || item.id;
+        return historyRef.current.filter(record =>
+            !ownRecordIds.includes(record.id)
+            && record.id !== item.historyId
+            && record.documentId !== documentId
+            && !item.ignoredDuplicates?.includes(record.id)
+            && !(item.historyId && record.notDuplicateOf?.includes(item.historyId)));
+    };
 
-        if (!mistralApiKey || !geminiApiKey) {
+    // OCR -> LLM parsing pipeline for a single queue entry
+    const processItem = async (item: UploadedFile) => {
+        const onProgress = (msg: string) => updateItem(item.id, { statusMessage: msg });
+        updateItem(item.id, { status: 'uploading', error: undefined, statusMessage: 'Hazırlanıyor...' });
+
+        try {
+            // Step 1: OCR with the selected provider (or resume a Mistral batch job from a previous session)
+            const pendingJob = item.batchJobId
+                ? getPendingBatchJobs().find(job => job.jobId === item.batchJobId)
+                : undefined;
+            let ocrInput = item.file;
+            let ocrFile: File | undefined;
+            if (!pendingJob && preprocessOptions.enabled && !item.skipPreprocess && isPreprocessable(item.file)) {
+                onProgress('Görüntü iyileştiriliyor...');
+                try {
+                    ocrFile = (await preprocessImage(item.file, preprocessOptions)).file;
+                    ocrInput = ocrFile;
+                } catch (preprocessError) {
+                    // Best effort: OCR the original rather than failing the scan
+                    console.error('Preprocess Error:', preprocessError);
+                }
+            }
+            const pages = !pendingJob && isPdfSource(item.file)
+                ? parsePageRange(item.pageRange ?? pageRange, item.pageCount)
+                : [];
+            const ocrData = pendingJob
+                ? await resumePendingBatch(pendingJob, mistralApiKey, onProgress)
+                : await ocrProvider.process(ocrInput, { apiKey: mistralApiKey, apiMode: ocrApiMode, pages }, onProgress);
+
+            // Step 2: Split into receipts (pages, or several receipts on one page), then LLM Parsing (rule-based fallback)
+            const segments = segmentReceipts(ocrData);
+            const results: OCRResult[] = [];
+            for (const [index, segment] of segments.entries()) {
+                updateItem(item.id, {
+                    status: 'processing',
+                    statusMessage: segments.length > 1
+                        ? `Fiş ${index + 1}/${segments.length} Ayrıştırılıyor (${parserLabel})...`
+                        : `Fiş Verisi Ayrıştırılıyor (${parserLabel})...`
+                });
+                results.push({ ...segment, receiptData: await parseReceipt(segment.markdown, parserSettings, categorySettings, exchangeRates) });
+            }
+
+            // Further receipts become queue entries right after the document's own entry
+            const documentId = results.length > 1 ? item.id : undefined;
+            const siblings: UploadedFile[] = results.slice(1).map(result => ({
+                ...createQueueItem(item.file),
+                name: item.name,
+                status: 'done',
+                result,
+                pageCount: result.usage.pages,
+                ocrFile,
+                documentId
+            }));
+            setQueue(prev => prev.flatMap(entry => entry.id === item.id
+                ? [{
+                    ...entry,
+                    status: 'done' as const,
+                    statusMessage: undefined,
+                    result: results[0],
+                    pageCount: ocrData.usage.pages || item.pageCount,
+                    batchJobId: undefined,
+                    ocrFile,
+                    documentId
+                }, ...siblings]
+                : [entry]));
+            setSelectedId(current => current ?? item.id);
+
+            // Step 3: Persist to local history (failures here must not fail the scan)
+            try {
+                const ocrCost = pendingJob
+                    ? OCR_PROVIDERS.mistral.estimateCost(ocrData.usage.pages, 'batch')
+                    : ocrProvider.estimateCost(ocrData.usage.pages, ocrApiMode);
+                const entryIds = [item.id, ...siblings.map(sibling => sibling.id)];
+                const records: ScanRecord[] = [];
+                for (const [index, result] of results.entries()) {
+                    const name = results.length > 1 ? `${item.name} #${index + 1}` : item.name;
+                    // The stored file is the one OCR read, so source overlays line up when reopened.
+                    // OCR is paid once per document, on its first receipt.
+                    const record = await saveScan({
+                        ...buildScanRecord(ocrInput, name, result, index === 0 ? ocrCost : 0, parserModel),
+                        documentId,
+                        imageHash: item.imageHash,
+                        notDuplicateOf: item.ignoredDuplicates
+                    });
+                    records.push(record);
+
+                    // Second check, now that the fiscal fields are known
+                    const candidates = duplicateCandidates(item, records.map(r => r.id));
+                    const duplicate = result.receiptData ? findReceiptDuplicate(result.receiptData, candidates) || undefined : undefined;
+                    updateItem(entryIds[index], { historyId: record.id, duplicate });
+                }
+                setHistory(prev => [...records.reverse(), ...prev]);
+            } catch (storageError) {
+                console.error('History Save Error:', storageError);
+            }
+        } catch (error: any) {
+            console.error(error);
+            // A resumed job that is no longer pending cannot be polled again, and an
+            // uploaded file was only saved by name, so there is nothing left to retry
+            const sourceMissing = !!item.batchJobId && !isRemoteSource(item.file)
+                && !getPendingBatchJobs().some(job => job.jobId === item.batchJobId);
+            const message = error.message || 'İşlem sırasında bir hata oluştu';
+            updateItem(item.id, {
+                status: 'error',
+                statusMessage: undefined,
+                error: sourceMissing ? `${message} — Dosya bu oturumda yok, tekrar denemek için yeniden yükleyin` : message,
+                sourceMissing
+            });
+        }
+    };
+
+    // Merges a receipt with the next one of the same document and parses the result again
+    const handleMergeReceipt = async (id: string) => {
+        const index = documentEntries.findIndex(item => item.id === id);
+        const first = documentEntries[index];
+        const second = documentEntries[index + 1];
+        if (!first?.result || !second?.result) return;
+
+        setSegmentBusy(true);
+        try {
+            const merged = mergeSegments(first.result, second.result);
+            const result: OCRResult = { ...merged, receiptData: await parseReceipt(merged.markdown, parserSettings, categorySettings, exchangeRates) };
+            disposeQueueItem(second);
+            setQueue(prev => prev
+                .filter(item => item.id !== second.id)
+                .map(item => item.id === first.id ? { ...item, result } : item));
+            setSelectedId(first.id);
+
+            if (first.historyId) {
+                const updated = await updateScan(first.historyId, {
+                    markdown: result.markdown,
+                    ocrJson: result.json,
+                    receiptData: result.receiptData,
+                    pages: result.usage.pages,
+                    parserModel
+                });
+                setHistory(prev => prev.map(r => r.id === updated.id ? updated : r));
+            }
+            if (second.historyId) {
+                await deleteScan(second.historyId);
+                setHistory(prev => prev.filter(r => r.id !== second.historyId));
+            }
+        } catch (error: any) {
+            console.error(error);
             setStatus('error');
-            setStatusMessage('API Anahtarları .env dosyasında bulunamadı!');
-            return;
+            setStatusMessage(error.message || 'Fişler birleştirilemedi');
+        } finally {
+            setSegmentBusy(false);
         }
+    };
+
+    // Splits a receipt in two at the given line; the second part becomes a new entry
+    const handleSplitReceipt = async (id: string, lineIndex: number) => {
+        const item = queue.find(i => i.id === id);
+        if (!item?.result) return;
 
-        setStatus('processing');
-        setResult(null);
-        setInputCharCount(0);
-        setOutputCharCount(0);
+        setSegmentBusy(true);
+        try {
+            const [first, second] = await Promise.all(splitSegment(item.result, lineIndex).map(async part => ({
+                ...part,
+                receiptData: await parseReceipt(part.markdown, parserSettings, categorySettings, exchangeRates)
+            })));
+            const documentId = item.documentId || item.id;
+            const sibling: UploadedFile = {
+                ...createQueueItem(item.file),
+                name: item.name,
+                status: 'done',
+                result: second,
+                pageCount: second.usage.pages,
+                ocrFile: item.ocrFile,
+                documentId
+            };
+            setQueue(prev => prev.flatMap(entry => entry.id === id ? [{ ...entry, result: first, documentId }, sibling] : [entry]));
+
+            if (item.historyId) {
+                const updated = await updateScan(item.historyId, {
+                    markdown: first.markdown,
+                    ocrJson: first.json,
+                    receiptData: first.receiptData,
+                    pages: first.usage.pages,
+                    parserModel,
+                    documentId
+                });
+                const record = await saveScan({
+                    ...buildScanRecord(item.ocrFile || item.file, `${item.name} #${documentEntries.length + 1}`, second, 0, parserModel),
+                    documentId
+                });
+                updateItem(sibling.id, { historyId: record.id });
+                setHistory(prev => [record, ...prev.map(r => r.id === updated.id ? updated : r)]);
+            }
+        } catch (error: any) {
+            console.error(error);
+            setStatus('error');
+            setStatusMessage(error.message || 'Fiş bölünemedi');
+        } finally {
+            setSegmentBusy(false);
+        }
+    };
+
+    const runQueue = async (items: UploadedFile[]) => {
+        if (items.length === 0) return;
+
+        setStatus('idle');
+        setStatusMessage('');
         setActiveTab('visual'); // Default to visual view
 
         // Auto-close mobile menu on process start
         setIsMobileMenuOpen(false);
 
+        await runWithConcurrency(items, MAX_CONCURRENT_SCANS, processItem);
+    };
+
+    // Resume batch jobs that were still running when the page was closed
+    // (ref guard: StrictMode runs mount effects twice in dev)
+    const resumeStarted = useRef(false);
+    useEffect(() => {
+        const pendingJobs = getPendingBatchJobs();
+        if (resumeStarted.current || !mistralReady || pendingJobs.length === 0) return;
+        resumeStarted.current = true;
+        setApiMode('batch');
+
+        const resumed = pendingJobs.map(job => ({ ...createQueueItem(job.inputName), batchJobId: job.jobId }));
+        setQueue(prev => [...prev, ...resumed]);
+        runQueue(resumed);
+    }, []);
+
+    useEffect(() => {
+        listScans().then(setHistory).catch(error => console.error('History Load Error:', error));
+    }, []);
+
+    // Reopen a stored scan as a finished queue entry (no OCR/parse cost)
+    const handleOpenRecord = (record: ScanRecord) => {
+        const existing = queue.find(item => item.historyId === record.id);
+        if (existing) {
+            setSelectedId(existing.id);
+        } else {
+            const source = record.file
+                ? new File([record.file], record.name, { type: record.fileType || record.file.type })
+                : record.sourceUrl || record.name;
+            const item: UploadedFile = {
+                ...createQueueItem(source),
+                name: record.name,
+                status: 'done',
+                result: { ...toOCRResult(record.ocrJson), markdown: record.markdown, receiptData: record.receiptData },
+                pageCount: record.pages,
+                historyId: record.id,
+                documentId: record.documentId
+            };
+            setQueue(prev => [...prev, item]);
+            setSelectedId(item.id);
+        }
+        setActiveTab('visual');
+        setShowAnalytics(false);
+        setIsMobileMenuOpen(false);
+    };
+
+    // Rerun parsing on the stored markdown without paying for OCR again
+    const handleReparseRecord = async (record: ScanRecord) => {
+        setReparsingId(record.id);
         try {
-            // Step 1: Mistral OCR
-            const ocrData = await processDocument(inputSource, mistralApiKey, apiMode, pageRange, (msg) => setStatusMessage(msg));
+            const receiptData = await parseReceipt(record.markdown, parserSettings, categorySettings, exchangeRates);
+            const updated = await updateScan(record.id, { receiptData, parserModel });
+            setHistory(prev => prev.map(r => r.id === record.id ? updated : r));
+            setQueue(prev => prev.map(item => item.historyId === record.id && item.result
+                ? { ...item, result: { ...item.result, receiptData } }
+                : item));
+        } catch (error: any) {
+            console.error(error);
+            setStatus('error');
+            setStatusMessage(error.message || 'Yeniden ayrıştırma başarısız oldu');
+        } finally {
+            setReparsingId(null);
+        }
+    };
 
-            // Calculate Input Size for Gemini (Raw Markdown)
-            const rawMarkdownLength = ocrData.markdown ? ocrData.markdown.length : 0;
-            setInputCharCount(rawMarkdownLength);
+    const updateCategorySettings = (next: CategorySettings) => {
+        setCategorySettings(next);
+        saveCategorySettings(next);
+    };
 
-            // Step 2: Gemini Parsing
-            setStatus('gemini_processing');
-            setStatusMessage('Fiş Verisi Ayrıştırılıyor (Gemini / Auto-Detect)...');
+    // New rates also apply to the foreign-currency receipts already scanned
+    const updateExchangeRates = async (next: ExchangeRate[]) => {
+        setExchangeRates(next);
+        saveExchangeRates(next);
+
+        const isForeign = (data?: ReceiptData | null): data is ReceiptData => !!data && normalizeCurrency(data.currency) !== BASE_CURRENCY;
+        setQueue(prev => prev.map(item => item.result && isForeign(item.result.receiptData)
+            ? { ...item, result: { ...item.result, receiptData: convertReceipt(item.result.receiptData, next) } }
+            : item));
+        for (const record of historyRef.current) {
+            if (!isForeign(record.receiptData)) continue;
+            try {
+                const updated = await updateScan(record.id, { receiptData: convertReceipt(record.receiptData, next) });
+                setHistory(prev => prev.map(r => r.id === updated.id ? updated : r));
+            } catch (error) {
+                console.error('History Save Error:', error);
+            }
+        }
+    };
 
-            const receiptData = await parseReceiptWithGemini(ocrData.markdown, geminiApiKey);
+    // Manual corrections from the receipt editor; a changed currency or date gets a new rate
+    const handleReceiptEdit = async (edited: ReceiptData) => {
+        if (!selectedItem?.result) return;
+        const receiptData = convertReceipt(edited, exchangeRates);
+        if (selectedItem.result.receiptData) {
+            const learned = learnFromCorrection(categorySettings, selectedItem.result.receiptData, receiptData);
+            if (learned !== categorySettings) updateCategorySettings(learned);
+        }
+        updateItem(selectedItem.id, { result: { ...selectedItem.result, receiptData } });
+
+        if (selectedItem.historyId) {
+            try {
+                const updated = await updateScan(selectedItem.historyId, { receiptData });
+                setHistory(prev => prev.map(r => r.id === updated.id ? updated : r));
+            } catch (error) {
+                console.error('History Save Error:', error);
+            }
+        }
+    };
 
-            // Calculate Output Size for Gemini (JSON Result)
-            const jsonLength = receiptData ? JSON.stringify(receiptData).length : 0;
-            setOutputCharCount(jsonLength);
+    const handleDeleteRecord = async (id: string) => {
+        try {
+            await deleteScan(id);
+            setHistory(prev => prev.filter(r => r.id !== id));
+            setQueue(prev => prev.map(item => item.historyId === id ? { ...item, historyId: undefined } : item));
+        } catch (error: any) {
+            console.error(error);
+            setStatus('error');
+            setStatusMessage(error.message || 'Kayıt silinemedi');
+        }
+    };
 
-            // Combine results
-            const finalResult: OCRResult = {
-                ...ocrData,
-                receiptData: receiptData
-            };
+    const handleInputSelect = (inputs: (File | string)[]) => {
+        const items = inputs.map(createQueueItem);
+        setQueue(prev => [...prev, ...items]);
+        setStatus('idle');
+        setStatusMessage('');
+
+        // Real page counts for the cost estimate, before anything is sent
+        items.filter(item => isPdfSource(item.file)).forEach(item => {
+            countPdfPages(item.file)
+                .then(pageCount => updateItem(item.id, { pageCount }))
+                .catch(error => console.error('PDF Page Count Error:', error));
+        });
+
+        // Images already in the history are held back before OCR
+        items.forEach(item => {
+            computeImageHash(item.file)
+                .then(imageHash => {
+                    if (!imageHash) return;
+                    const duplicate = findImageDuplicate(imageHash, duplicateCandidates(item)) || undefined;
+                    updateItem(item.id, { imageHash, duplicate });
+                })
+                .catch(error => console.error('Image Hash Error:', error));
+        });
+    };
 
-            setResult(finalResult);
-            setStatus('success');
-            setActiveTab('visual');
+    // Before OCR: drop the new upload and open the stored scan instead; after: show it next to this one
+    const handleOpenDuplicate = (item: UploadedFile) => {
+        const record = history.find(r => r.id === item.duplicate?.recordId);
+        if (!record) return;
+        if (!item.result) handleRemove(item.id);
+        handleOpenRecord(record);
+    };
 
-            if (ocrData.usage.pages) {
-                setEstimatedPages(ocrData.usage.pages);
-            }
+    // Confirms the two are different receipts; stored on the record so the pair is not flagged again
+    const handleIgnoreDuplicate = async (item: UploadedFile) => {
+        if (!item.duplicate) return;
+        const ignoredDuplicates = [...(item.ignoredDuplicates || []), item.duplicate.recordId];
+        updateItem(item.id, { duplicate: undefined, ignoredDuplicates });
+        if (!item.historyId) return;
+
+        try {
+            const updated = await updateScan(item.historyId, { notDuplicateOf: ignoredDuplicates });
+            setHistory(prev => prev.map(r => r.id === updated.id ? updated : r));
+        } catch (error) {
+            console.error('History Save Error:', error);
+        }
+    };
+
+    // Keeps the stored scan, fills its gaps from this one and deletes this scan's record
+    const handleMergeDuplicate = async (item: UploadedFile) => {
+        const existing = history.find(r => r.id === item.duplicate?.recordId);
+        const scanned = item.result?.receiptData;
+        if (!existing?.receiptData || !scanned || !item.result) return;
+
+        setDuplicateBusy(true);
+        try {
+            const receiptData = mergeDuplicateReceipts(existing.receiptData, scanned);
+            const updated = await updateScan(existing.id, { receiptData });
+            if (item.historyId) await deleteScan(item.historyId);
+            setHistory(prev => prev.filter(r => r.id !== item.historyId).map(r => r.id === updated.id ? updated : r));
+            setQueue(prev => prev.map(entry => entry.id === item.id
+                ? { ...entry, historyId: existing.id, duplicate: undefined, result: { ...item.result!, receiptData } }
+                : entry.historyId === existing.id && entry.result
+                    ? { ...entry, result: { ...entry.result, receiptData } }
+                    : entry));
         } catch (error: any) {
             console.error(error);
             setStatus('error');
-            setStatusMessage(error.message || 'İşlem sırasında bir hata oluştu');
+            setStatusMessage(error.message || 'Kayıtlar birleştirilemedi');
+        } finally {
+            setDuplicateBusy(false);
+        }
+    };
+
+    const handleRemove = (id: string) => {
+        setQueue(prev => {
+            const item = prev.find(i => i.id === id);
+            if (item) disposeQueueItem(item);
+            return prev.filter(i => i.id !== id);
+        });
+        if (selectedId === id) setSelectedId(null);
+    };
+
+    const handleClear = () => {
+        queue.forEach(disposeQueueItem);
+        setQueue([]);
+        setSelectedId(null);
+        setStatus('idle');
+        setStatusMessage('');
+    };
+
+    const updatePreprocessOptions = (next: PreprocessOptions) => {
+        setPreprocessOptions(next);
+        savePreprocessOptions(next);
+    };
+
+    const ensureKeys = () => {
+        if (ocrProvider.local) return true;
+        if (!mistralReady || !LLM_PROVIDERS[llmSettings.provider].isConfigured(llmSettings)) {
+            setStatus('error');
+            setStatusMessage('API Anahtarları .env dosyasında bulunamadı!');
+            return false;
         }
+        return true;
+    };
+
+    const handleProcess = async () => {
+        if (idleCount === 0 || !ensureKeys()) return;
+        await runQueue(queue.filter(item => item.status === 'idle' && !item.duplicate));
+    };
+
+    const handleRetry = async (id: string) => {
+        const item = queue.find(i => i.id === id);
+        if (!item || item.sourceMissing || !ensureKeys()) return;
+        await runQueue([item]);
+    };
+
+    const handleRetryFailed = async () => {
+        if (!ensureKeys()) return;
+        await runQueue(queue.filter(item => item.status === 'error' && !item.sourceMissing));
     };
 
     return (
@@ -149,10 +652,15 @@ const App: React.FC = () => {
                                     <FileText size={12} /> Belge Yükle
                                 </label>
                             </div>
-                            <FileUploader
-                                onInputSelect={(source) => { setInputSource(source); setStatus('idle'); setStatusMessage(''); }}
-                                selectedInput={inputSource}
-                                onClear={() => { setInputSource(null); setResult(null); setStatus('idle'); }}
+                            <FileUploader onInputSelect={handleInputSelect} />
+                            <ScanQueue
+                                items={queue}
+                                selectedId={selectedId}
+                                onSelect={(id) => { setSelectedId(id); setShowAnalytics(false); setIsMobileMenuOpen(false); }}
+                                onRemove={handleRemove}
+                                onRetry={handleRetry}
+                                onRetryFailed={handleRetryFailed}
+                                onClear={handleClear}
                             />
                         </section>
 
@@ -163,39 +671,103 @@ const App: React.FC = () => {
                             </label>
 
                             <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm space-y-4">
-                                {/* API Mode Toggle */}
-                                <div className="flex items-center justify-between">
-                                    <span className="text-xs font-medium text-gray-700">İşlem Modu</span>
-                                    <div className="flex bg-gray-100 p-1 rounded-md">
-                                        <button
-                                            onClick={() => setApiMode('batch')}
-                                            className={`px-3 py-1 text-[10px] font-medium rounded-sm transition-all ${apiMode === 'batch' ? 'bg-white shadow-sm text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
-                                        >
-                                            Batch (Hızlı)
-                                        </button>
-                                        <button
-                                            onClick={() => setApiMode('realtime')} // Changed from 'sync' to 'realtime' to match existing code
-                                            className={`px-3 py-1 text-[10px] font-medium rounded-sm transition-all ${apiMode === 'realtime' ? 'bg-white shadow-sm text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
-                                        >
-                                            Normal (Anlık)
-                                        </button>
+                                {/* OCR Provider */}
+                                <div className="space-y-1">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-xs font-medium text-gray-700">OCR Sağlayıcı</span>
+                                        <div className="flex bg-gray-100 p-1 rounded-md">
+                                            {Object.values(OCR_PROVIDERS).map(provider => (
+                                                <button
+                                                    key={provider.id}
+                                                    onClick={() => { setOcrProviderId(provider.id); saveOcrProviderId(provider.id); }}
+                                                    className={`px-3 py-1 text-[10px] font-medium rounded-sm transition-all ${ocrProviderId === provider.id ? 'bg-white shadow-sm text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
+                                                >
+                                                    {provider.label} ({provider.description})
+                                                </button>
+                                            ))}
+                                        </div>
                                     </div>
+                                    {ocrProvider.local && (
+                                        <p className="text-[10px] text-gray-400">
+                                            Görseller tarayıcıda okunur ve ayrıştırılır; hiçbir veri buluta gönderilmez. PDF desteklenmez.
+                                        </p>
+                                    )}
                                 </div>
 
-                                {/* Page Range */}
+                                {/* Image Preprocessing */}
                                 <div className="space-y-1">
-                                    <div className="flex justify-between">
-                                        <span className="text-xs font-medium text-gray-700">Sayfa Aralığı</span>
-                                        <span className="text-[10px] text-gray-400">(Opsiyonel)</span>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-xs font-medium text-gray-700">Görüntü İyileştirme</span>
+                                        <div className="flex bg-gray-100 p-1 rounded-md">
+                                            {[true, false].map(enabled => (
+                                                <button
+                                                    key={String(enabled)}
+                                                    onClick={() => updatePreprocessOptions({ ...preprocessOptions, enabled })}
+                                                    className={`px-3 py-1 text-[10px] font-medium rounded-sm transition-all ${preprocessOptions.enabled === enabled ? 'bg-white shadow-sm text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
+                                                >
+                                                    {enabled ? 'Açık' : 'Kapalı'}
+                                                </button>
+                                            ))}
+                                        </div>
                                     </div>
-                                    <input
-                                        type="text"
-                                        placeholder="Örn: 1, 3-5 (Tümü için boş bırakın)"
-                                        value={pageRange}
-                                        onChange={(e) => setPageRange(e.target.value)}
-                                        className="w-full bg-gray-50 border border-gray-200 p-2 rounded text-xs focus:outline-none focus:border-mistral-black transition-colors font-sans"
-                                    />
+                                    {preprocessOptions.enabled && (
+                                        <p className="text-[10px] text-gray-400">
+                                            Fotoğraflar OCR'dan önce döndürülür, kırpılır ve netleştirilir. Adımları görmek için kuyruktan bir görsel seçin.
+                                        </p>
+                                    )}
                                 </div>
+
+                                {/* API Mode Toggle */}
+                                {ocrProvider.supportsBatch && (
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-xs font-medium text-gray-700">İşlem Modu</span>
+                                        <div className="flex bg-gray-100 p-1 rounded-md">
+                                            <button
+                                                onClick={() => setApiMode('batch')}
+                                                className={`px-3 py-1 text-[10px] font-medium rounded-sm transition-all ${apiMode === 'batch' ? 'bg-white shadow-sm text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
+                                            >
+                                                Batch (Hızlı)
+                                            </button>
+                                            <button
+                                                onClick={() => setApiMode('realtime')} // Changed from 'sync' to 'realtime' to match existing code
+                                                className={`px-3 py-1 text-[10px] font-medium rounded-sm transition-all ${apiMode === 'realtime' ? 'bg-white shadow-sm text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
+                                            >
+                                                Normal (Anlık)
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* Page Range */}
+                                {ocrProvider.supportsPdf && (
+                                    <div className="space-y-1">
+                                        <div className="flex justify-between">
+                                            <span className="text-xs font-medium text-gray-700">Sayfa Aralığı</span>
+                                            <span className="text-[10px] text-gray-400">(Opsiyonel)</span>
+                                        </div>
+                                        <input
+                                            type="text"
+                                            placeholder="Örn: 1, 3-5, 8- (Tümü için boş bırakın)"
+                                            value={pageRange}
+                                            onChange={(e) => setPageRange(e.target.value)}
+                                            className={`w-full bg-gray-50 border p-2 rounded text-xs focus:outline-none transition-colors font-sans ${pageRangeError ? 'border-red-300 focus:border-red-500' : 'border-gray-200 focus:border-mistral-black'}`}
+                                        />
+                                        {pageRangeError && <p className="text-[10px] text-red-500">{pageRangeError}</p>}
+                                    </div>
+                                )}
+
+                                {/* LLM Parser */}
+                                <ParserSettings
+                                    settings={llmSettings}
+                                    localOnly={ocrProvider.local}
+                                    onChange={(next) => { setLlmSettings(next); saveLlmSettings(next); }}
+                                />
+
+                                {/* Expense Categories */}
+                                <CategoryEditor settings={categorySettings} onChange={updateCategorySettings} />
+
+                                {/* Exchange Rates */}
+                                <ExchangeRateSettings rates={exchangeRates} onChange={updateExchangeRates} />
                             </div>
                         </section>
 
@@ -203,8 +775,10 @@ const App: React.FC = () => {
                         <CostEstimator
                             pageCount={estimatedPages}
                             isAnnotated={true} // Kept existing prop
-                            apiMode={apiMode}
-                            status={status} // Kept existing prop
+                            apiMode={ocrApiMode}
+                            provider={ocrProvider}
+                            parser={parserSettings}
+                            status={costStatus}
                             inputCharCount={inputCharCount}
                             outputCharCount={outputCharCount}
                         />
@@ -212,31 +786,31 @@ const App: React.FC = () => {
                         {/* Process Button */}
                         <button
                             onClick={handleProcess}
-                            disabled={!inputSource || status === 'processing' || status === 'gemini_processing'}
+                            disabled={idleCount === 0 || isProcessing}
                             className={`
                         w-full py-3 px-4 rounded-lg font-medium text-sm transition-all transform active:scale-[0.98] shadow-md flex items-center justify-center gap-2 font-sans
-                        ${!inputSource
-                                    ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                                    : status === 'processing' || status === 'gemini_processing'
-                                        ? 'bg-mistral-black/80 text-white cursor-wait'
+                        ${isProcessing
+                                    ? 'bg-mistral-black/80 text-white cursor-wait'
+                                    : idleCount === 0
+                                        ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
                                         : 'bg-mistral-black text-white hover:bg-gray-800 hover:shadow-lg'
                                 }
                     `}
                         >
-                            {status === 'processing' ? (
+                            {ocrRunning ? (
                                 <>
                                     <Loader2 className="animate-spin" size={16} />
-                                    OCR İşleniyor...
+                                    OCR İşleniyor... ({doneItems.length}/{queue.length})
                                 </>
-                            ) : status === 'gemini_processing' ? (
+                            ) : parseRunning ? (
                                 <>
                                     <Loader2 className="animate-spin" size={16} />
-                                    Gemini Analiz Ediyor...
+                                    {parserLabel} Analiz Ediyor... ({doneItems.length}/{queue.length})
                                 </>
                             ) : (
                                 <>
-                                    <Zap size={16} className={inputSource ? "fill-current" : ""} />
-                                    Analizi Başlat
+                                    <Zap size={16} className={idleCount > 0 ? "fill-current" : ""} />
+                                    Analizi Başlat{idleCount > 1 && ` (${idleCount})`}
                                 </>
                             )}
                         </button>
@@ -249,6 +823,25 @@ const App: React.FC = () => {
                             </div>
                         )}
 
+                        {/* Scan History */}
+                        <HistoryPanel
+                            records={history}
+                            activeId={selectedItem?.historyId}
+                            reparsingId={reparsingId}
+                            onOpen={handleOpenRecord}
+                            onReparse={handleReparseRecord}
+                            onDelete={handleDeleteRecord}
+                            onAnalytics={() => { setShowAnalytics(true); setIsMobileMenuOpen(false); }}
+                        />
+
+                        {/* Spreadsheet Export */}
+                        <ExportPanel
+                            selected={selectedExport}
+                            queue={queueExports}
+                            history={historyExports}
+                            taxonomy={categorySettings.categories}
+                        />
+
                         {/* Footer Copyright */}
                         <div className="mt-auto pt-4 text-[10px] text-gray-400 text-center font-sans border-t border-gray-100">
                             Copyright © Mobiza Teknoloji 2025
@@ -258,53 +851,117 @@ const App: React.FC = () => {
 
                 {/* Right Panel: Output */}
                 <div className="lg:col-span-8 h-full overflow-hidden flex flex-col bg-white border border-gray-200 shadow-sm relative">
-                    {result ? (
-                        <>
-                            <div className="flex border-b border-gray-200 bg-gray-50">
-                                <button
-                                    onClick={() => setActiveTab('visual')}
-                                    className={`px-4 py-3 text-xs font-bold uppercase tracking-wide flex items-center gap-2 transition-colors ${activeTab === 'visual' ? 'bg-white border-b-2 border-mistral-black text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
-                                >
-                                    <Receipt size={14} /> Önizleme
-                                </button>
-                                <button
-                                    onClick={() => setActiveTab('invoice_json')}
-                                    className={`px-4 py-3 text-xs font-bold uppercase tracking-wide flex items-center gap-2 transition-colors ${activeTab === 'invoice_json' ? 'bg-white border-b-2 border-mistral-black text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
-                                >
-                                    <Braces size={14} /> Fatura JSON
-                                </button>
-                                <button
-                                    onClick={() => setActiveTab('raw')}
-                                    className={`px-4 py-3 text-xs font-bold uppercase tracking-wide flex items-center gap-2 transition-colors ${activeTab === 'raw' ? 'bg-white border-b-2 border-mistral-black text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
-                                >
-                                    <FileText size={14} /> Ham Veri (OCR)
-                                </button>
-                            </div>
-
-                            <div className="flex-1 overflow-hidden relative">
-                                {activeTab === 'visual' && result.receiptData && (
-                                    <ReceiptViewer data={result.receiptData} />
-                                )}
-
-                                {activeTab === 'invoice_json' && result.receiptData && (
-                                    <div className="h-full overflow-y-auto p-4 bg-gray-50">
-                                        <pre className="text-xs font-mono text-blue-700 whitespace-pre-wrap break-all">
-                                            {JSON.stringify(result.receiptData, null, 2)}
-                                        </pre>
-                                    </div>
-                                )}
+                    {selectedItem?.duplicate && !showAnalytics && (
+                        <DuplicateWarning
+                            match={selectedItem.duplicate}
+                            scanned={!!selectedItem.result}
+                            busy={duplicateBusy}
+                            onOpen={() => handleOpenDuplicate(selectedItem)}
+                            onMerge={() => handleMergeDuplicate(selectedItem)}
+                            onIgnore={() => handleIgnoreDuplicate(selectedItem)}
+                        />
+                    )}
+                    <div className="flex-1 min-h-0 flex flex-col">
+                        {showAnalytics ? (
+                            <AnalyticsDashboard receipts={historyExports} onClose={() => setShowAnalytics(false)} />
+                        ) : result ? (
+                            <>
+                                <ReceiptSegmentBar
+                                    entries={documentEntries}
+                                    selectedId={selectedId}
+                                    busy={segmentBusy}
+                                    onSelect={setSelectedId}
+                                    onMerge={handleMergeReceipt}
+                                    onSplit={handleSplitReceipt}
+                                />
+                                <div className="flex border-b border-gray-200 bg-gray-50">
+                                    <button
+                                        onClick={() => setActiveTab('visual')}
+                                        className={`px-4 py-3 text-xs font-bold uppercase tracking-wide flex items-center gap-2 transition-colors ${activeTab === 'visual' ? 'bg-white border-b-2 border-mistral-black text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
+                                    >
+                                        <Receipt size={14} /> Önizleme
+                                    </button>
+                                    <button
+                                        onClick={() => setActiveTab('source')}
+                                        className={`px-4 py-3 text-xs font-bold uppercase tracking-wide flex items-center gap-2 transition-colors ${activeTab === 'source' ? 'bg-white border-b-2 border-mistral-black text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
+                                    >
+                                        <ScanSearch size={14} /> Kaynak
+                                    </button>
+                                    <button
+                                        onClick={() => setActiveTab('invoice_json')}
+                                        className={`px-4 py-3 text-xs font-bold uppercase tracking-wide flex items-center gap-2 transition-colors ${activeTab === 'invoice_json' ? 'bg-white border-b-2 border-mistral-black text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
+                                    >
+                                        <Braces size={14} /> Fatura JSON
+                                    </button>
+                                    <button
+                                        onClick={() => setActiveTab('raw')}
+                                        className={`px-4 py-3 text-xs font-bold uppercase tracking-wide flex items-center gap-2 transition-colors ${activeTab === 'raw' ? 'bg-white border-b-2 border-mistral-black text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
+                                    >
+                                        <FileText size={14} /> Ham Veri (OCR)
+                                    </button>
+                                </div>
 
-                                {activeTab === 'raw' && (
-                                    <OutputViewer result={result} />
-                                )}
+                                <div className="flex-1 overflow-hidden relative">
+                                    {activeTab === 'visual' && result.receiptData && (
+                                        <ReceiptViewer key={selectedId} data={result.receiptData} categories={categorySettings.categories} onChange={handleReceiptEdit} />
+                                    )}
+
+                                    {activeTab === 'source' && result.receiptData && selectedItem && (
+                                        <div className="h-full grid grid-cols-1 md:grid-cols-2 divide-x divide-gray-200">
+                                            <SourceViewer
+                                                key={selectedId}
+                                                source={selectedItem.ocrFile || selectedItem.file}
+                                                pages={result.json?.pages || []}
+                                                locations={sourceLocations}
+                                                activeField={activeField}
+                                                onFieldSelect={setActiveField}
+                                            />
+                                            <ReceiptViewer
+                                                key={selectedId}
+                                                data={result.receiptData}
+                                                categories={categorySettings.categories}
+                                                onChange={handleReceiptEdit}
+                                                activeField={activeField}
+                                                onFieldSelect={(field) => setActiveField(current => current === field ? null : field)}
+                                            />
+                                        </div>
+                                    )}
+
+                                    {activeTab === 'invoice_json' && result.receiptData && (
+                                        <div className="h-full overflow-y-auto p-4 bg-gray-50 space-y-4">
+                                            <ValidationPanel findings={validateReceipt(result.receiptData)} />
+                                            <pre className="text-xs font-mono text-blue-700 whitespace-pre-wrap break-all">
+                                                {JSON.stringify(result.receiptData, null, 2)}
+                                            </pre>
+                                        </div>
+                                    )}
+
+                                    {activeTab === 'raw' && (
+                                        <OutputViewer result={result} />
+                                    )}
+                                </div>
+                            </>
+                        ) : selectedItem && ocrProvider.supportsPdf && isPdfSource(selectedItem.file) && !selectedItem.batchJobId ? (
+                            <PdfPagePicker
+                                source={selectedItem.file}
+                                range={selectedItem.pageRange ?? pageRange}
+                                customized={selectedItem.pageRange !== undefined}
+                                onRangeChange={(range) => updateItem(selectedItem.id, { pageRange: range })}
+                            />
+                        ) : selectedItem && isPreprocessable(selectedItem.file) && selectedItem.previewUrl ? (
+                            <ImagePreprocessPanel
+                                item={{ ...selectedItem, file: selectedItem.file, previewUrl: selectedItem.previewUrl }}
+                                options={preprocessOptions}
+                                onOptionsChange={updatePreprocessOptions}
+                                onSkipChange={(skip) => updateItem(selectedItem.id, { skipPreprocess: skip })}
+                            />
+                        ) : (
+                            <div className="h-full flex flex-col items-center justify-center text-gray-300">
+                                <Receipt size={64} strokeWidth={1} />
+                                <p className="mt-4 text-sm font-medium text-gray-400">Sonuçlar burada görüntülenecek</p>
                             </div>
-                        </>
-                    ) : (
-                        <div className="h-full flex flex-col items-center justify-center text-gray-300">
-                            <Receipt size={64} strokeWidth={1} />
-                            <p className="mt-4 text-sm font-medium text-gray-400">Sonuçlar burada görüntülenecek</p>
-                        </div>
-                    )}
+                        )}
+                    </div>
                 </div>
             </main>
         </div>
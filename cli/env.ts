@@ -0,0 +1,7 @@
+// Imported first so .env is loaded before the services read import.meta.env
+// (the CLI build maps import.meta.env to process.env)
+try {
+  process.loadEnvFile();
+} catch {
+  // no .env file
+}
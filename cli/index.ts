@@ -0,0 +1,121 @@
+// Headless scanner: fis-tarama scan <dizin> --out sonuclar.csv
+// Build with "npm run build:cli"; keys are read from the environment or .env
+import './env';
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ExchangeRate, ExportSheet, LlmProviderId } from '../types';
+import { LLM_PROVIDERS } from '../services/llmProvider';
+import { MAX_CONCURRENT_SCANS } from '../services/scanQueue';
+import { validatePageRange } from '../services/pageRange';
+import { parseRateFile } from '../services/currencyService';
+import { runScan } from './scan';
+import { OutputFormat, formatFromPath } from './state';
+
+const USAGE = `Kullanım: fis-tarama scan <dizin> [seçenekler]
+
+Dizindeki PDF ve görselleri (pdf, png, jpg, jpeg, webp) OCR ile okur,
+ayrıştırır, doğrular ve tek bir çıktı dosyasına yazar. Daha önce işlenmiş
+(aynı yol ve içerik) dosyalar atlanır.
+
+Seçenekler:
+  --out <dosya>         Çıktı dosyası (varsayılan: fisler.json)
+  --format <biçim>      json | csv | ndjson (varsayılan: uzantıdan)
+  --sheet <sayfa>       CSV için receipts | items (varsayılan: receipts)
+  --state <dosya>       İşlenen dosyaların kaydı (varsayılan: <çıktı>.state.json)
+  --parser <ad>         gemini | openai | ollama | offline (varsayılan: gemini)
+  --model <ad>          Ayrıştırma modeli
+  --base-url <url>      OpenAI uyumlu / Ollama sunucu adresi
+  --pages <aralık>      PDF sayfaları, örn. "1,3-5,8-"
+  --rates <dosya>       Dövizli fişler için kur tablosu (TCMB XML veya CSV)
+  --concurrency <n>     Eşzamanlı dosya sayısı (varsayılan: ${MAX_CONCURRENT_SCANS})
+  --mock                Anahtarsız sahte OCR ve çevrimdışı ayrıştırıcı (CI için)
+  --force               Daha önce işlenmiş dosyaları da yeniden işle
+  --quiet               Yalnızca hataları yazdır
+  -h, --help            Bu yardımı göster
+
+Ortam değişkenleri: MISTRAL_API_KEY, GEMINI_API_KEY, LLM_API_KEY (OpenAI uyumlu)
+Çıkış kodu: 0 başarılı, 1 OCR veya doğrulama hatası, 2 kullanım hatası`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      format: { type: 'string' },
+      sheet: { type: 'string' },
+      state: { type: 'string' },
+      parser: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      pages: { type: 'string' },
+      rates: { type: 'string' },
+      concurrency: { type: 'string' },
+      mock: { type: 'boolean' },
+      force: { type: 'boolean' },
+      quiet: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const [command, dir] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'scan') fail(`Bilinmeyen komut: ${command}`);
+  if (!dir || !fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) fail(`Dizin bulunamadı: ${dir || ''}`);
+
+  const out = values.out || 'fisler.json';
+  const format = (values.format || formatFromPath(out)) as OutputFormat;
+  if (!['json', 'csv', 'ndjson'].includes(format)) fail(`Geçersiz biçim: ${values.format || path.extname(out)}`);
+
+  const sheet = (values.sheet || 'receipts') as ExportSheet;
+  if (sheet !== 'receipts' && sheet !== 'items') fail(`Geçersiz sayfa: ${sheet}`);
+
+  const parser = (values.parser || 'gemini') as LlmProviderId | 'offline';
+  if (parser !== 'offline' && !(parser in LLM_PROVIDERS)) fail(`Geçersiz ayrıştırıcı: ${parser}`);
+
+  const pageRangeError = validatePageRange(values.pages || '');
+  if (pageRangeError) fail(pageRangeError);
+
+  if (values.rates && !fs.existsSync(values.rates)) fail(`Kur dosyası bulunamadı: ${values.rates}`);
+  let rates: ExchangeRate[] = [];
+  try {
+    rates = values.rates ? parseRateFile(fs.readFileSync(values.rates, 'utf8'), path.basename(values.rates)) : [];
+  } catch (error: any) {
+    fail(error.message);
+  }
+
+  const concurrency = Number(values.concurrency || MAX_CONCURRENT_SCANS);
+  if (!Number.isInteger(concurrency) || concurrency < 1) fail(`Geçersiz eşzamanlılık: ${values.concurrency}`);
+
+  return runScan({
+    dir: path.resolve(dir),
+    out: path.resolve(out),
+    format,
+    sheet,
+    statePath: path.resolve(values.state || `${out}.state.json`),
+    mock: !!values.mock,
+    parser,
+    model: values.model,
+    baseUrl: values['base-url'],
+    pages: values.pages || '',
+    rates,
+    concurrency,
+    force: !!values.force,
+    quiet: !!values.quiet
+  });
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch((error: any) => {
+    console.error(error.message || error);
+    process.exit(2);
+  });
@@ -0,0 +1,12 @@
+// Node has no canvas or worker URL; the legacy build parses on the main thread
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+/**
+ * Page count of a PDF, needed to resolve open ranges such as "8-"
+ */
+export const countPdfPages = async (data: Uint8Array): Promise<number> => {
+  const pdf = await getDocument({ data, verbosity: 0 }).promise;
+  const count = pdf.numPages;
+  await pdf.destroy();
+  return count;
+};
@@ -0,0 +1,177 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { ExchangeRate, ExportSheet, LlmProviderId, LlmSettings } from '../types';
+import { processDocument } from '../services/mistralService';
+import { parseReceipt, defaultLlmSettings, resolveParserSettings, LLM_PROVIDERS, OFFLINE_PARSER_MODEL } from '../services/llmProvider';
+import { validateReceipt, hasBlockingFindings } from '../services/receiptValidator';
+import { runWithConcurrency } from '../services/scanQueue';
+import { segmentReceipts } from '../services/receiptSegmenter';
+import { parsePageRange } from '../services/pageRange';
+import { DEFAULT_CATEGORY_SETTINGS } from '../services/categoryService';
+import { countPdfPages } from './pdf';
+import { CliRecord, OutputFormat, loadState, saveState, writeOutput, recordKeysOf, pruneMissing } from './state';
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp'
+};
+
+export interface ScanOptions {
+  dir: string;
+  out: string;
+  format: OutputFormat;
+  sheet: ExportSheet;
+  statePath: string;
+  mock: boolean;
+  parser: LlmProviderId | 'offline';
+  model?: string;
+  baseUrl?: string;
+  pages: string; // 1-based range, e.g. "1,3-5,8-"; applies to PDFs only
+  rates: ExchangeRate[]; // From --rates; foreign-currency receipts stay unconverted without one
+  concurrency: number;
+  force: boolean;
+  quiet: boolean;
+}
+
+/**
+ * Receipt files under dir, as sorted paths relative to it
+ */
+const listReceiptFiles = (dir: string): string[] => {
+  const files: string[] = [];
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      if (entry.name.startsWith('.')) continue;
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (MIME_TYPES[path.extname(entry.name).toLowerCase()]) files.push(path.relative(dir, full));
+    }
+  };
+  walk(dir);
+  return files.sort();
+};
+
+/**
+ * Parser settings from the flags; keys come from the environment, never argv
+ */
+const buildParserSettings = (options: ScanOptions): LlmSettings | null => {
+  if (options.mock || options.parser === 'offline') return null;
+
+  const defaults = defaultLlmSettings(options.parser);
+  const settings: LlmSettings = {
+    ...defaults,
+    model: options.model || defaults.model,
+    baseUrl: options.baseUrl || defaults.baseUrl,
+    apiKey: (options.parser === 'gemini' ? process.env.GEMINI_API_KEY : process.env.LLM_API_KEY) || ''
+  };
+  const resolved = resolveParserSettings(settings, false);
+  if (!resolved) {
+    console.warn(`${LLM_PROVIDERS[options.parser].label} yapılandırılmadı; kural tabanlı ayrıştırıcı kullanılacak.`);
+  }
+  return resolved;
+};
+
+/**
+ * OCR + parse + validate every new file in a directory.
+ * Returns the process exit code: 1 when any file failed or did not validate,
+ * counting the stored result of files skipped as already processed.
+ */
+export const runScan = async (options: ScanOptions): Promise<number> => {
+  const mistralApiKey = options.mock ? '' : process.env.MISTRAL_API_KEY || process.env.VITE_MISTRAL_API_KEY || '';
+  if (!options.mock && !mistralApiKey) {
+    console.error('MISTRAL_API_KEY tanımlı değil. Anahtarsız denemek için --mock kullanın.');
+    return 2;
+  }
+
+  const parserSettings = buildParserSettings(options);
+  const parserModel = parserSettings ? parserSettings.model : OFFLINE_PARSER_MODEL;
+  const state = loadState(options.statePath);
+  const log = (message: string) => { if (!options.quiet) console.log(message); };
+
+  // Only hashes are kept; each file is read again when its turn comes
+  const files = listReceiptFiles(options.dir).map(source => ({
+    source,
+    sha256: createHash('sha256').update(fs.readFileSync(path.join(options.dir, source))).digest('hex')
+  }));
+  const pending = files.filter(f => {
+    const keys = recordKeysOf(state, f.source);
+    return options.force || keys.length === 0 || keys.some(key => state.files[key].sha256 !== f.sha256);
+  });
+  log(`${files.length} dosya bulundu, ${files.length - pending.length} tanesi daha önce işlenmiş.`);
+
+  // Deleted or moved files leave the state, and with it the output
+  const pruned = pruneMissing(state, files.map(f => f.source));
+  if (pruned > 0) {
+    saveState(options.statePath, state);
+    log(`Klasörde artık olmayan ${pruned} kayıt silindi.`);
+  }
+
+  let failed = 0;
+  let invalid = 0;
+
+  // Skipped files keep the validation result of the run that scanned them
+  const skipped = files.filter(f => !pending.includes(f));
+  skipped.flatMap(f => recordKeysOf(state, f.source)).forEach(key => {
+    const { valid, findings } = state.files[key];
+    if (valid) return;
+    invalid++;
+    const errors = findings.filter(f => f.severity === 'error');
+    console.error(`✗ ${key} — ${errors.length} doğrulama hatası (önceki tarama): ${errors.map(f => f.message).join('; ')}`);
+  });
+
+  await runWithConcurrency(pending, options.concurrency, async ({ source, sha256 }) => {
+    try {
+      const buffer = fs.readFileSync(path.join(options.dir, source));
+      const file = new File([new Uint8Array(buffer)], path.basename(source), { type: MIME_TYPES[path.extname(source).toLowerCase()] });
+      // pdfjs takes ownership of the buffer it parses, so it gets a copy
+      const pages = file.type === 'application/pdf' && options.pages
+        ? parsePageRange(options.pages, await countPdfPages(new Uint8Array(buffer)))
+        : [];
+      const ocr = await processDocument(file, mistralApiKey, 'realtime', pages, () => {});
+
+      // One record per receipt; a document with several gets "<path>#<n>" keys
+      const segments = segmentReceipts(ocr);
+      const records: CliRecord[] = [];
+      for (const [index, segment] of segments.entries()) {
+        const receipt = await parseReceipt(segment.markdown, parserSettings, DEFAULT_CATEGORY_SETTINGS, options.rates);
+        const findings = validateReceipt(receipt);
+        records.push({
+          source: segments.length > 1 ? `${source}#${index + 1}` : source,
+          sha256,
+          scannedAt: new Date().toISOString(),
+          ocrModel: ocr.json?.model || 'unknown',
+          parserModel,
+          valid: !hasBlockingFindings(findings),
+          findings,
+          receipt
+        });
+      }
+
+      // The receipt count may have changed since the last run
+      recordKeysOf(state, source).forEach(key => delete state.files[key]);
+      records.forEach(record => { state.files[record.source] = record; });
+      saveState(options.statePath, state);
+
+      for (const { source: key, valid, findings, receipt } of records) {
+        if (valid) {
+          log(`✓ ${key} — ${receipt.merchantName || '?'} ${receipt.total ?? ''}`);
+        } else {
+          invalid++;
+          const errors = findings.filter(f => f.severity === 'error');
+          console.error(`✗ ${key} — ${errors.length} doğrulama hatası: ${errors.map(f => f.message).join('; ')}`);
+        }
+      }
+    } catch (error: any) {
+      failed++;
+      console.error(`✗ ${source} — ${error.message || error}`);
+    }
+  });
+
+  writeOutput(options.out, options.format, Object.values(state.files), options.sheet);
+  log(`${pending.length - failed} dosya işlendi, ${failed} hata, ${invalid} doğrulanamayan fiş (atlananlar dahil). Çıktı: ${options.out}`);
+
+  return failed > 0 || invalid > 0 ? 1 : 0;
+};
@@ -0,0 +1,79 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { ReceiptData, ValidationFinding, ExportSheet } from '../types';
+import { receiptsToCsv, getDefaultExportMapping } from '../services/exportService';
+
+export type OutputFormat = 'json' | 'csv' | 'ndjson';
+
+export interface CliRecord {
+  source: string; // Path relative to the scanned directory, plus "#<n>" when it held several receipts
+  sha256: string;
+  scannedAt: string;
+  ocrModel: string;
+  parserModel: string;
+  valid: boolean; // No error-severity findings
+  findings: ValidationFinding[];
+  receipt: ReceiptData;
+}
+
+interface StateFile {
+  version: 1;
+  files: Record<string, CliRecord>;
+}
+
+/**
+ * Remembers processed files (by path and content hash) between runs
+ */
+export const loadState = (statePath: string): StateFile => {
+  if (!fs.existsSync(statePath)) return { version: 1, files: {} };
+  const state = JSON.parse(fs.readFileSync(statePath, 'utf8')) as StateFile;
+  return { version: 1, files: state.files || {} };
+};
+
+/**
+ * Keys of the records produced by one file: "<path>" or "<path>#<n>" per receipt
+ */
+export const recordKeysOf = (state: StateFile, source: string) =>
+  Object.keys(state.files).filter(key => key === source || key.startsWith(`${source}#`));
+
+/**
+ * Drops records whose source file is gone from the directory; returns how many were dropped
+ */
+export const pruneMissing = (state: StateFile, sources: string[]): number => {
+  const kept = new Set(sources.flatMap(source => recordKeysOf(state, source)));
+  const stale = Object.keys(state.files).filter(key => !kept.has(key));
+  stale.forEach(key => delete state.files[key]);
+  return stale.length;
+};
+
+// Write-then-rename so an interrupted nightly run never leaves a truncated file
+const writeAtomic = (filePath: string, content: string) => {
+  const tmp = `${filePath}.tmp`;
+  fs.writeFileSync(tmp, content);
+  fs.renameSync(tmp, filePath);
+};
+
+export const saveState = (statePath: string, state: StateFile) => {
+  writeAtomic(statePath, JSON.stringify(state, null, 2));
+};
+
+export const formatFromPath = (outPath: string): OutputFormat | null => {
+  const ext = path.extname(outPath).toLowerCase().slice(1);
+  return ext === 'json' || ext === 'csv' || ext === 'ndjson' ? ext : null;
+};
+
+/**
+ * Writes every record in the state, so the output always covers the whole directory
+ */
+export const writeOutput = (outPath: string, format: OutputFormat, records: CliRecord[], sheet: ExportSheet) => {
+  const sorted = [...records].sort((a, b) => a.source.localeCompare(b.source));
+
+  if (format === 'json') {
+    writeAtomic(outPath, JSON.stringify(sorted, null, 2));
+  } else if (format === 'ndjson') {
+    writeAtomic(outPath, sorted.map(r => JSON.stringify(r)).join('\n') + (sorted.length ? '\n' : ''));
+  } else {
+    const receipts = sorted.map(r => ({ id: r.source, name: path.basename(r.source), data: r.receipt }));
+    writeAtomic(outPath, receiptsToCsv(sheet, receipts, getDefaultExportMapping()));
+  }
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { AccountMapping, PaymentAccountKind } from '../types';
+import { DEFAULT_ACCOUNT_MAPPING, PAYMENT_ACCOUNT_LABELS, accountName } from '../services/journalService';
+import { RotateCcw } from 'lucide-react';
+
+interface AccountMappingEditorProps {
+  mapping: AccountMapping;
+  categories: string[]; // Expense taxonomy plus other categories seen in the export scope
+  onChange: (mapping: AccountMapping) => void;
+}
+
+const inputClass = 'w-24 bg-gray-50 border border-gray-200 px-1.5 py-0.5 rounded text-[10px] font-mono focus:outline-none focus:border-mistral-black';
+
+const AccountRow: React.FC<{ label: string; value: string; placeholder?: string; onChange: (value: string) => void }> = ({ label, value, placeholder, onChange }) => (
+  <li className="flex items-center gap-2">
+    <span className="flex-1 min-w-0 truncate text-[10px] text-gray-600" title={label}>{label}</span>
+    <input
+      type="text"
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value.trim())}
+      className={inputClass}
+    />
+    <span className="w-20 truncate text-[9px] text-gray-400" title={accountName(value || placeholder || '')}>
+      {accountName(value || placeholder || '')}
+    </span>
+  </li>
+);
+
+const AccountMappingEditor: React.FC<AccountMappingEditorProps> = ({ mapping, categories, onChange }) => {
+  const vatRates = Object.keys(mapping.vatAccounts).sort((a, b) => Number(a) - Number(b));
+
+  const setCategory = (category: string, account: string) => {
+    const categoryAccounts = { ...mapping.categoryAccounts };
+    if (account) categoryAccounts[category] = account;
+    else delete categoryAccounts[category];
+    onChange({ ...mapping, categoryAccounts });
+  };
+
+  return (
+    <div className="border-t border-gray-100 pt-3 space-y-3">
+      <div className="flex items-center">
+        <span className="text-[10px] font-bold uppercase tracking-wide text-gray-500">Hesap Eşlemesi</span>
+        <button
+          onClick={() => onChange(DEFAULT_ACCOUNT_MAPPING)}
+          className="ml-auto flex items-center gap-1 text-[10px] text-gray-400 hover:text-mistral-black"
+          title="Varsayılana Dön"
+        >
+          <RotateCcw size={10} /> Sıfırla
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-[9px] uppercase tracking-wide text-gray-400">Gider (Borç)</span>
+        <ul className="space-y-1">
+          <AccountRow
+            label="Varsayılan gider hesabı"
+            value={mapping.defaultExpenseAccount}
+            onChange={(value) => onChange({ ...mapping, defaultExpenseAccount: value })}
+          />
+          {categories.map(category => (
+            <AccountRow
+              key={category}
+              label={category}
+              value={mapping.categoryAccounts[category] || ''}
+              placeholder={mapping.defaultExpenseAccount || DEFAULT_ACCOUNT_MAPPING.defaultExpenseAccount}
+              onChange={(value) => setCategory(category, value)}
+            />
+          ))}
+        </ul>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-[9px] uppercase tracking-wide text-gray-400">İndirilecek KDV (Borç)</span>
+        <ul className="space-y-1">
+          {vatRates.map(rate => (
+            <AccountRow
+              key={rate}
+              label={`KDV %${rate}`}
+              value={mapping.vatAccounts[rate]}
+              onChange={(value) => onChange({ ...mapping, vatAccounts: { ...mapping.vatAccounts, [rate]: value } })}
+            />
+          ))}
+        </ul>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-[9px] uppercase tracking-wide text-gray-400">Ödeme (Alacak)</span>
+        <ul className="space-y-1">
+          {(Object.keys(PAYMENT_ACCOUNT_LABELS) as PaymentAccountKind[]).map(kind => (
+            <AccountRow
+              key={kind}
+              label={PAYMENT_ACCOUNT_LABELS[kind]}
+              value={mapping.paymentAccounts[kind]}
+              onChange={(value) => onChange({ ...mapping, paymentAccounts: { ...mapping.paymentAccounts, [kind]: value } })}
+            />
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default AccountMappingEditor;
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { AnalyticsFilter, ExportReceipt, SpendingBucket } from '../types';
+import { EMPTY_ANALYTICS_FILTER, filterReceipts, listMerchants, summarizeSpending } from '../services/analyticsService';
+import { BarChart3, X, RotateCcw } from 'lucide-react';
+
+interface AnalyticsDashboardProps {
+  receipts: ExportReceipt[]; // Parsed receipts in the scan history
+  onClose: () => void;
+}
+
+// Rows shown per ranking before the rest is summed up
+const RANKING_LIMIT = 8;
+
+const fmtCurrency = (num?: number) => new Intl.NumberFormat('tr-TR', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+}).format(num || 0);
+
+const inputClass = 'bg-gray-50 border border-gray-200 px-2 py-1 rounded text-[10px] focus:outline-none focus:border-mistral-black';
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="border border-gray-200 rounded p-3">
+    <div className="text-[9px] uppercase tracking-wide text-gray-400">{label}</div>
+    <div className="text-sm font-bold text-mistral-black mt-1">{value}</div>
+  </div>
+);
+
+const Card: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="border border-gray-200 rounded p-3 space-y-2">
+    <h3 className="text-[10px] font-bold uppercase tracking-wide text-gray-500">{title}</h3>
+    {children}
+  </section>
+);
+
+/**
+ * Horizontal bars scaled to the largest bucket; the tail beyond the limit is one "Diğer" row
+ */
+const BarList: React.FC<{ buckets: SpendingBucket[]; unit?: string }> = ({ buckets, unit = 'fiş' }) => {
+  if (buckets.length === 0) return <p className="text-[10px] text-gray-400">Veri yok</p>;
+
+  const rest = buckets.slice(RANKING_LIMIT);
+  const rows = rest.length > 0
+    ? [...buckets.slice(0, RANKING_LIMIT), {
+      key: '__rest',
+      label: `Diğer (${rest.length})`,
+      total: rest.reduce((acc, b) => acc + b.total, 0),
+      count: rest.reduce((acc, b) => acc + b.count, 0)
+    }]
+    : buckets;
+  const max = Math.max(...rows.map(b => Math.abs(b.total)), 0.01);
+
+  return (
+    <ul className="space-y-1.5">
+      {rows.map(bucket => (
+        <li key={bucket.key} className="text-[10px]" title={`${bucket.count} ${unit}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="truncate text-gray-700">{bucket.label}</span>
+            <span className="font-mono text-gray-900 shrink-0">{fmtCurrency(bucket.total)} ₺</span>
+          </div>
+          <div className="h-1.5 bg-gray-100 rounded-full mt-0.5">
+            <div className="h-full bg-mistral-black rounded-full" style={{ width: `${(Math.abs(bucket.total) / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Monthly spend as columns, tallest month = full height
+ */
+const MonthChart: React.FC<{ buckets: SpendingBucket[] }> = ({ buckets }) => {
+  if (buckets.length === 0) return <p className="text-[10px] text-gray-400">Veri yok</p>;
+  const max = Math.max(...buckets.map(b => b.total), 0.01);
+
+  return (
+    <div className="flex items-end gap-1 h-40 overflow-x-auto">
+      {buckets.map(bucket => (
+        <div
+          key={bucket.key}
+          className="flex-1 min-w-[2.5rem] h-full flex flex-col justify-end items-center gap-1"
+          title={`${bucket.label}: ${fmtCurrency(bucket.total)} ₺ (${bucket.count} fiş)`}
+        >
+          <span className="text-[8px] font-mono text-gray-500">{fmtCurrency(bucket.total)}</span>
+          <div className="w-full bg-mistral-black/80 hover:bg-mistral-black rounded-t-sm" style={{ height: `${Math.max((bucket.total / max) * 100, 1)}%` }} />
+          <span className="text-[9px] text-gray-500 whitespace-nowrap">{bucket.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ receipts, onClose }) => {
+  const [filter, setFilter] = useState<AnalyticsFilter>(EMPTY_ANALYTICS_FILTER);
+
+  const merchants = useMemo(() => listMerchants(receipts), [receipts]);
+  const filtered = useMemo(() => filterReceipts(receipts, filter), [receipts, filter]);
+  const summary = useMemo(() => summarizeSpending(filtered), [filtered]);
+
+  const update = (patch: Partial<AnalyticsFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+  const filtering = filter.from || filter.to || filter.merchant;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <BarChart3 size={14} />
+        <span className="text-xs font-bold uppercase tracking-wide">Harcama Analizi</span>
+        <span className="text-[10px] text-gray-400">{filtered.length} / {receipts.length} fiş</span>
+        <button onClick={onClose} className="ml-auto p-1 rounded-full text-gray-400 hover:text-mistral-black hover:bg-gray-100" title="Kapat">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-100">
+        <input type="date" value={filter.from} max={filter.to || undefined} onChange={(e) => update({ from: e.target.value })} className={inputClass} />
+        <span className="text-[10px] text-gray-400">-</span>
+        <input type="date" value={filter.to} min={filter.from || undefined} onChange={(e) => update({ to: e.target.value })} className={inputClass} />
+        <select value={filter.merchant} onChange={(e) => update({ merchant: e.target.value })} className={`${inputClass} max-w-[14rem]`}>
+          <option value="">Tüm satıcılar</option>
+          {merchants.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+        </select>
+        {filtering && (
+          <button onClick={() => setFilter(EMPTY_ANALYTICS_FILTER)} className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-mistral-black">
+            <RotateCcw size={10} /> Temizle
+          </button>
+        )}
+      </div>
+
+      {receipts.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-gray-400">
+          Geçmişte ayrıştırılmış fiş yok
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {summary.unconvertedCount > 0 && (
+            <p className="text-[10px] text-orange-700 bg-orange-50 border border-orange-200 rounded px-3 py-2">
+              Kuru bulunamayan {summary.unconvertedCount} dövizli fiş toplamlara dahil edilmedi. İşlem Ayarları'ndan kur tablosu içe aktarın.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <StatCard label="Toplam Harcama" value={`${fmtCurrency(summary.total)} ₺`} />
+            <StatCard label="Fiş Sayısı" value={String(summary.receiptCount)} />
+            <StatCard label="Ortalama Sepet" value={`${fmtCurrency(summary.averageBasket)} ₺`} />
+            <StatCard label="Ödenen KDV" value={`${fmtCurrency(summary.tax)} ₺`} />
+          </div>
+
+          <Card title="Aylık Harcama">
+            <MonthChart buckets={summary.byMonth} />
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Card title="Satıcılar">
+              <BarList buckets={summary.byMerchant} />
+            </Card>
+            <Card title="Kategoriler">
+              <BarList buckets={summary.byCategory} unit="kalem" />
+            </Card>
+            <Card title="Ödeme Yöntemi">
+              <BarList buckets={summary.byPaymentMethod} />
+            </Card>
+            <Card title="KDV Oranına Göre">
+              {summary.vatByRate.length === 0 ? (
+                <p className="text-[10px] text-gray-400">Veri yok</p>
+              ) : (
+                <table className="w-full text-[10px]">
+                  <thead className="text-gray-400 text-left">
+                    <tr>
+                      <th className="font-normal">Oran</th>
+                      <th className="font-normal text-right">Matrah</th>
+                      <th className="font-normal text-right">KDV</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono">
+                    {summary.vatByRate.map(v => (
+                      <tr key={v.rate} className="border-t border-gray-50">
+                        <td className="py-1">%{v.rate}</td>
+                        <td className="py-1 text-right">{fmtCurrency(v.base)} ₺</td>
+                        <td className="py-1 text-right font-bold">{fmtCurrency(v.amount)} ₺</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </Card>
+          </div>
+
+          <Card title="En Çok Harcanan Ürünler">
+            <BarList buckets={summary.topItems} unit="kalem" />
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
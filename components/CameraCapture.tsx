@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { createCanvas, context2d } from '../services/imagePreprocessor';
+import { Quad, detectReceiptQuad, quadMovement, warpQuad, stitchFrames } from '../services/receiptDetector';
+import { X, Camera, Loader2, ScrollText, Check } from 'lucide-react';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+type CaptureMode = 'single' | 'long';
+
+const DETECT_INTERVAL_MS = 200;
+const STEADY_FRAMES = 5; // ~1 s without movement triggers auto-capture
+const STEADY_MOVEMENT = 0.015; // Max corner movement per tick, relative to frame width
+const ANALYSIS_WIDTH = 480;
+
+const canvasToJpeg = (canvas: HTMLCanvasElement) =>
+  new Promise<File>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('Görüntü kodlanamadı'));
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      resolve(new File([blob], `kamera_${stamp}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.92);
+  });
+
+const cameraErrorMessage = (error: any) => {
+  if (!window.isSecureContext) return 'Kamera yalnızca HTTPS veya localhost üzerinden kullanılabilir.';
+  if (error?.name === 'NotAllowedError') return 'Kamera izni verilmedi. Tarayıcı ayarlarından izin verin.';
+  if (error?.name === 'NotFoundError') return 'Bu cihazda kamera bulunamadı.';
+  return error?.message || 'Kamera açılamadı.';
+};
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<CaptureMode>('single');
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [quad, setQuad] = useState<Quad | null>(null); // In video pixels
+  const [steadyCount, setSteadyCount] = useState(0);
+  const [frames, setFrames] = useState<HTMLCanvasElement[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+
+  // Open the rear camera; tracks are stopped on close
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false
+    })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(err => setError(cameraErrorMessage(err)));
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  // Live edge detection on a downscaled copy of the frame
+  useEffect(() => {
+    if (error) return;
+    const analysis = createCanvas(1, 1);
+    let previous: Quad | null = null;
+
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+
+      const scale = ANALYSIS_WIDTH / video.videoWidth;
+      analysis.width = ANALYSIS_WIDTH;
+      analysis.height = Math.round(video.videoHeight * scale);
+      context2d(analysis).drawImage(video, 0, 0, analysis.width, analysis.height);
+
+      const found = detectReceiptQuad(analysis);
+      const scaled = found ? found.map(p => ({ x: p.x / scale, y: p.y / scale })) as Quad : null;
+      const steady = !!(scaled && previous && quadMovement(scaled, previous, video.videoWidth) < STEADY_MOVEMENT);
+      previous = scaled;
+
+      setQuad(scaled);
+      setSteadyCount(count => (steady ? count + 1 : 0));
+    }, DETECT_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [error]);
+
+  // Full-resolution frame, perspective-corrected when the receipt was found
+  const grabFrame = () => {
+    const video = videoRef.current!;
+    const frame = createCanvas(video.videoWidth, video.videoHeight);
+    context2d(frame).drawImage(video, 0, 0);
+    return quad ? warpQuad(frame, quad) : frame;
+  };
+
+  const finish = async (parts: HTMLCanvasElement[]) => {
+    setBusy(true);
+    try {
+      const image = parts.length === 1 ? parts[0] : stitchFrames(parts);
+      onCapture(await canvasToJpeg(image));
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Görüntü kaydedilemedi');
+      setBusy(false);
+    }
+  };
+
+  const handleShutter = () => {
+    if (busy || !videoRef.current?.videoWidth) return;
+    const frame = grabFrame();
+    setSteadyCount(0);
+    if (mode === 'single') finish([frame]);
+    else setFrames(prev => [...prev, frame]);
+  };
+
+  // Long receipts are framed piece by piece, so only single shots fire on their own
+  useEffect(() => {
+    if (autoCapture && mode === 'single' && steadyCount >= STEADY_FRAMES) handleShutter();
+  }, [steadyCount]);
+
+  const steady = steadyCount >= 2;
+
+  // Portal: the sidebar drawer is transformed, which would trap a fixed overlay inside it
+  return createPortal(
+    <div className="fixed inset-0 z-[60] bg-black flex flex-col">
+      {/* Top bar */}
+      <div className="flex items-center justify-between px-4 py-3 text-white text-xs">
+        <div className="flex bg-white/10 p-1 rounded-md">
+          {(['single', 'long'] as CaptureMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => { setMode(m); setFrames([]); }}
+              className={`px-3 py-1 text-[10px] font-medium rounded-sm transition-all flex items-center gap-1 ${mode === m ? 'bg-white text-mistral-black' : 'text-gray-300'}`}
+            >
+              {m === 'single' ? <><Camera size={10} /> Tek Kare</> : <><ScrollText size={10} /> Uzun Fiş</>}
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="p-2 text-gray-300 hover:text-white" title="Kapat">
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Viewfinder */}
+      <div className="flex-1 relative overflow-hidden">
+        {error ? (
+          <div className="h-full flex items-center justify-center px-6 text-center text-sm text-red-300">{error}</div>
+        ) : (
+          <>
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedMetadata={(e) => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+              className="absolute inset-0 w-full h-full object-contain"
+            />
+            {quad && videoSize.width > 0 && (
+              <svg
+                viewBox={`0 0 ${videoSize.width} ${videoSize.height}`}
+                preserveAspectRatio="xMidYMid meet"
+                className="absolute inset-0 w-full h-full pointer-events-none"
+              >
+                <polygon
+                  points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill={steady ? 'rgba(34,197,94,0.15)' : 'rgba(255,255,255,0.1)'}
+                  stroke={steady ? '#22c55e' : '#fff'}
+                  strokeWidth={Math.max(3, videoSize.width / 300)}
+                />
+              </svg>
+            )}
+            <p className="absolute top-3 inset-x-0 text-center text-[11px] text-white/80">
+              {mode === 'long'
+                ? `Fişi yukarıdan aşağıya, kareler biraz örtüşecek şekilde çekin (${frames.length} kare)`
+                : quad
+                  ? autoCapture ? 'Sabit tutun, otomatik çekilecek' : 'Fiş algılandı'
+                  : 'Fişi koyu bir zemin üzerinde kadraja alın'}
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center justify-between px-6 py-4">
+        <label className="flex items-center gap-1 text-[10px] text-gray-300 w-24">
+          <input
+            type="checkbox"
+            checked={autoCapture}
+            onChange={(e) => setAutoCapture(e.target.checked)}
+            disabled={mode === 'long'}
+          />
+          Otomatik
+        </label>
+
+        <button
+          onClick={handleShutter}
+          disabled={!!error || busy}
+          className="w-16 h-16 rounded-full border-4 border-white bg-white/20 active:scale-95 transition-transform disabled:opacity-40 flex items-center justify-center"
+          title="Çek"
+        >
+          {busy && <Loader2 size={20} className="animate-spin text-white" />}
+        </button>
+
+        <div className="w-24 flex justify-end">
+          {mode === 'long' && frames.length > 0 && (
+            <button
+              onClick={() => finish(frames)}
+              disabled={busy}
+              className="flex items-center gap-1 px-3 py-2 rounded bg-white text-mistral-black text-[10px] font-medium"
+            >
+              <Check size={12} /> Bitti ({frames.length})
+            </button>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default CameraCapture;
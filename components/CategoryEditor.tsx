@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { CategoryRule, CategorySettings } from '../types';
+import { CATEGORY_RULE_LABELS, DEFAULT_CATEGORY_SETTINGS, createRuleId, validateRulePattern } from '../services/categoryService';
+import { Tags, Plus, X, Trash2, RotateCcw, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface CategoryEditorProps {
+  settings: CategorySettings;
+  onChange: (settings: CategorySettings) => void;
+}
+
+const selectClass = 'bg-gray-50 border border-gray-200 px-1.5 py-1 rounded text-[10px] focus:outline-none focus:border-mistral-black';
+
+const CategoryEditor: React.FC<CategoryEditorProps> = ({ settings, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [newCategory, setNewCategory] = useState('');
+
+  const learnedCount = settings.rules.filter(r => r.learned).length;
+
+  const addCategory = () => {
+    const name = newCategory.trim();
+    if (!name || settings.categories.some(c => c.toLocaleLowerCase('tr') === name.toLocaleLowerCase('tr'))) return;
+    onChange({ ...settings, categories: [...settings.categories, name] });
+    setNewCategory('');
+  };
+
+  // Rules pointing at a removed category would never apply again
+  const removeCategory = (name: string) => {
+    const categories = settings.categories.filter(c => c !== name);
+    if (categories.length === 0) return;
+    onChange({
+      categories,
+      fallbackCategory: settings.fallbackCategory === name ? categories[categories.length - 1] : settings.fallbackCategory,
+      rules: settings.rules.filter(r => r.category !== name)
+    });
+  };
+
+  const updateRule = (id: string, patch: Partial<CategoryRule>) =>
+    onChange({ ...settings, rules: settings.rules.map(r => r.id === id ? { ...r, ...patch, learned: false } : r) });
+
+  const addRule = () => onChange({
+    ...settings,
+    rules: [...settings.rules, { id: createRuleId(), kind: 'keyword', pattern: '', category: settings.categories[0] }]
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-gray-700 flex items-center gap-1">
+          <Tags size={12} /> Gider Kategorileri
+        </span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-mistral-black"
+        >
+          {settings.categories.length} kategori, {settings.rules.length} kural
+          {expanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="space-y-3 border border-gray-100 rounded p-2">
+          <div className="flex flex-wrap gap-1">
+            {settings.categories.map(category => (
+              <span key={category} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-gray-100 rounded-full text-[10px] text-gray-700">
+                {category}
+                <button
+                  onClick={() => removeCategory(category)}
+                  disabled={settings.categories.length === 1}
+                  className="text-gray-400 hover:text-red-500 disabled:opacity-40"
+                  title="Kategoriyi Sil"
+                >
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              placeholder="Yeni kategori"
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addCategory(); }}
+              className="flex-1 bg-gray-50 border border-gray-200 px-2 py-1 rounded text-[10px] focus:outline-none focus:border-mistral-black"
+            />
+            <button onClick={addCategory} disabled={!newCategory.trim()} className="p-1 text-gray-400 hover:text-mistral-black disabled:opacity-40" title="Ekle">
+              <Plus size={12} />
+            </button>
+          </div>
+
+          <label className="flex items-center justify-between gap-2 text-[10px] text-gray-600">
+            Eşleşmeyen kalemler
+            <select
+              value={settings.fallbackCategory}
+              onChange={(e) => onChange({ ...settings, fallbackCategory: e.target.value })}
+              className={selectClass}
+            >
+              {settings.categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+
+          <div className="space-y-1">
+            <div className="flex items-center">
+              <span className="text-[9px] uppercase tracking-wide text-gray-400">
+                Kurallar{learnedCount > 0 && ` (${learnedCount} öğrenildi)`}
+              </span>
+              <button onClick={addRule} className="ml-auto flex items-center gap-1 text-[10px] text-gray-400 hover:text-mistral-black">
+                <Plus size={10} /> Kural Ekle
+              </button>
+            </div>
+            {settings.rules.length === 0 && (
+              <p className="text-[10px] text-gray-400">Kural yok. Düzenleyicide değiştirdiğiniz kategoriler buraya kural olarak eklenir.</p>
+            )}
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {settings.rules.map(rule => {
+                const error = validateRulePattern(rule);
+                return (
+                  <li key={rule.id} className="space-y-0.5">
+                    <div className="flex items-center gap-1">
+                      <select
+                        value={rule.kind}
+                        onChange={(e) => updateRule(rule.id, { kind: e.target.value as CategoryRule['kind'] })}
+                        className={selectClass}
+                      >
+                        {(Object.keys(CATEGORY_RULE_LABELS) as CategoryRule['kind'][]).map(kind => (
+                          <option key={kind} value={kind}>{CATEGORY_RULE_LABELS[kind]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={rule.pattern}
+                        onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                        className={`flex-1 min-w-0 bg-gray-50 border px-1.5 py-1 rounded text-[10px] font-mono focus:outline-none ${error ? 'border-red-300' : 'border-gray-200 focus:border-mistral-black'}`}
+                      />
+                      <select
+                        value={rule.category}
+                        onChange={(e) => updateRule(rule.id, { category: e.target.value })}
+                        className={`${selectClass} max-w-[6rem]`}
+                      >
+                        {settings.categories.map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                      <button
+                        onClick={() => onChange({ ...settings, rules: settings.rules.filter(r => r.id !== rule.id) })}
+                        className="p-1 text-gray-400 hover:text-red-500"
+                        title="Kuralı Sil"
+                      >
+                        <Trash2 size={10} />
+                      </button>
+                    </div>
+                    {rule.learned && <span className="text-[9px] text-blue-500">Düzeltmeden öğrenildi</span>}
+                    {error && <p className="text-[9px] text-red-500">{error}</p>}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <button
+            onClick={() => onChange(DEFAULT_CATEGORY_SETTINGS)}
+            className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-mistral-black"
+          >
+            <RotateCcw size={10} /> Varsayılana Dön
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoryEditor;
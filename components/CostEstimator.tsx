@@ -1,11 +1,15 @@
 import React from 'react';
-import { PRICING, ApiMode } from '../types';
+import { PRICING, ApiMode, LlmSettings } from '../types';
+import { estimateOcrCost, estimateParseCost, estimateTokens } from '../services/costService';
+import { OcrProvider } from '../services/ocrProvider';
 import { Calculator, FileText, ScanLine, Layers, Zap, Bot } from 'lucide-react';
 
 interface CostEstimatorProps {
   pageCount: number;
   isAnnotated: boolean;
   apiMode: ApiMode;
+  provider: OcrProvider; // Local OCR providers cost nothing
+  parser: LlmSettings | null; // null = offline rule-based parser
   status: string;
   className?: string;
   inputCharCount?: number; // For Gemini token estimation
@@ -16,6 +20,8 @@ const CostEstimator: React.FC<CostEstimatorProps> = ({
     pageCount, 
     isAnnotated, 
     apiMode, 
+    provider,
+    parser,
     status, 
     className = '',
     inputCharCount = 0,
@@ -23,24 +29,15 @@ const CostEstimator: React.FC<CostEstimatorProps> = ({
 }) => {
   const activeTier = isAnnotated ? PRICING.ANNOTATION : PRICING.OCR;
   
-  // Calculate Base Cost
-  const baseCost = (pageCount / 1000) * activeTier.pricePer1k;
+  // OCR cost (batch discount applied inside)
+  const totalOcrCost = provider.local ? 0 : estimateOcrCost(pageCount, apiMode, isAnnotated);
   
-  // Apply Batch Discount (50% off)
-  const discountFactor = apiMode === 'batch' ? 0.5 : 1;
-  const totalOcrCost = baseCost * discountFactor;
+  const inputTokens = estimateTokens(inputCharCount);
+  const outputTokens = estimateTokens(outputCharCount);
   
-  // Gemini Cost Estimation (Flash Lite 2.5 Pricing)
-  // Input: $0.075 per 1 Million Tokens
-  // Output: $0.30 per 1 Million Tokens
-  // Approx 1 Token = 4 Characters
-  const inputTokens = inputCharCount / 4;
-  const outputTokens = outputCharCount / 4;
-  
-  const inputCost = (inputTokens / 1_000_000) * 0.075;
-  const outputCost = (outputTokens / 1_000_000) * 0.30;
-  
-  const geminiCost = status === 'success' ? (inputCost + outputCost) : 0;
+  // Parse pricing is only known for Gemini; self-hosted and other endpoints are not billed here
+  const showParser = status === 'success' && !!parser;
+  const geminiCost = showParser && parser.provider === 'gemini' ? estimateParseCost(inputCharCount, outputCharCount) : 0;
   
   const totalCost = totalOcrCost + geminiCost;
 
@@ -65,16 +62,16 @@ const CostEstimator: React.FC<CostEstimatorProps> = ({
              <span className="text-[10px] text-gray-500 font-sans uppercase">OCR Motoru</span>
              <div className="flex items-center gap-1.5 text-xs font-bold font-sans">
                 {isAnnotated ? <ScanLine size={14}/> : <FileText size={14}/>}
-                Mistral {activeTier.name}
+                {provider.local ? `${provider.label} (${provider.description})` : `Mistral ${activeTier.name}`}
              </div>
           </div>
           
           {/* Gemini Mode (Conditional) */}
-          {status === 'success' && (
+          {showParser && (
             <div className="flex flex-col animate-in fade-in duration-500">
                <span className="text-[10px] text-gray-500 font-sans uppercase">Ayrıştırma (GenAI)</span>
                <div className="flex items-center gap-1.5 text-xs font-bold font-sans text-blue-600">
-                  <Bot size={14}/> Flash Lite 2.5
+                  <Bot size={14}/> {parser.model}
                </div>
             </div>
           )}
@@ -83,7 +80,7 @@ const CostEstimator: React.FC<CostEstimatorProps> = ({
         <div className="flex flex-col items-end justify-center">
           <span className="text-xs text-gray-500 mb-1 font-sans">Tahmini Tutar</span>
           <div className="text-xl font-bold font-sans tracking-tight flex items-center gap-2">
-            {apiMode === 'batch' && (
+            {apiMode === 'batch' && provider.supportsBatch && (
                 <span className="text-[9px] bg-green-100 text-green-700 px-1.5 py-0.5 rounded font-sans uppercase">
                     BATCH
                 </span>
@@ -101,17 +98,17 @@ const CostEstimator: React.FC<CostEstimatorProps> = ({
              <div className="flex justify-between text-[10px] font-sans text-gray-400">
                 <div className="flex items-center gap-1">
                     {apiMode === 'batch' ? <Layers size={10}/> : <Zap size={10}/>}
-                    <span>Mistral OCR ({apiMode === 'batch' ? '-50%' : 'Std'})</span>
+                    <span>{provider.local ? `${provider.label} (${provider.description})` : `Mistral OCR (${apiMode === 'batch' ? '-50%' : 'Std'})`}</span>
                 </div>
                 <span>{fmtCost(totalOcrCost)}</span>
             </div>
-            {status === 'success' && (
+            {showParser && (
                 <div className="flex justify-between text-[10px] font-sans text-blue-400">
                     <div className="flex items-center gap-1">
                         <Bot size={10}/>
-                        <span>Gemini (In/Out)</span>
+                        <span>{parser.provider === 'gemini' ? 'Gemini (In/Out)' : parser.model}</span>
                     </div>
-                    <span>{fmtCost(geminiCost)}</span>
+                    <span>{parser.provider === 'gemini' ? fmtCost(geminiCost) : '—'}</span>
                 </div>
             )}
         </div>
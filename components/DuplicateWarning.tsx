@@ -0,0 +1,53 @@
+import React from 'react';
+import { DuplicateMatch } from '../types';
+import { Copy, Loader2 } from 'lucide-react';
+
+interface DuplicateWarningProps {
+  match: DuplicateMatch;
+  scanned: boolean; // After parsing; before OCR the scan can still be skipped
+  busy: boolean;
+  onOpen: () => void; // Before OCR: use the stored scan instead; after: just show it
+  onMerge: () => void;
+  onIgnore: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateMatch['reason'], string> = {
+  image: 'Aynı görüntü',
+  fingerprint: 'Aynı mali kimlik',
+  fuzzy: 'Benzer fiş'
+};
+
+const DuplicateWarning: React.FC<DuplicateWarningProps> = ({ match, scanned, busy, onOpen, onMerge, onIgnore }) => {
+  const actionClass = 'px-2 py-1 text-[10px] font-medium rounded-sm border transition-all disabled:opacity-40';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-amber-200 bg-amber-50 text-[10px] text-amber-800 flex-shrink-0">
+      <Copy size={12} className="flex-shrink-0" />
+      <span className="min-w-0">
+        <b>{REASON_LABELS[match.reason]}:</b> "{match.recordName}" ile aynı fiş olabilir ({match.detail}).
+        {!scanned && ' OCR yapılmadan bekletiliyor.'}
+      </span>
+      <div className="ml-auto flex items-center gap-1">
+        {busy && <Loader2 size={12} className="animate-spin" />}
+        <button onClick={onOpen} disabled={busy} className={`${actionClass} bg-white border-amber-300 hover:border-amber-500`}>
+          {scanned ? 'Kaydı Göster' : 'Mevcut Kaydı Kullan'}
+        </button>
+        {scanned && (
+          <button
+            onClick={onMerge}
+            disabled={busy}
+            className={`${actionClass} bg-amber-600 text-white border-amber-600 hover:bg-amber-700`}
+            title="Kayıtlı fiş kalır; boş alanları bu taramadan doldurulur ve bu tarama silinir"
+          >
+            Birleştir
+          </button>
+        )}
+        <button onClick={onIgnore} disabled={busy} className={`${actionClass} bg-white border-amber-300 hover:border-amber-500`}>
+          {scanned ? 'Yoksay' : 'Yine de Tara'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateWarning;
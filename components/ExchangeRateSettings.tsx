@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { ExchangeRate } from '../types';
+import { mergeExchangeRates, parseRateFile } from '../services/currencyService';
+import { Coins, Upload, Trash2 } from 'lucide-react';
+
+interface ExchangeRateSettingsProps {
+  rates: ExchangeRate[];
+  onChange: (rates: ExchangeRate[]) => void;
+}
+
+const fmtDate = (iso: string) => iso.split('-').reverse().join('.');
+
+const ExchangeRateSettings: React.FC<ExchangeRateSettingsProps> = ({ rates, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const currencies = [...new Set(rates.map(r => r.currency))].sort();
+
+  // Files are read locally; one bad file does not stop the others
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const imported: ExchangeRate[] = [];
+    const errors: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        imported.push(...parseRateFile(await file.text(), file.name));
+      } catch (e: any) {
+        errors.push(e.message || file.name);
+      }
+    }
+    if (imported.length > 0) onChange(mergeExchangeRates(rates, imported));
+    setMessage(imported.length > 0 ? `${imported.length} kur içe aktarıldı` : '');
+    setError(errors.join('\n'));
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const clear = () => {
+    onChange([]);
+    setMessage('');
+    setError('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-gray-700 flex items-center gap-1">
+          <Coins size={12} /> Döviz Kurları
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 text-[10px] border border-gray-200 rounded hover:border-mistral-black"
+            title="TCMB today.xml / arşiv XML veya CSV (tarih;para birimi;kur)"
+          >
+            <Upload size={10} /> İçe Aktar
+          </button>
+          {rates.length > 0 && (
+            <button onClick={clear} className="p-1 text-gray-400 hover:text-red-500" title="Kur Tablosunu Temizle">
+              <Trash2 size={12} />
+            </button>
+          )}
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".xml,.csv,.txt"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      <p className="text-[10px] text-gray-400">
+        {rates.length === 0
+          ? 'Kur tablosu boş; dövizli fişler TL\'ye çevrilmez. Kurlar internetten alınmaz, dosyadan içe aktarılır.'
+          : `${rates.length} kur · ${currencies.join(', ')} · ${fmtDate(rates[0].date)} - ${fmtDate(rates[rates.length - 1].date)}`}
+      </p>
+      {message && <p className="text-[10px] text-green-600">{message}</p>}
+      {error && <p className="text-[10px] text-red-500 whitespace-pre-line">{error}</p>}
+    </div>
+  );
+};
+
+export default ExchangeRateSettings;
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { AccountMapping, ExportMapping, ExportReceipt, ExportSheet, JournalFormat } from '../types';
+import {
+  EXPORT_SHEET_LABELS,
+  loadExportMapping,
+  saveExportMapping,
+  getDefaultExportMapping,
+  receiptsToCsv,
+  receiptsToXlsx,
+  exportFileName,
+  downloadBlob
+} from '../services/exportService';
+import { JOURNAL_FORMAT_LABELS, loadAccountMapping, saveAccountMapping, buildJournal, exportJournal, unconvertedReceipts } from '../services/journalService';
+import AccountMappingEditor from './AccountMappingEditor';
+import { Download, FileSpreadsheet, Settings2, ChevronUp, ChevronDown, RotateCcw, BookOpen } from 'lucide-react';
+
+interface ExportPanelProps {
+  selected: ExportReceipt | null;
+  queue: ExportReceipt[];
+  history: ExportReceipt[];
+  taxonomy: string[]; // Configured expense categories, offered in the account mapping even before use
+}
+
+type ExportScope = 'selected' | 'queue' | 'history';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ selected, queue, history, taxonomy }) => {
+  const [scope, setScope] = useState<ExportScope>('queue');
+  const [mapping, setMapping] = useState<ExportMapping>(() => loadExportMapping());
+  const [showColumns, setShowColumns] = useState(false);
+  const [columnSheet, setColumnSheet] = useState<ExportSheet>('receipts');
+  const [journalFormat, setJournalFormat] = useState<JournalFormat>('csv');
+  const [accountMapping, setAccountMapping] = useState<AccountMapping>(() => loadAccountMapping());
+  const [showAccounts, setShowAccounts] = useState(false);
+
+  const scopes: { id: ExportScope; label: string; receipts: ExportReceipt[] }[] = [
+    { id: 'selected', label: 'Seçili', receipts: selected ? [selected] : [] },
+    { id: 'queue', label: 'Kuyruk', receipts: queue },
+    { id: 'history', label: 'Geçmiş', receipts: history }
+  ];
+  const receipts = scopes.find(s => s.id === scope)!.receipts;
+  const seenCategories = Array.from(new Set(receipts.flatMap(r => (r.data.items || []).map(i => i.category).filter((c): c is string => !!c)))).sort();
+  const categories = [...taxonomy, ...seenCategories.filter(c => !taxonomy.includes(c))];
+  const unconverted = unconvertedReceipts(receipts);
+
+  const updateMapping = (next: ExportMapping) => {
+    setMapping(next);
+    saveExportMapping(next);
+  };
+
+  const updateColumn = (index: number, patch: { label?: string; enabled?: boolean }) => {
+    const columns = mapping[columnSheet].map((c, i) => i === index ? { ...c, ...patch } : c);
+    updateMapping({ ...mapping, [columnSheet]: columns });
+  };
+
+  const moveColumn = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    const columns = [...mapping[columnSheet]];
+    if (target < 0 || target >= columns.length) return;
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    updateMapping({ ...mapping, [columnSheet]: columns });
+  };
+
+  const handleCsv = (sheet: ExportSheet) => {
+    const csv = receiptsToCsv(sheet, receipts, mapping);
+    const base = sheet === 'receipts' ? 'fisler' : 'fis-kalemleri';
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), exportFileName(base, 'csv'));
+  };
+
+  const handleXlsx = () => {
+    downloadBlob(receiptsToXlsx(receipts, mapping), exportFileName('fisler', 'xlsx'));
+  };
+
+  const updateAccountMapping = (next: AccountMapping) => {
+    setAccountMapping(next);
+    saveAccountMapping(next);
+  };
+
+  const handleJournal = () => {
+    const { blob, extension } = exportJournal(buildJournal(receipts, accountMapping), journalFormat);
+    downloadBlob(blob, exportFileName(`yevmiye-${journalFormat}`, extension));
+  };
+
+  return (
+    <section className="space-y-3">
+      <label className="text-xs font-bold uppercase tracking-wider text-gray-500 flex items-center gap-2 font-sans">
+        <FileSpreadsheet size={12} /> Dışa Aktar
+        <button
+          onClick={() => setShowColumns(!showColumns)}
+          className={`ml-auto p-1 rounded-full hover:bg-gray-100 ${showColumns ? 'text-mistral-black' : 'text-gray-400'}`}
+          title="Sütun Eşlemesi"
+        >
+          <Settings2 size={12} />
+        </button>
+      </label>
+
+      <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm space-y-3">
+        {/* Scope */}
+        <div className="flex bg-gray-100 p-1 rounded-md">
+          {scopes.map(s => (
+            <button
+              key={s.id}
+              onClick={() => setScope(s.id)}
+              className={`flex-1 px-2 py-1 text-[10px] font-medium rounded-sm transition-all ${scope === s.id ? 'bg-white shadow-sm text-mistral-black' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              {s.label} ({s.receipts.length})
+            </button>
+          ))}
+        </div>
+
+        {/* Actions */}
+        <div className="grid grid-cols-3 gap-2">
+          <button
+            onClick={() => handleCsv('receipts')}
+            disabled={receipts.length === 0}
+            className="flex items-center justify-center gap-1 py-2 text-[10px] font-medium border border-gray-200 rounded hover:border-mistral-black disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Download size={10} /> CSV Fişler
+          </button>
+          <button
+            onClick={() => handleCsv('items')}
+            disabled={receipts.length === 0}
+            className="flex items-center justify-center gap-1 py-2 text-[10px] font-medium border border-gray-200 rounded hover:border-mistral-black disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Download size={10} /> CSV Kalemler
+          </button>
+          <button
+            onClick={handleXlsx}
+            disabled={receipts.length === 0}
+            className="flex items-center justify-center gap-1 py-2 text-[10px] font-medium bg-mistral-black text-white rounded hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <FileSpreadsheet size={10} /> Excel
+          </button>
+        </div>
+
+        {/* Journal (yevmiye) */}
+        <div className="flex items-center gap-2">
+          <select
+            value={journalFormat}
+            onChange={(e) => setJournalFormat(e.target.value as JournalFormat)}
+            className="flex-1 bg-gray-50 border border-gray-200 px-2 py-1.5 rounded text-[10px] focus:outline-none focus:border-mistral-black"
+          >
+            {(Object.keys(JOURNAL_FORMAT_LABELS) as JournalFormat[]).map(format => (
+              <option key={format} value={format}>{JOURNAL_FORMAT_LABELS[format]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleJournal}
+            disabled={receipts.length === unconverted.length}
+            className="flex items-center justify-center gap-1 px-3 py-1.5 text-[10px] font-medium border border-gray-200 rounded hover:border-mistral-black disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <BookOpen size={10} /> Yevmiye
+          </button>
+          <button
+            onClick={() => setShowAccounts(!showAccounts)}
+            className={`p-1 rounded-full hover:bg-gray-100 ${showAccounts ? 'text-mistral-black' : 'text-gray-400'}`}
+            title="Hesap Eşlemesi"
+          >
+            <Settings2 size={12} />
+          </button>
+        </div>
+        {unconverted.length > 0 && (
+          <p
+            className="text-[10px] text-orange-700 bg-orange-50 border border-orange-200 rounded px-2 py-1"
+            title={unconverted.map(r => r.name).join('\n')}
+          >
+            Kuru bulunamayan {unconverted.length} dövizli fiş yevmiyeye alınmaz. İşlem Ayarları'ndan kur tablosu içe aktarın.
+          </p>
+        )}
+
+        {showAccounts && (
+          <AccountMappingEditor mapping={accountMapping} categories={categories} onChange={updateAccountMapping} />
+        )}
+
+        {/* Column Mapping */}
+        {showColumns && (
+          <div className="border-t border-gray-100 pt-3 space-y-2">
+            <div className="flex items-center gap-2">
+              {(Object.keys(EXPORT_SHEET_LABELS) as ExportSheet[]).map(sheet => (
+                <button
+                  key={sheet}
+                  onClick={() => setColumnSheet(sheet)}
+                  className={`text-[10px] font-medium ${columnSheet === sheet ? 'text-mistral-black underline' : 'text-gray-400 hover:text-gray-600'}`}
+                >
+                  {EXPORT_SHEET_LABELS[sheet]}
+                </button>
+              ))}
+              <button
+                onClick={() => updateMapping(getDefaultExportMapping())}
+                className="ml-auto flex items-center gap-1 text-[10px] text-gray-400 hover:text-mistral-black"
+                title="Varsayılana Dön"
+              >
+                <RotateCcw size={10} /> Sıfırla
+              </button>
+            </div>
+
+            <ul className="max-h-56 overflow-y-auto space-y-1">
+              {mapping[columnSheet].map((column, i) => (
+                <li key={column.key} className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={column.enabled}
+                    onChange={(e) => updateColumn(i, { enabled: e.target.checked })}
+                    className="accent-mistral-black"
+                  />
+                  <input
+                    type="text"
+                    value={column.label}
+                    onChange={(e) => updateColumn(i, { label: e.target.value })}
+                    disabled={column.key === 'vatBreakdown'}
+                    className="flex-1 min-w-0 bg-gray-50 border border-gray-200 px-1.5 py-0.5 rounded text-[10px] focus:outline-none focus:border-mistral-black disabled:text-gray-400"
+                  />
+                  <button onClick={() => moveColumn(i, -1)} className="text-gray-400 hover:text-mistral-black" title="Yukarı">
+                    <ChevronUp size={12} />
+                  </button>
+                  <button onClick={() => moveColumn(i, 1)} className="text-gray-400 hover:text-mistral-black" title="Aşağı">
+                    <ChevronDown size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ExportPanel;
@@ -1,40 +1,40 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { UploadCloud, FileType, X, Link as LinkIcon, Image as ImageIcon } from 'lucide-react';
+import { UploadCloud, Link as LinkIcon, Camera } from 'lucide-react';
+import CameraCapture from './CameraCapture';
 
 interface FileUploaderProps {
-  onInputSelect: (input: File | string) => void;
-  selectedInput: File | string | null;
-  onClear: () => void;
+  onInputSelect: (inputs: (File | string)[]) => void;
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ onInputSelect, selectedInput, onClear }) => {
+const FileUploader: React.FC<FileUploaderProps> = ({ onInputSelect }) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [urlInput, setUrlInput] = useState('');
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const cameraSupported = !!navigator.mediaDevices?.getUserMedia;
 
   // Handle Global Paste
   useEffect(() => {
     const handlePaste = (e: ClipboardEvent) => {
-      if (selectedInput) return; // Don't override if something is already selected
-
       const items = e.clipboardData?.items;
       if (!items) return;
 
+      const pasted: File[] = [];
       for (let i = 0; i < items.length; i++) {
         if (items[i].type.indexOf('image') !== -1) {
           const file = items[i].getAsFile();
-          if (file) {
-            onInputSelect(file);
-            e.preventDefault();
-          }
-          break;
+          if (file) pasted.push(file);
         }
       }
+      if (pasted.length > 0) {
+        onInputSelect(pasted);
+        e.preventDefault();
+      }
     };
 
     window.addEventListener('paste', handlePaste);
     return () => window.removeEventListener('paste', handlePaste);
-  }, [onInputSelect, selectedInput]);
+  }, [onInputSelect]);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -48,50 +48,27 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onInputSelect, selectedInpu
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      onInputSelect(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      onInputSelect(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onInputSelect(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      onInputSelect(Array.from(e.target.files));
     }
+    // Allow re-selecting the same files later
+    e.target.value = '';
   };
 
   const handleUrlSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (urlInput.trim()) {
-      onInputSelect(urlInput.trim());
+      onInputSelect([urlInput.trim()]);
+      setUrlInput('');
     }
   };
 
-  if (selectedInput) {
-    const isFile = selectedInput instanceof File;
-    const name = isFile ? selectedInput.name : selectedInput.toString().split('/').pop() || 'Remote Image';
-    const size = isFile ? (selectedInput.size / 1024 / 1024).toFixed(2) + ' MB' : 'URL Kaynağı';
-
-    return (
-      <div className="w-full bg-white border border-mistral-black p-3 flex items-center justify-between shadow-sm animate-in fade-in slide-in-from-top-2 duration-300">
-        <div className="flex items-center gap-3 overflow-hidden">
-          <div className="w-9 h-9 bg-gray-100 flex items-center justify-center border border-gray-200 shrink-0">
-             {isFile ? <FileType size={18} className="text-mistral-black" /> : <LinkIcon size={18} className="text-blue-500" />}
-          </div>
-          <div className="flex flex-col overflow-hidden">
-            <span className="font-medium text-xs truncate max-w-[180px]" title={isFile ? name : selectedInput as string}>{name}</span>
-            <span className="text-[10px] text-gray-500 font-mono">{size}</span>
-          </div>
-        </div>
-        <button 
-          onClick={() => { onClear(); setUrlInput(''); }}
-          className="p-1.5 hover:bg-gray-100 rounded-full transition-colors text-gray-500 hover:text-red-500"
-        >
-          <X size={16} />
-        </button>
-      </div>
-    );
-  }
-
   return (
     <div className="space-y-3">
       {/* Drop Zone */}
@@ -114,6 +91,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onInputSelect, selectedInpu
           onChange={handleFileChange} 
           className="hidden" 
           accept=".pdf,.jpg,.jpeg,.png,.docx,.pptx"
+          multiple
         />
         
         <div className={`p-2 rounded-full ${isDragging ? 'bg-white' : 'bg-gray-50'}`}>
@@ -124,6 +102,9 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onInputSelect, selectedInpu
           <p className="text-xs font-medium text-gray-900">
             Dosya yüklemek için tıklayın
           </p>
+          <p className="text-[9px] text-gray-500 mt-0.5">
+            Birden fazla dosya seçebilir veya sürükleyebilirsiniz
+          </p>
           <p className="text-[9px] text-gray-400 mt-0.5 uppercase tracking-wide">
             PDF, JPG, PNG (Maks 50MB)
           </p>
@@ -146,10 +127,26 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onInputSelect, selectedInpu
               />
             </form>
          </div>
+         {cameraSupported && (
+           <button
+             onClick={() => setCameraOpen(true)}
+             className="flex items-center justify-center h-full w-10 bg-white text-mistral-black border border-gray-300 hover:border-mistral-black rounded-sm transition-colors"
+             title="Kamerayla Çek"
+           >
+             <Camera size={14} />
+           </button>
+         )}
          <div className="hidden md:flex items-center justify-center h-full w-10 bg-gray-100 text-gray-400 border border-gray-200 rounded-sm text-[10px] font-bold" title="Yapıştırmak için Ctrl+V (Cmd+V)">
              <span className="font-mono">⌘V</span>
          </div>
       </div>
+
+      {cameraOpen && (
+        <CameraCapture
+          onCapture={(file) => onInputSelect([file])}
+          onClose={() => setCameraOpen(false)}
+        />
+      )}
     </div>
   );
 };
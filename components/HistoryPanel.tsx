@@ -0,0 +1,102 @@
+import React from 'react';
+import { ScanRecord } from '../types';
+import { currencySymbol, formatAmount } from '../services/currencyService';
+import { History, FolderOpen, RefreshCw, Trash2, Loader2, BarChart3 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  records: ScanRecord[];
+  activeId?: string;
+  reparsingId?: string | null;
+  onOpen: (record: ScanRecord) => void;
+  onReparse: (record: ScanRecord) => void;
+  onDelete: (id: string) => void;
+  onAnalytics: () => void;
+}
+
+const fmtDateTime = (iso: string) => {
+  try {
+    return new Date(iso).toLocaleString('tr-TR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+  } catch (e) {
+    return iso;
+  }
+};
+
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ records, activeId, reparsingId, onOpen, onReparse, onDelete, onAnalytics }) => {
+  return (
+    <section className="space-y-3">
+      <label className="text-xs font-bold uppercase tracking-wider text-gray-500 flex items-center gap-2 font-sans">
+        <History size={12} /> Tarama Geçmişi
+        <span className="ml-auto text-[10px] font-normal normal-case tracking-normal text-gray-400">{records.length} kayıt</span>
+        <button
+          onClick={onAnalytics}
+          disabled={records.length === 0}
+          className="p-1 rounded-full text-gray-400 hover:text-mistral-black hover:bg-gray-100 disabled:opacity-40"
+          title="Harcama Analizi"
+        >
+          <BarChart3 size={12} />
+        </button>
+      </label>
+
+      {records.length === 0 ? (
+        <div className="bg-white border border-dashed border-gray-200 p-4 text-center text-[10px] text-gray-400">
+          Henüz kayıtlı tarama yok
+        </div>
+      ) : (
+        <ul className="bg-white border border-gray-200 shadow-sm max-h-72 overflow-y-auto divide-y divide-gray-50">
+          {records.map(record => {
+            const isActive = record.id === activeId;
+            const isReparsing = record.id === reparsingId;
+
+            return (
+              <li
+                key={record.id}
+                className={`px-3 py-2 flex items-center gap-2 border-l-2 ${isActive ? 'bg-gray-50 border-mistral-black' : 'border-transparent'}`}
+              >
+                <div className="flex flex-col flex-1 min-w-0">
+                  <span className="text-xs font-medium truncate" title={record.name}>
+                    {record.receiptData?.merchantName || record.name}
+                  </span>
+                  <span className="text-[10px] text-gray-500 truncate">
+                    {fmtDateTime(record.createdAt)} · {formatAmount(record.receiptData?.total, record.receiptData?.currency)} {currencySymbol(record.receiptData?.currency)} · ${record.cost.toFixed(4)}
+                  </span>
+                  <span className="text-[9px] text-gray-400 truncate font-mono">
+                    {record.ocrModel} / {record.parserModel}
+                  </span>
+                </div>
+
+                <div className="flex items-center gap-0.5 shrink-0">
+                  <button
+                    onClick={() => onOpen(record)}
+                    className="p-1 hover:bg-gray-100 rounded-full text-gray-500 hover:text-mistral-black"
+                    title="Aç"
+                  >
+                    <FolderOpen size={12} />
+                  </button>
+                  <button
+                    onClick={() => onReparse(record)}
+                    disabled={isReparsing}
+                    className="p-1 hover:bg-gray-100 rounded-full text-gray-500 hover:text-mistral-black disabled:cursor-wait"
+                    title="Yeniden Ayrıştır (OCR ücreti yok)"
+                  >
+                    {isReparsing ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+                  </button>
+                  <button
+                    onClick={() => onDelete(record.id)}
+                    disabled={isReparsing}
+                    className="p-1 hover:bg-gray-100 rounded-full text-gray-500 hover:text-red-500"
+                    title="Sil"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
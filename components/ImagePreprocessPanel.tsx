@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { PreprocessOptions, UploadedFile } from '../types';
+import { DPI_OPTIONS, PreprocessResult, preprocessImage } from '../services/imagePreprocessor';
+import { Loader2, Wand2, AlertCircle } from 'lucide-react';
+
+interface ImagePreprocessPanelProps {
+  item: UploadedFile & { file: File; previewUrl: string };
+  options: PreprocessOptions;
+  onOptionsChange: (options: PreprocessOptions) => void;
+  onSkipChange: (skip: boolean) => void;
+}
+
+const STEPS: { key: keyof Omit<PreprocessOptions, 'enabled' | 'targetDpi'>; label: string }[] = [
+  { key: 'autoRotate', label: 'EXIF Döndürme' },
+  { key: 'crop', label: 'Kağıda Kırp' },
+  { key: 'deskew', label: 'Eğim Düzelt' },
+  { key: 'contrast', label: 'Kontrast' },
+  { key: 'threshold', label: 'Siyah/Beyaz' }
+];
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  : `${Math.round(bytes / 1024)} KB`;
+
+const ImagePreprocessPanel: React.FC<ImagePreprocessPanelProps> = ({ item, options, onOptionsChange, onSkipChange }) => {
+  const [preview, setPreview] = useState<(PreprocessResult & { url: string }) | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  const active = options.enabled && !item.skipPreprocess;
+
+  // Re-run on every option change; stale runs are dropped
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+    setRunning(true);
+    setError('');
+
+    preprocessImage(item.file, options)
+      .then(result => { if (!cancelled) setPreview({ ...result, url: URL.createObjectURL(result.file) }); })
+      .catch((err: any) => { if (!cancelled) setError(err.message || 'Önizleme oluşturulamadı'); })
+      .finally(() => { if (!cancelled) setRunning(false); });
+
+    return () => { cancelled = true; };
+  }, [item.file, active, options]);
+
+  // The previous image stays visible (dimmed) until the next one is ready
+  useEffect(() => () => { if (preview) URL.revokeObjectURL(preview.url); }, [preview]);
+
+  const toggleStep = (key: typeof STEPS[number]['key']) => onOptionsChange({ ...options, [key]: !options[key] });
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Step toggles */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <span className="text-xs font-bold uppercase tracking-wide flex items-center gap-2 text-gray-700 mr-2">
+          <Wand2 size={14} /> Görüntü İyileştirme
+        </span>
+        {STEPS.map(step => (
+          <button
+            key={step.key}
+            onClick={() => toggleStep(step.key)}
+            disabled={!active}
+            className={`px-2 py-1 text-[10px] font-medium rounded-sm border transition-all disabled:opacity-40 ${options[step.key] ? 'bg-mistral-black text-white border-mistral-black' : 'bg-white text-gray-500 border-gray-200 hover:text-gray-700'}`}
+          >
+            {step.label}
+          </button>
+        ))}
+        <select
+          value={options.targetDpi}
+          onChange={(e) => onOptionsChange({ ...options, targetDpi: Number(e.target.value) })}
+          disabled={!active}
+          className="bg-white border border-gray-200 px-2 py-1 rounded text-[10px] focus:outline-none focus:border-mistral-black disabled:opacity-40"
+        >
+          {DPI_OPTIONS.map(dpi => (
+            <option key={dpi} value={dpi}>{dpi === 0 ? 'Orijinal Çözünürlük' : `${dpi} DPI`}</option>
+          ))}
+        </select>
+        <label className="ml-auto flex items-center gap-1 text-[10px] text-gray-500">
+          <input
+            type="checkbox"
+            checked={!!item.skipPreprocess}
+            onChange={(e) => onSkipChange(e.target.checked)}
+            disabled={!options.enabled}
+          />
+          Bu belgede atla
+        </label>
+      </div>
+
+      {/* Before / after */}
+      <div className="flex-1 grid grid-cols-2 gap-px bg-gray-200 overflow-hidden">
+        <figure className="bg-white flex flex-col overflow-hidden">
+          <figcaption className="px-3 py-2 text-[10px] text-gray-500 border-b border-gray-100">
+            Önce · {formatSize(item.file.size)}
+          </figcaption>
+          <div className="flex-1 overflow-auto p-3 flex items-start justify-center">
+            <img src={item.previewUrl} alt="Orijinal" className="max-w-full shadow-sm" />
+          </div>
+        </figure>
+
+        <figure className="bg-white flex flex-col overflow-hidden">
+          <figcaption className="px-3 py-2 text-[10px] text-gray-500 border-b border-gray-100 flex items-center gap-2">
+            Sonra
+            {active && preview && !running && (
+              <span>
+                · {formatSize(preview.file.size)} · {preview.width}×{preview.height}
+                {preview.cropped && ' · Kırpıldı'}
+                {preview.skewAngle !== 0 && ` · Eğim ${preview.skewAngle}°`}
+              </span>
+            )}
+            {active && running && <Loader2 size={10} className="animate-spin" />}
+          </figcaption>
+          <div className="flex-1 overflow-auto p-3 flex items-start justify-center">
+            {!active ? (
+              <p className="text-xs text-gray-400 mt-8">Görüntü OCR'a olduğu gibi gönderilecek.</p>
+            ) : error ? (
+              <p className="text-xs text-red-500 mt-8 flex items-center gap-1"><AlertCircle size={12} /> {error}</p>
+            ) : preview ? (
+              <img src={preview.url} alt="İyileştirilmiş" className={`max-w-full shadow-sm transition-opacity ${running ? 'opacity-50' : ''}`} />
+            ) : null}
+          </div>
+        </figure>
+      </div>
+    </div>
+  );
+};
+
+export default ImagePreprocessPanel;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { LlmProviderId, LlmSettings } from '../types';
+import { CAN_REMEMBER_API_KEY, LLM_PROVIDERS, defaultLlmSettings } from '../services/llmProvider';
+import { PROXY_ENABLED } from '../services/proxyService';
+import { RefreshCw, Loader2, ShieldCheck } from 'lucide-react';
+
+interface ParserSettingsProps {
+  settings: LlmSettings;
+  localOnly: boolean; // Local OCR selected: only self-hosted models may parse
+  onChange: (settings: LlmSettings) => void;
+}
+
+const inputClass = 'w-full bg-gray-50 border border-gray-200 p-2 rounded text-xs focus:outline-none focus:border-mistral-black transition-colors font-sans';
+
+const ParserSettings: React.FC<ParserSettingsProps> = ({ settings, localOnly, onChange }) => {
+  const [models, setModels] = useState<string[]>([]);
+  const [loadingModels, setLoadingModels] = useState(false);
+  const [modelError, setModelError] = useState('');
+
+  const provider = LLM_PROVIDERS[settings.provider];
+  const configured = provider.isConfigured(settings);
+  const selfHosted = provider.isSelfHosted(settings);
+
+  const update = (patch: Partial<LlmSettings>) => onChange({ ...settings, ...patch });
+
+  const selectProvider = (id: LlmProviderId) => {
+    setModels([]);
+    setModelError('');
+    onChange({ ...defaultLlmSettings(id), rememberApiKey: settings.rememberApiKey });
+  };
+
+  const fetchModels = async () => {
+    setLoadingModels(true);
+    setModelError('');
+    try {
+      setModels(await provider.listModels(settings));
+    } catch (error: any) {
+      setModelError(error.message || 'Model listesi alınamadı');
+    } finally {
+      setLoadingModels(false);
+    }
+  };
+
+  const hint = !configured
+    ? 'Yapılandırılmadı; kural tabanlı ayrıştırıcı kullanılır.'
+    : localOnly && !selfHosted
+      ? 'Yerel OCR seçili: metin bu modele gönderilmez, kural tabanlı ayrıştırıcı kullanılır.'
+      : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-gray-700">Ayrıştırıcı</span>
+        <select
+          value={settings.provider}
+          onChange={(e) => selectProvider(e.target.value as LlmProviderId)}
+          className="bg-gray-50 border border-gray-200 px-2 py-1 rounded text-[10px] focus:outline-none focus:border-mistral-black"
+        >
+          {Object.values(LLM_PROVIDERS).map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {provider.usesBaseUrl && (
+        <input
+          type="url"
+          placeholder={provider.defaults.baseUrl}
+          value={settings.baseUrl}
+          onChange={(e) => update({ baseUrl: e.target.value.trim() })}
+          className={inputClass}
+        />
+      )}
+
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          list="llm-models"
+          placeholder="Model"
+          value={settings.model}
+          onChange={(e) => update({ model: e.target.value.trim() })}
+          className={inputClass}
+        />
+        <datalist id="llm-models">
+          {models.map(m => <option key={m} value={m} />)}
+        </datalist>
+        <button
+          onClick={fetchModels}
+          disabled={loadingModels}
+          className="p-2 text-gray-400 hover:text-mistral-black disabled:opacity-40"
+          title="Modelleri Listele"
+        >
+          {loadingModels ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+        </button>
+      </div>
+
+      {settings.provider !== 'ollama' && (
+        <input
+          type="password"
+          autoComplete="off"
+          placeholder={settings.provider === 'gemini' ? `API anahtarı (boşsa ${PROXY_ENABLED ? 'sunucu anahtarı' : '.env'} kullanılır)` : 'API anahtarı (yerel sunucuda opsiyonel)'}
+          value={settings.apiKey}
+          onChange={(e) => update({ apiKey: e.target.value.trim() })}
+          className={inputClass}
+        />
+      )}
+      {settings.provider !== 'ollama' && (CAN_REMEMBER_API_KEY ? (
+        <label className="flex items-start gap-2 text-[10px] text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!settings.rememberApiKey}
+            onChange={(e) => update({ rememberApiKey: e.target.checked })}
+            className="mt-0.5 accent-mistral-black"
+          />
+          <span>
+            Anahtarı bu tarayıcıda hatırla
+            <span className="block text-gray-400">
+              {settings.rememberApiKey
+                ? 'Anahtar localStorage\'da şifrelenmeden saklanır; bu tarayıcıyı kullanan herkes okuyabilir.'
+                : 'Anahtar yalnızca bu sekme açıkken tutulur.'}
+            </span>
+          </span>
+        </label>
+      ) : (
+        <p className="text-[10px] text-gray-400">Sunucu proxy'si etkin: girilen anahtar kaydedilmez, sekme kapanınca silinir.</p>
+      ))}
+
+      {modelError && <p className="text-[10px] text-red-500">{modelError}</p>}
+      {hint && <p className="text-[10px] text-gray-400">{hint}</p>}
+      {!hint && selfHosted && (
+        <p className="text-[10px] text-green-600 flex items-center gap-1">
+          <ShieldCheck size={10} /> Kendi sunucunuz: fiş metni kurum dışına çıkmaz.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ParserSettings;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { loadPdf, renderPdfPage } from '../services/pdfService';
+import { parsePageRange, formatPageRange } from '../services/pageRange';
+import { Loader2, AlertCircle, Files, RotateCcw } from 'lucide-react';
+
+interface PdfPagePickerProps {
+  source: File | string;
+  range: string; // The document's own range, or the global one
+  customized: boolean; // The document overrides the global range
+  onRangeChange: (range: string | undefined) => void; // undefined: back to the global range
+}
+
+// Longest thumbnail side in pixels
+const THUMBNAIL_SIZE = 240;
+
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ source, range, customized, onRangeChange }) => {
+  const [thumbnails, setThumbnails] = useState<(string | undefined)[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Pages render one after another so the first thumbnails show up quickly
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    setThumbnails([]);
+
+    (async () => {
+      const pdf = await loadPdf(source);
+      try {
+        if (cancelled) return;
+        setThumbnails(new Array(pdf.numPages).fill(undefined));
+        setLoading(false);
+        for (let pageNumber = 1; pageNumber <= pdf.numPages && !cancelled; pageNumber++) {
+          const url = (await renderPdfPage(pdf, pageNumber, THUMBNAIL_SIZE)).toDataURL('image/jpeg', 0.8);
+          if (!cancelled) setThumbnails(prev => prev.map((thumb, i) => i === pageNumber - 1 ? url : thumb));
+        }
+      } finally {
+        pdf.destroy();
+      }
+    })().catch((err: any) => {
+      if (!cancelled) {
+        setError(err.message || 'PDF okunamadı');
+        setLoading(false);
+      }
+    });
+
+    return () => { cancelled = true; };
+  }, [source]);
+
+  const pageCount = thumbnails.length;
+  let selected: number[] = [];
+  let rangeError = '';
+  try {
+    selected = parsePageRange(range, pageCount || undefined);
+  } catch (err: any) {
+    rangeError = err.message;
+  }
+  // An empty range means every page
+  const isSelected = (index: number) => !rangeError && (selected.length === 0 || selected.includes(index));
+  const selectedCount = rangeError ? 0 : selected.length || pageCount;
+
+  const togglePage = (index: number) => {
+    const current = selected.length === 0 ? thumbnails.map((_, i) => i) : selected;
+    const next = current.includes(index) ? current.filter(i => i !== index) : [...current, index];
+    if (next.length === 0) return; // At least one page is always sent
+    onRangeChange(next.length === pageCount ? '' : formatPageRange(next));
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Range input, kept in sync with the checkboxes */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <span className="text-xs font-bold uppercase tracking-wide flex items-center gap-2 text-gray-700 mr-2">
+          <Files size={14} /> Sayfa Seçimi
+        </span>
+        <input
+          type="text"
+          value={range}
+          onChange={(e) => onRangeChange(e.target.value)}
+          placeholder="Tüm sayfalar (örn. 1,3-5,8-)"
+          className={`w-48 bg-white border px-2 py-1 rounded text-[10px] focus:outline-none font-sans ${rangeError ? 'border-red-300 focus:border-red-500' : 'border-gray-200 focus:border-mistral-black'}`}
+        />
+        <button
+          onClick={() => onRangeChange('')}
+          disabled={!range}
+          className="px-2 py-1 text-[10px] font-medium rounded-sm border bg-white text-gray-500 border-gray-200 hover:text-gray-700 disabled:opacity-40"
+        >
+          Tümünü Seç
+        </button>
+        {customized && (
+          <button
+            onClick={() => onRangeChange(undefined)}
+            className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-gray-500 hover:text-mistral-black"
+            title="İşlem Ayarları'ndaki sayfa aralığını kullan"
+          >
+            <RotateCcw size={10} /> Genel Aralık
+          </button>
+        )}
+        <span className="ml-auto text-[10px] text-gray-500">
+          {pageCount > 0 && `${selectedCount}/${pageCount} sayfa seçili`}
+        </span>
+        {rangeError && (
+          <p className="w-full text-[10px] text-red-500 flex items-center gap-1"><AlertCircle size={10} /> {rangeError}</p>
+        )}
+      </div>
+
+      {/* Thumbnails */}
+      <div className="flex-1 overflow-y-auto bg-gray-100 p-4">
+        {error ? (
+          <p className="text-xs text-red-500 mt-8 flex items-center justify-center gap-1"><AlertCircle size={12} /> {error}</p>
+        ) : loading ? (
+          <div className="flex justify-center mt-8"><Loader2 size={20} className="animate-spin text-gray-400" /></div>
+        ) : (
+          <div className="grid grid-cols-[repeat(auto-fill,minmax(120px,1fr))] gap-3">
+            {thumbnails.map((url, index) => (
+              <label
+                key={index}
+                className={`relative bg-white border-2 cursor-pointer transition-all ${isSelected(index) ? 'border-mistral-black' : 'border-transparent opacity-50 hover:opacity-75'}`}
+              >
+                <div className="aspect-[3/4] flex items-center justify-center overflow-hidden">
+                  {url
+                    ? <img src={url} alt={`Sayfa ${index + 1}`} className="max-w-full max-h-full" />
+                    : <Loader2 size={14} className="animate-spin text-gray-300" />}
+                </div>
+                <div className="flex items-center gap-1 px-2 py-1 border-t border-gray-100 text-[10px] text-gray-600">
+                  <input type="checkbox" checked={isSelected(index)} onChange={() => togglePage(index)} />
+                  Sayfa {index + 1}
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PdfPagePicker;
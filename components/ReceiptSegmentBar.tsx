@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { UploadedFile } from '../types';
+import { segmentLines } from '../services/receiptSegmenter';
+import { Loader2, Merge, Scissors, X } from 'lucide-react';
+
+interface ReceiptSegmentBarProps {
+  entries: UploadedFile[]; // Receipts of the selected document, in order
+  selectedId: string | null;
+  busy: boolean;
+  onSelect: (id: string) => void;
+  onMerge: (id: string) => void; // Merge with the next receipt
+  onSplit: (id: string, lineIndex: number) => void;
+}
+
+const fmtTotal = (total?: number) =>
+  typeof total === 'number' ? total.toLocaleString('tr-TR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '—';
+
+const ReceiptSegmentBar: React.FC<ReceiptSegmentBarProps> = ({ entries, selectedId, busy, onSelect, onMerge, onSplit }) => {
+  const [splitting, setSplitting] = useState(false);
+
+  const index = entries.findIndex(e => e.id === selectedId);
+  const selected = entries[index];
+  if (!selected?.result) return null;
+
+  const lines = splitting ? segmentLines(selected.result) : [];
+  const chipClass = 'px-2 py-1 text-[10px] font-medium rounded-sm border transition-all whitespace-nowrap';
+  const actionClass = 'flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-gray-600 hover:text-mistral-black disabled:opacity-40';
+
+  return (
+    <div className="border-b border-gray-200 bg-white flex-shrink-0">
+      <div className="flex items-center gap-2 px-3 py-2 overflow-x-auto">
+        <span className="text-[10px] font-bold uppercase tracking-wide text-gray-500 whitespace-nowrap">
+          {entries.length > 1 ? `Belgede ${entries.length} Fiş` : 'Tek Fiş'}
+        </span>
+        {entries.length > 1 && entries.map((entry, i) => (
+          <button
+            key={entry.id}
+            onClick={() => { setSplitting(false); onSelect(entry.id); }}
+            className={`${chipClass} ${entry.id === selectedId ? 'bg-mistral-black text-white border-mistral-black' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-400'}`}
+          >
+            #{i + 1} {entry.result?.receiptData?.merchantName || '?'} · {fmtTotal(entry.result?.receiptData?.total)}
+          </button>
+        ))}
+
+        <div className="ml-auto flex items-center gap-1">
+          {busy && <Loader2 size={12} className="animate-spin text-gray-400" />}
+          <button
+            onClick={() => onMerge(selected.id)}
+            disabled={busy || index === entries.length - 1}
+            className={actionClass}
+            title="Bu fişi bir sonrakiyle tek fiş yap"
+          >
+            <Merge size={12} /> Sonrakiyle Birleştir
+          </button>
+          <button
+            onClick={() => setSplitting(!splitting)}
+            disabled={busy}
+            className={actionClass}
+            title="Fişi seçilen satırdan ikiye böl"
+          >
+            {splitting ? <X size={12} /> : <Scissors size={12} />} {splitting ? 'Vazgeç' : 'Böl'}
+          </button>
+        </div>
+      </div>
+
+      {/* Split picker: the clicked line starts the second receipt */}
+      {splitting && (
+        <div className="max-h-56 overflow-y-auto border-t border-gray-100 bg-gray-50 font-mono text-[10px] leading-relaxed">
+          <p className="sticky top-0 bg-gray-50 px-3 py-1 text-gray-400 font-sans border-b border-gray-100">
+            İkinci fişin başladığı satıra tıklayın.
+          </p>
+          {lines.map((line, i) => line.text.trim() && (
+            <button
+              key={i}
+              onClick={() => { setSplitting(false); onSplit(selected.id, i); }}
+              disabled={i === 0}
+              className="group w-full text-left px-3 whitespace-pre-wrap break-all hover:bg-white disabled:cursor-default flex gap-2"
+            >
+              <Scissors size={10} className="mt-1 flex-shrink-0 text-transparent group-hover:text-red-500 group-disabled:!text-transparent" />
+              {line.text}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReceiptSegmentBar;
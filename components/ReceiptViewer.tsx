@@ -1,17 +1,313 @@
-import React, { useState, useRef } from 'react';
-import { ReceiptData } from '../types';
-import { Scroll, FileSpreadsheet, Download } from 'lucide-react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { CurrencyConversion, FieldConfidence, ReceiptData, ReceiptItem, TaxIdCheck, ValidationFinding } from '../types';
+import { Scroll, FileSpreadsheet, Download, Pencil, Check, X, Plus, Trash2, ChevronUp, ChevronDown, Lock, Unlock, BadgeCheck, BadgeAlert, FileCode, Eye } from 'lucide-react';
 import { useReactToPrint } from 'react-to-print';
+import { recomputeEditedReceipt } from '../services/receiptMath';
+import { validateReceipt } from '../services/receiptValidator';
+import { LOW_CONFIDENCE, FIELD_SOURCE_LABELS, lowConfidenceFields, markReviewed } from '../services/fieldConfidence';
+import { validateTaxId, applyTaxIdCheck } from '../services/taxIdService';
+import { amountToTurkishWords, resolveWordsCurrency } from '../services/numberToWords';
+import { buildUblInvoice } from '../services/ublService';
+import { checkUblStructure } from '../services/ublValidator';
+import { downloadBlob } from '../services/exportService';
+import { BASE_CURRENCY, COMMON_CURRENCIES, currencySymbol, formatAmount, formatRate, normalizeCurrency } from '../services/currencyService';
+import ValidationPanel from './ValidationPanel';
 import gibImg from '../assets/gib.png';
 
 interface ReceiptViewerProps {
     data: ReceiptData;
+    onChange?: (data: ReceiptData) => void; // Enables edit mode when provided
+    activeField?: string | null; // Source review: field highlighted on both sides
+    onFieldSelect?: (field: string) => void; // Enables clickable fields in the receipt view
+    categories?: string[]; // Expense taxonomy offered for each item in edit mode
 }
 
-const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
+// Legal KDV rates offered in the editor
+const VAT_RATES = [0, 1, 8, 10, 18, 20];
+
+const inputClass = 'bg-yellow-50 border border-gray-300 px-1 py-0.5 rounded-sm text-inherit w-full focus:outline-none focus:border-mistral-black print:hidden';
+
+// --- INLINE EDIT PRIMITIVES (plain text outside edit mode) ---
+
+interface EditableTextProps {
+    editing: boolean;
+    value?: string;
+    onChange: (value: string) => void;
+    placeholder?: string;
+    type?: 'text' | 'date' | 'time';
+    className?: string;
+    display?: React.ReactNode;
+}
+
+const EditableText: React.FC<EditableTextProps> = ({ editing, value, onChange, placeholder, type = 'text', className = '', display }) => {
+    if (!editing) return <>{display ?? value}</>;
+    return (
+        <input
+            type={type}
+            value={value || ''}
+            placeholder={placeholder}
+            onChange={(e) => onChange(e.target.value)}
+            className={`${inputClass} ${className}`}
+        />
+    );
+};
+
+interface EditableNumberProps {
+    editing: boolean;
+    value?: number;
+    onChange: (value: number) => void;
+    step?: string;
+    className?: string;
+    display: React.ReactNode;
+}
+
+const EditableNumber: React.FC<EditableNumberProps> = ({ editing, value, onChange, step = '0.01', className = '', display }) => {
+    if (!editing) return <>{display}</>;
+    return (
+        <input
+            type="number"
+            step={step}
+            value={Number.isFinite(value) ? value : ''}
+            onChange={(e) => onChange(e.target.value === '' ? 0 : Number(e.target.value))}
+            className={`${inputClass} text-right ${className}`}
+        />
+    );
+};
+
+const VatRateSelect: React.FC<{ value?: number; onChange: (rate: number) => void }> = ({ value, onChange }) => (
+    <select
+        value={Number(value) || 0}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={`${inputClass} px-0`}
+    >
+        {VAT_RATES.map(rate => <option key={rate} value={rate}>%{rate}</option>)}
+        {!VAT_RATES.includes(Number(value) || 0) && <option value={value}>%{value}</option>}
+    </select>
+);
+
+// Expense category: a select while editing, a small tag otherwise (screen only)
+const ItemCategory: React.FC<{ editing: boolean; value?: string; categories: string[]; onChange: (category: string) => void }> = ({ editing, value, categories, onChange }) => {
+    if (editing && categories.length > 0) {
+        return (
+            <select value={value || ''} onChange={(e) => onChange(e.target.value)} className={`${inputClass} mt-0.5 w-auto normal-case font-normal`}>
+                {!value && <option value="">Kategori</option>}
+                {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                {value && !categories.includes(value) && <option value={value}>{value}</option>}
+            </select>
+        );
+    }
+    if (!value) return null;
+    return <span className="ml-1 px-1 rounded-sm bg-gray-100 text-gray-500 text-[8px] font-normal normal-case print:hidden">{value}</span>;
+};
+
+// Currency picker while editing; TRY equivalent of foreign receipts otherwise
+const CurrencyLine: React.FC<{ editing: boolean; currency: string; conversion?: CurrencyConversion; onChange: (currency: string) => void }> = ({ editing, currency, conversion, onChange }) => {
+    const code = normalizeCurrency(currency);
+    if (editing) {
+        return (
+            <div className="flex justify-between items-center text-[10px] text-gray-600 mt-1 print:hidden">
+                <span>Para Birimi</span>
+                <select value={code} onChange={(e) => onChange(e.target.value)} className={`${inputClass} w-20`}>
+                    {COMMON_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    {!COMMON_CURRENCIES.includes(code) && <option value={code}>{code}</option>}
+                </select>
+            </div>
+        );
+    }
+    if (code === BASE_CURRENCY) return null;
+    if (!conversion) {
+        return <div className="text-[9px] text-orange-600 text-right mt-1 print:hidden">{code}: TL karşılığı için kur tablosunda bu tarihe ait kur yok</div>;
+    }
+    const [year, month, day] = conversion.rateDate.split('-');
+    return (
+        <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+            <span>TL Karşılığı ({code} {formatRate(conversion.rate)} · {day}.{month}.{year})</span>
+            <span className="font-mono">{formatAmount(conversion.total, BASE_CURRENCY)} ₺</span>
+        </div>
+    );
+};
+
+// VKN/TCKN checksum badge with one-click OCR corrections (screen only)
+const TaxIdStatus: React.FC<{ check: TaxIdCheck | null; onApply?: (value: string) => void }> = ({ check, onApply }) => {
+    if (!check) return null;
+    if (check.valid) {
+        return (
+            <span className="inline-flex items-center gap-0.5 text-green-600 normal-case print:hidden" title={`${check.kind} kontrol hanesi doğru`}>
+                <BadgeCheck size={11} />
+            </span>
+        );
+    }
+    return (
+        <span className="inline-flex flex-wrap items-center gap-1 text-red-600 normal-case print:hidden">
+            <BadgeAlert size={11} />
+            <span>{check.kind === 'unknown' ? 'Geçersiz' : 'Kontrol hanesi hatalı'}</span>
+            {onApply && check.suggestions.map(suggestion => (
+                <button
+                    key={suggestion}
+                    onClick={() => onApply(suggestion)}
+                    className="px-1 border border-red-200 rounded-sm font-mono hover:bg-red-50"
+                    title="Bu değerle düzelt"
+                >
+                    {suggestion}
+                </button>
+            ))}
+        </span>
+    );
+};
+
+// --- SOURCE LINKS (review mode: fields point back to their OCR line) ---
+// Low-confidence values are shaded in every mode so reviewers know what to check
+
+interface SourceFieldProps {
+    field: string;
+    activeField?: string | null;
+    onSelect?: (field: string) => void;
+    confidence?: FieldConfidence;
+    children: React.ReactNode;
+}
+
+const SourceField: React.FC<SourceFieldProps> = ({ field, activeField, onSelect, confidence, children }) => {
+    const low = confidence !== undefined && confidence.confidence < LOW_CONFIDENCE;
+    if (!onSelect && !low) return <>{children}</>;
+
+    const stateClass = activeField === field
+        ? 'bg-yellow-200 ring-1 ring-yellow-500'
+        : low ? 'bg-orange-100 ring-1 ring-orange-300 print:bg-transparent print:ring-0' : 'hover:bg-blue-50';
+    return (
+        <span
+            data-field={field}
+            onClick={onSelect ? () => onSelect(field) : undefined}
+            title={low ? `Güven %${Math.round(confidence.confidence * 100)} · ${FIELD_SOURCE_LABELS[confidence.source]}` : undefined}
+            className={`rounded-sm transition-colors ${onSelect ? 'cursor-pointer' : ''} ${stateClass}`}
+        >
+            {children}
+        </span>
+    );
+};
+
+const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data: savedData, onChange, activeField, onFieldSelect, categories = [] }) => {
     const [viewMode, setViewMode] = useState<'receipt' | 'invoice'>('receipt');
     const contentRef = useRef<HTMLDivElement>(null);
 
+    // --- EDIT STATE ---
+    // Edits go to a draft; the parent only sees them on save
+    const [draft, setDraft] = useState<ReceiptData | null>(null);
+    const [lockTotal, setLockTotal] = useState(true);
+    const isEditing = draft !== null;
+    const data = draft ?? savedData;
+
+    // Re-validated on every edit so fixes clear findings immediately
+    const findings = useMemo(() => validateReceipt(data), [data]);
+
+    // Source links and shading are off while editing so clicks reach the inputs
+    const linked = (field: string, children: React.ReactNode) => (
+        <SourceField
+            field={field}
+            activeField={activeField}
+            onSelect={isEditing ? undefined : onFieldSelect}
+            confidence={isEditing ? undefined : data.confidence?.[field]}
+        >
+            {children}
+        </SourceField>
+    );
+    const lowFields = useMemo(() => lowConfidenceFields(savedData), [savedData]);
+
+    useEffect(() => {
+        if (!activeField) return;
+        contentRef.current
+            ?.querySelector(`[data-field="${activeField}"]`)
+            ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [activeField]);
+
+    const startEditing = () => setDraft({ ...savedData, items: [...(savedData.items || [])] });
+    const cancelEditing = () => setDraft(null);
+    const saveEditing = () => {
+        if (draft && onChange) onChange(applyTaxIdCheck(markReviewed(savedData, draft)));
+        setDraft(null);
+    };
+
+    // UBL-TR export: the file is only written when the structural check passes
+    const [ublFindings, setUblFindings] = useState<ValidationFinding[] | null>(null);
+
+    const handleUblExport = () => {
+        const { xml, ettn } = buildUblInvoice(savedData);
+        const issues = checkUblStructure(xml);
+        setUblFindings(issues);
+        if (issues.some(f => f.severity === 'error')) return;
+        downloadBlob(new Blob([xml], { type: 'application/xml' }), `${ettn}.xml`);
+    };
+
+    const taxIdCheck = useMemo(() => data.taxNumber ? validateTaxId(data.taxNumber) : null, [data.taxNumber]);
+
+    // Suggestions apply to the draft while editing, otherwise straight to the saved data
+    const applyTaxIdSuggestion = onChange ? (value: string) => {
+        if (isEditing) updateDraft({ taxNumber: value });
+        else onChange(applyTaxIdCheck({ ...savedData, taxNumber: value }));
+    } : undefined;
+
+    const updateDraft = (patch: Partial<ReceiptData>) => {
+        setDraft(prev => prev ? recomputeEditedReceipt({ ...prev, ...patch }, lockTotal) : prev);
+    };
+
+    const toggleLockTotal = () => {
+        const next = !lockTotal;
+        setLockTotal(next);
+        setDraft(prev => prev ? recomputeEditedReceipt(prev, next) : prev);
+    };
+
+    const updateItem = (index: number, patch: Partial<ReceiptItem>) => {
+        const items = data.items.map((item, i) => {
+            if (i !== index) return item;
+            const next = { ...item, ...patch };
+            // Quantity or unit price edits drive the line total
+            if ('quantity' in patch || 'unitPrice' in patch) {
+                next.totalPrice = Number(((Number(next.quantity) || 0) * (Number(next.unitPrice) || 0)).toFixed(2));
+            }
+            return next;
+        });
+        updateDraft({ items });
+    };
+
+    const addItem = () => {
+        const lastRate = data.items?.[data.items.length - 1]?.vatRate ?? 20;
+        updateDraft({ items: [...(data.items || []), { description: '', quantity: 1, unitPrice: 0, totalPrice: 0, vatRate: lastRate }] });
+    };
+
+    const removeItem = (index: number) => {
+        updateDraft({ items: data.items.filter((_, i) => i !== index) });
+    };
+
+    const moveItem = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= data.items.length) return;
+        const items = [...data.items];
+        [items[index], items[target]] = [items[target], items[index]];
+        updateDraft({ items });
+    };
+
+    const renderItemControls = (index: number) => (
+        <span className="inline-flex items-center gap-0.5 print:hidden">
+            <button onClick={() => moveItem(index, -1)} disabled={index === 0} className="p-0.5 text-gray-400 hover:text-black disabled:opacity-30" title="Yukarı">
+                <ChevronUp size={12} />
+            </button>
+            <button onClick={() => moveItem(index, 1)} disabled={index === data.items.length - 1} className="p-0.5 text-gray-400 hover:text-black disabled:opacity-30" title="Aşağı">
+                <ChevronDown size={12} />
+            </button>
+            <button onClick={() => removeItem(index)} className="p-0.5 text-gray-400 hover:text-red-500" title="Satırı Sil">
+                <Trash2 size={12} />
+            </button>
+        </span>
+    );
+
+    const renderAddItemButton = () => (
+        <button
+            onClick={addItem}
+            className="flex items-center gap-1 text-[10px] font-medium text-gray-500 hover:text-black border border-dashed border-gray-300 rounded-sm px-2 py-1 w-full justify-center print:hidden"
+        >
+            <Plus size={12} /> Satır Ekle
+        </button>
+    );
+
     // --- STRICT FORMATTERS ---
 
     // Date: YYYY-MM-DD -> DD.MM.YYYY
@@ -26,13 +322,9 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
         }
     };
 
-    // Currency: Always 2 decimals (e.g. 100,00 or 12.345,50)
-    const fmtCurrency = (num?: number) => {
-        return new Intl.NumberFormat('tr-TR', {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2,
-        }).format(num || 0);
-    };
+    // Currency: the receipt currency's minor digits (e.g. 100,00 or 12.345,50; none for JPY)
+    const fmtCurrency = (num?: number) => formatAmount(num, data.currency);
+    const symbol = currencySymbol(data.currency);
 
     // Quantity: Max 3 decimals, remove trailing zeros (e.g. 1.00 -> 1, 1.50 -> 1,5)
     const fmtQty = (num?: number) => {
@@ -78,14 +370,77 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
                     </button>
                 </div>
 
-                <button
-                    onClick={() => handlePrint()}
-                    className="flex items-center gap-2 px-4 py-1.5 bg-mistral-black text-white rounded-md text-xs font-medium hover:bg-gray-800 transition-colors"
-                >
-                    <Download size={14} /> PDF / Yazdır
-                </button>
+                <div className="flex items-center gap-2">
+                    {isEditing ? (
+                        <>
+                            <button
+                                onClick={toggleLockTotal}
+                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium border transition-colors ${lockTotal ? 'border-mistral-black text-mistral-black' : 'border-gray-200 text-gray-500'}`}
+                                title={lockTotal ? 'Yazdırılan toplam sabit kalır' : 'Toplam satırlardan yeniden hesaplanır'}
+                            >
+                                {lockTotal ? <Lock size={12} /> : <Unlock size={12} />}
+                                {lockTotal ? 'Toplam Kilitli' : 'Toplam Hesaplanır'}
+                            </button>
+                            <button
+                                onClick={cancelEditing}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-gray-500 hover:text-gray-800"
+                            >
+                                <X size={14} /> İptal
+                            </button>
+                            <button
+                                onClick={saveEditing}
+                                className="flex items-center gap-1.5 px-4 py-1.5 bg-mistral-black text-white rounded-md text-xs font-medium hover:bg-gray-800 transition-colors"
+                            >
+                                <Check size={14} /> Kaydet
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            {onChange && (
+                                <button
+                                    onClick={startEditing}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium border border-gray-200 text-gray-600 hover:border-gray-400 transition-colors"
+                                >
+                                    <Pencil size={12} /> Düzenle
+                                </button>
+                            )}
+                            <button
+                                onClick={handleUblExport}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium border border-gray-200 text-gray-600 hover:border-gray-400 transition-colors"
+                                title="UBL-TR 1.2 e-Fatura / e-Arşiv XML"
+                            >
+                                <FileCode size={12} /> UBL-TR XML
+                            </button>
+                            <button
+                                onClick={() => handlePrint()}
+                                className="flex items-center gap-2 px-4 py-1.5 bg-mistral-black text-white rounded-md text-xs font-medium hover:bg-gray-800 transition-colors"
+                            >
+                                <Download size={14} /> PDF / Yazdır
+                            </button>
+                        </>
+                    )}
+                </div>
             </div>
 
+            <ValidationPanel findings={findings} className="no-print flex-shrink-0 border-x-0 border-t-0" />
+            {!isEditing && lowFields.length > 0 && (
+                <div className="no-print flex-shrink-0 flex items-center gap-2 px-3 py-1.5 text-[10px] font-medium bg-orange-50 text-orange-700 border-b border-orange-100">
+                    <Eye size={12} />
+                    {lowFields.length} alan düşük güvenli; fiş görünümünde işaretli değerleri kontrol edin.
+                </div>
+            )}
+            {ublFindings && ublFindings.length > 0 && (
+                <div className="no-print flex-shrink-0">
+                    <div className="flex items-center justify-between px-3 py-1 text-[10px] font-medium bg-gray-50 text-gray-600 border-b border-gray-100">
+                        UBL-TR XML oluşturulamadı, yapısal kontrol başarısız
+                        <button onClick={() => setUblFindings(null)} className="text-gray-400 hover:text-black" title="Kapat">
+                            <X size={12} />
+                        </button>
+                    </div>
+                    <ValidationPanel findings={ublFindings} className="border-x-0 border-t-0" />
+                </div>
+            )}
+
             <div className="flex-1 overflow-y-auto min-h-0 flex justify-center p-8 bg-gray-200/50">
                 <div ref={contentRef} className="w-full flex justify-center">
                     <style>{`
@@ -138,7 +493,9 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
 
                                     {/* Header Section */}
                                     <div className="text-center mb-6">
-                                        <h2 className="text-sm font-bold mb-1 tracking-tight uppercase break-words">{data.merchantName || 'Satıcı Firma'}</h2>
+                                        <h2 className="text-sm font-bold mb-1 tracking-tight uppercase break-words">
+                                            {linked('merchantName', <EditableText editing={isEditing} value={data.merchantName} onChange={(v) => updateDraft({ merchantName: v })} placeholder="Satıcı Firma" className="text-center" display={data.merchantName || 'Satıcı Firma'} />)}
+                                        </h2>
 
                                         {data.merchantAddress && (
                                             <p className="px-1 mb-2 text-[10px] text-gray-600 uppercase break-words leading-tight">{data.merchantAddress}</p>
@@ -146,19 +503,27 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
 
                                         <div className="flex flex-col items-center text-[9px] font-medium text-gray-500 space-y-0.5 uppercase">
                                             {data.taxOffice && <span>{data.taxOffice} V.D.</span>}
-                                            {data.taxNumber && <span>VKN: {data.taxNumber}</span>}
+                                            {(isEditing || data.taxNumber) && (
+                                                <span className="flex flex-wrap items-center justify-center gap-1">VKN: {linked('taxNumber', <EditableText editing={isEditing} value={data.taxNumber} onChange={(v) => updateDraft({ taxNumber: v })} placeholder="VKN / TCKN" />)} <TaxIdStatus check={taxIdCheck} onApply={applyTaxIdSuggestion} /></span>
+                                            )}
                                             {data.sicilNumber && <span>MERSİS: {data.sicilNumber}</span>}
                                         </div>
                                     </div>
 
                                     {/* Date & Meta */}
                                     <div className="flex flex-col mb-4 text-[10px] font-medium border-b border-gray-200 pb-2 text-gray-700">
-                                        <div className="flex justify-between">
-                                            {data.date && <span>TARİH: {fmtDate(data.date)}</span>}
-                                            {data.time && <span>SAAT: {data.time}</span>}
+                                        <div className="flex justify-between gap-2">
+                                            {(isEditing || data.date) && (
+                                                <span className="flex items-center gap-1">TARİH: {linked('date', <EditableText editing={isEditing} type="date" value={data.date} onChange={(v) => updateDraft({ date: v })} display={fmtDate(data.date)} />)}</span>
+                                            )}
+                                            {(isEditing || data.time) && (
+                                                <span className="flex items-center gap-1">SAAT: {linked('time', <EditableText editing={isEditing} type="time" value={data.time} onChange={(v) => updateDraft({ time: v })} />)}</span>
+                                            )}
                                         </div>
                                         <div className="flex justify-between mt-0.5">
-                                            {data.invoiceNumber && <span>FİŞ NO: {data.invoiceNumber}</span>}
+                                            {(isEditing || data.invoiceNumber) && (
+                                                <span className="flex items-center gap-1">FİŞ NO: {linked('invoiceNumber', <EditableText editing={isEditing} value={data.invoiceNumber} onChange={(v) => updateDraft({ invoiceNumber: v })} />)}</span>
+                                            )}
                                         </div>
                                     </div>
 
@@ -174,37 +539,57 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
                                     <div className="flex flex-col gap-2 mb-6">
                                         {data.items?.map((item, idx) => (
                                             <div key={idx} className="flex flex-col text-[10px]">
-                                                <div className="flex justify-between items-start font-semibold">
-                                                    <span className="uppercase">{item.description}</span>
+                                                <div className="flex justify-between items-start font-semibold gap-1">
+                                                    <span className="uppercase flex-1">
+                                                        {linked(`items[${idx}].description`, <EditableText editing={isEditing} value={item.description} onChange={(v) => updateItem(idx, { description: v })} placeholder="Ürün Adı" />)}
+                                                        <ItemCategory editing={isEditing} value={item.category} categories={categories} onChange={(c) => updateItem(idx, { category: c })} />
+                                                    </span>
+                                                    {isEditing && renderItemControls(idx)}
                                                 </div>
                                                 <div className="grid grid-cols-12 gap-1 items-baseline mt-0.5 text-gray-600 text-[9px]">
                                                     {/* Qty x Price */}
-                                                    <div className="col-span-7">
-                                                        {fmtQty(item.quantity)} x {fmtCurrency(item.unitPrice)}
+                                                    <div className={`col-span-7 ${isEditing ? 'flex items-center gap-1' : ''}`}>
+                                                        {isEditing ? (
+                                                            <>
+                                                                <EditableNumber editing value={item.quantity} step="0.001" onChange={(v) => updateItem(idx, { quantity: v })} display={null} />
+                                                                <span>x</span>
+                                                                <EditableNumber editing value={item.unitPrice} onChange={(v) => updateItem(idx, { unitPrice: v })} display={null} />
+                                                            </>
+                                                        ) : (
+                                                            <>{fmtQty(item.quantity)} x {fmtCurrency(item.unitPrice)}</>
+                                                        )}
                                                     </div>
                                                     {/* VAT Rate (Moved Closer to Product/Left) */}
-                                                    <div className="col-span-2 text-left">%{fmtRate(item.vatRate)}</div>
+                                                    <div className="col-span-2 text-left">
+                                                        {isEditing ? <VatRateSelect value={item.vatRate} onChange={(rate) => updateItem(idx, { vatRate: rate })} /> : <>%{fmtRate(item.vatRate)}</>}
+                                                    </div>
                                                     {/* Total Price (More space) */}
-                                                    <div className="col-span-3 text-right font-bold text-black">*{fmtCurrency(item.totalPrice)}</div>
+                                                    <div className="col-span-3 text-right font-bold text-black">
+                                                        {linked(`items[${idx}].totalPrice`, <EditableNumber editing={isEditing} value={item.totalPrice} onChange={(v) => updateItem(idx, { totalPrice: v })} display={<>*{fmtCurrency(item.totalPrice)}</>} />)}
+                                                    </div>
                                                 </div>
                                             </div>
                                         ))}
+                                        {isEditing && renderAddItemButton()}
                                     </div>
 
                                     {/* Totals Section */}
                                     <div className="bg-gray-50 p-3 rounded-sm mb-4 space-y-1 print:bg-transparent print:border print:border-gray-200 print:break-inside-avoid">
                                         <div className="flex justify-between font-bold text-[10px] text-gray-600">
                                             <span>ARA TOPLAM</span>
-                                            <span>*{fmtCurrency(data.subtotal)}</span>
+                                            {linked('subtotal', <span>*{fmtCurrency(data.subtotal)}</span>)}
                                         </div>
                                         <div className="flex justify-between font-bold text-[10px] text-gray-600">
                                             <span>TOPKDV</span>
-                                            <span>*{fmtCurrency(data.tax)}</span>
+                                            {linked('tax', <span>*{fmtCurrency(data.tax)}</span>)}
                                         </div>
-                                        <div className="flex justify-between font-bold text-sm mt-2 border-t border-gray-200 pt-2 text-black">
+                                        <div className="flex justify-between items-center font-bold text-sm mt-2 border-t border-gray-200 pt-2 text-black">
                                             <span>TOPLAM</span>
-                                            <span>*{fmtCurrency(data.total)}</span>
+                                            <span className={isEditing && lockTotal ? 'w-24' : ''}>
+                                                {linked('total', <EditableNumber editing={isEditing && lockTotal} value={data.total} onChange={(v) => updateDraft({ total: v })} display={<>*{fmtCurrency(data.total)}</>} />)}
+                                            </span>
                                         </div>
+                                        <CurrencyLine editing={isEditing} currency={data.currency} conversion={data.conversion} onChange={(c) => updateDraft({ currency: c })} />
                                     </div>
 
                                     {/* Payment Method */}
@@ -244,7 +629,9 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
                                     <div className="text-center space-y-1 uppercase text-[9px] text-gray-500 font-medium">
                                         {data.cashier && <p>KASİYER: {data.cashier}</p>}
                                         <div className="flex justify-center gap-4 mt-2">
-                                            {data.zNumber && <span>Z NO: {data.zNumber}</span>}
+                                            {(isEditing || data.zNumber) && (
+                                                <span className="flex items-center gap-1">Z NO: {linked('zNumber', <EditableText editing={isEditing} value={data.zNumber} onChange={(v) => updateDraft({ zNumber: v })} className="w-16" />)}</span>
+                                            )}
                                             {data.ekuNumber && <span>EKU NO: {data.ekuNumber}</span>}
                                         </div>
                                     </div>
@@ -288,11 +675,15 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
 
                                     {/* Column 1: Merchant Info */}
                                     <div className="text-left order-1">
-                                        <h1 className="text-sm font-bold uppercase tracking-wide text-black mb-1.5 break-words">{data.merchantName || 'Satıcı Firma'}</h1>
+                                        <h1 className="text-sm font-bold uppercase tracking-wide text-black mb-1.5 break-words">
+                                            <EditableText editing={isEditing} value={data.merchantName} onChange={(v) => updateDraft({ merchantName: v })} placeholder="Satıcı Firma" display={data.merchantName || 'Satıcı Firma'} />
+                                        </h1>
                                         <div className="text-gray-500 leading-tight space-y-1">
                                             {data.merchantAddress && <p className="max-w-[200px]">{data.merchantAddress}</p>}
                                             <div className="flex flex-col gap-0.5 mt-2 text-[9px] uppercase tracking-wide text-gray-400 font-medium">
-                                                {data.taxNumber && <span>VKN: {data.taxNumber}</span>}
+                                                {(isEditing || data.taxNumber) && (
+                                                    <span className="flex flex-wrap items-center gap-1">VKN: <EditableText editing={isEditing} value={data.taxNumber} onChange={(v) => updateDraft({ taxNumber: v })} placeholder="VKN / TCKN" /> <TaxIdStatus check={taxIdCheck} onApply={applyTaxIdSuggestion} /></span>
+                                                )}
                                                 {data.taxOffice && <span>VD: {data.taxOffice}</span>}
                                                 {data.sicilNumber && <span>MERSİS: {data.sicilNumber}</span>}
                                             </div>
@@ -310,22 +701,28 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
                                         <h2 className="text-5xl font-black text-gray-200 tracking-widest opacity-30 select-none mb-4">FATURA</h2>
 
                                         <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 text-gray-500 text-left w-full max-w-[180px]">
-                                            {data.date && (
+                                            {(isEditing || data.date) && (
                                                 <>
                                                     <span className="font-medium text-gray-700">Tarih:</span>
-                                                    <span>{fmtDate(data.date)}</span>
+                                                    <span><EditableText editing={isEditing} type="date" value={data.date} onChange={(v) => updateDraft({ date: v })} display={fmtDate(data.date)} /></span>
                                                 </>
                                             )}
-                                            {data.time && (
+                                            {(isEditing || data.time) && (
                                                 <>
                                                     <span className="font-medium text-gray-700">Saat:</span>
-                                                    <span>{data.time}</span>
+                                                    <span><EditableText editing={isEditing} type="time" value={data.time} onChange={(v) => updateDraft({ time: v })} /></span>
                                                 </>
                                             )}
-                                            {data.invoiceNumber && (
+                                            {(isEditing || data.invoiceNumber) && (
                                                 <>
                                                     <span className="font-medium text-gray-700">Fatura No:</span>
-                                                    <span>{data.invoiceNumber}</span>
+                                                    <span><EditableText editing={isEditing} value={data.invoiceNumber} onChange={(v) => updateDraft({ invoiceNumber: v })} /></span>
+                                                </>
+                                            )}
+                                            {(isEditing || data.zNumber) && (
+                                                <>
+                                                    <span className="font-medium text-gray-700">Z No:</span>
+                                                    <span><EditableText editing={isEditing} value={data.zNumber} onChange={(v) => updateDraft({ zNumber: v })} /></span>
                                                 </>
                                             )}
                                         </div>
@@ -357,21 +754,35 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
                                                 <th className="py-2.5 font-semibold text-right w-24">Birim Fiyat</th>
                                                 <th className="py-2.5 font-semibold text-right w-16">KDV</th>
                                                 <th className="py-2.5 font-semibold text-right w-24 pr-2">Tutar</th>
+                                                {isEditing && <th className="py-2.5 w-16 print:hidden"></th>}
                                             </tr>
                                         </thead>
                                         <tbody className="text-gray-700 text-[10px]">
                                             {data.items?.map((item, i) => (
                                                 <tr key={i} className="border-b border-gray-50 hover:bg-gray-50 transition-colors print:border-gray-200">
                                                     <td className="py-3 pl-2 text-gray-300">{i + 1}</td>
-                                                    <td className="py-3 font-medium text-black">{item.description}</td>
-                                                    <td className="py-3 text-center">{fmtQty(item.quantity)}</td>
-                                                    <td className="py-3 text-right font-mono text-gray-600">{fmtCurrency(item.unitPrice)} ₺</td>
-                                                    <td className="py-3 text-right text-gray-400">%{fmtRate(item.vatRate)}</td>
-                                                    <td className="py-3 text-right font-mono font-medium text-black pr-2">{fmtCurrency(item.totalPrice)} ₺</td>
+                                                    <td className="py-3 font-medium text-black">
+                                                        <EditableText editing={isEditing} value={item.description} onChange={(v) => updateItem(i, { description: v })} placeholder="Mal / Hizmet" />
+                                                        <ItemCategory editing={isEditing} value={item.category} categories={categories} onChange={(c) => updateItem(i, { category: c })} />
+                                                    </td>
+                                                    <td className="py-3 text-center">
+                                                        <EditableNumber editing={isEditing} value={item.quantity} step="0.001" onChange={(v) => updateItem(i, { quantity: v })} display={fmtQty(item.quantity)} />
+                                                    </td>
+                                                    <td className="py-3 text-right font-mono text-gray-600">
+                                                        <EditableNumber editing={isEditing} value={item.unitPrice} onChange={(v) => updateItem(i, { unitPrice: v })} display={<>{fmtCurrency(item.unitPrice)} {symbol}</>} />
+                                                    </td>
+                                                    <td className="py-3 text-right text-gray-400">
+                                                        {isEditing ? <VatRateSelect value={item.vatRate} onChange={(rate) => updateItem(i, { vatRate: rate })} /> : <>%{fmtRate(item.vatRate)}</>}
+                                                    </td>
+                                                    <td className="py-3 text-right font-mono font-medium text-black pr-2">
+                                                        <EditableNumber editing={isEditing} value={item.totalPrice} onChange={(v) => updateItem(i, { totalPrice: v })} display={<>{fmtCurrency(item.totalPrice)} {symbol}</>} />
+                                                    </td>
+                                                    {isEditing && <td className="py-3 text-right print:hidden">{renderItemControls(i)}</td>}
                                                 </tr>
                                             ))}
                                         </tbody>
                                     </table>
+                                    {isEditing && <div className="mt-3">{renderAddItemButton()}</div>}
                                 </div>
 
                                 {/* Footer Totals */}
@@ -379,19 +790,23 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ data }) => {
                                     <div className="w-56 space-y-2">
                                         <div className="flex justify-between text-gray-500">
                                             <span>Ara Toplam</span>
-                                            <span className="font-mono text-gray-700">{fmtCurrency(data.subtotal)} ₺</span>
+                                            <span className="font-mono text-gray-700">{fmtCurrency(data.subtotal)} {symbol}</span>
                                         </div>
                                         <div className="flex justify-between text-gray-500">
                                             <span>Toplam KDV</span>
-                                            <span className="font-mono text-gray-700">{fmtCurrency(data.tax)} ₺</span>
+                                            <span className="font-mono text-gray-700">{fmtCurrency(data.tax)} {symbol}</span>
                                         </div>
                                         <div className="flex justify-between text-black font-bold text-sm border-t border-gray-200 pt-3 mt-2 items-center">
                                             <span>GENEL TOPLAM</span>
-                                            <span className="font-mono text-base">{fmtCurrency(data.total)} ₺</span>
+                                            <span className={`font-mono text-base ${isEditing && lockTotal ? 'w-28' : ''}`}>
+                                                <EditableNumber editing={isEditing && lockTotal} value={data.total} onChange={(v) => updateDraft({ total: v })} display={<>{fmtCurrency(data.total)} {symbol}</>} />
+                                            </span>
                                         </div>
 
+                                        <CurrencyLine editing={isEditing} currency={data.currency} conversion={data.conversion} onChange={(c) => updateDraft({ currency: c })} />
+
                                         <div className="text-[9px] text-gray-400 text-right mt-1 italic">
-                                            {data.totalInWords || `Yalnız: #${fmtCurrency(data.total)}# Türk Lirası`}
+                                            {data.totalInWords || amountToTurkishWords(data.total, resolveWordsCurrency(data.currency))}
                                         </div>
                                     </div>
                                 </div>
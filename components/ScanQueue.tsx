@@ -0,0 +1,133 @@
+import React from 'react';
+import { UploadedFile } from '../types';
+import { FileType, Link as LinkIcon, X, RotateCcw, Loader2, CheckCircle2, AlertCircle, Clock, Copy } from 'lucide-react';
+
+interface ScanQueueProps {
+  items: UploadedFile[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<UploadedFile['status'], string> = {
+  idle: 'Sırada',
+  uploading: 'OCR',
+  processing: 'Ayrıştırılıyor',
+  done: 'Tamamlandı',
+  error: 'Hata'
+};
+
+const StatusIcon: React.FC<{ status: UploadedFile['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'uploading':
+    case 'processing':
+      return <Loader2 size={14} className="animate-spin text-mistral-black" />;
+    case 'done':
+      return <CheckCircle2 size={14} className="text-green-600" />;
+    case 'error':
+      return <AlertCircle size={14} className="text-red-500" />;
+    default:
+      return <Clock size={14} className="text-gray-400" />;
+  }
+};
+
+const ScanQueue: React.FC<ScanQueueProps> = ({ items, selectedId, onSelect, onRemove, onRetry, onRetryFailed, onClear }) => {
+  if (items.length === 0) return null;
+
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const failedCount = items.filter(i => i.status === 'error').length;
+  const retryableCount = items.filter(i => i.status === 'error' && !i.sourceMissing).length;
+  const duplicateCount = items.filter(i => i.duplicate).length;
+  const isBusy = items.some(i => i.status === 'uploading' || i.status === 'processing');
+
+  return (
+    <div className="bg-white border border-gray-200 shadow-sm animate-in fade-in slide-in-from-top-2 duration-300">
+      {/* Queue Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100 text-[10px] text-gray-500">
+        <span className="font-medium">
+          {items.length} Belge · {doneCount} Tamamlandı{failedCount > 0 && ` · ${failedCount} Hata`}
+          {duplicateCount > 0 && <span className="text-amber-600">{` · ${duplicateCount} Olası Kopya`}</span>}
+        </span>
+        <div className="flex items-center gap-2">
+          {retryableCount > 0 && !isBusy && (
+            <button onClick={onRetryFailed} className="flex items-center gap-1 text-mistral-black hover:underline">
+              <RotateCcw size={10} /> Tekrar Dene
+            </button>
+          )}
+          {!isBusy && (
+            <button onClick={onClear} className="text-gray-400 hover:text-red-500">
+              Temizle
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Queue Items */}
+      <ul className="max-h-64 overflow-y-auto divide-y divide-gray-50">
+        {items.map(item => {
+          const isFile = item.file instanceof File;
+          const isActive = item.id === selectedId;
+          const inFlight = item.status === 'uploading' || item.status === 'processing';
+          const subtitle = item.status === 'error'
+            ? item.error
+            : inFlight
+              ? item.statusMessage
+              : item.duplicate
+                ? `Olası kopya: ${item.duplicate.recordName}`
+                : isFile
+                  ? ((item.file as File).size / 1024 / 1024).toFixed(2) + ' MB'
+                  : 'URL Kaynağı';
+
+          return (
+            <li
+              key={item.id}
+              onClick={() => onSelect(item.id)}
+              className={`flex items-center gap-3 px-3 py-2 transition-colors cursor-pointer hover:bg-gray-50 ${isActive ? 'bg-gray-50 border-l-2 border-mistral-black' : 'border-l-2 border-transparent'}`}
+            >
+              <div className="w-8 h-8 bg-gray-100 flex items-center justify-center border border-gray-200 shrink-0 overflow-hidden">
+                {item.previewUrl
+                  ? <img src={item.previewUrl} alt="" className="w-full h-full object-cover" />
+                  : isFile ? <FileType size={16} className="text-mistral-black" /> : <LinkIcon size={16} className="text-blue-500" />}
+              </div>
+
+              <div className="flex flex-col overflow-hidden flex-1 min-w-0">
+                <span className="font-medium text-xs truncate" title={item.name}>{item.name}</span>
+                <span className={`text-[10px] truncate ${item.status === 'error' ? 'text-red-500' : item.duplicate && !inFlight ? 'text-amber-600' : 'text-gray-500'}`} title={subtitle}>
+                  {subtitle}
+                </span>
+              </div>
+
+              <div className="flex items-center gap-1.5 shrink-0">
+                <span className="hidden sm:inline text-[9px] uppercase tracking-wide text-gray-400">{STATUS_LABELS[item.status]}</span>
+                {item.duplicate && !inFlight ? <Copy size={14} className="text-amber-500" /> : <StatusIcon status={item.status} />}
+                {item.status === 'error' && !item.sourceMissing && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRetry(item.id); }}
+                    className="p-1 hover:bg-gray-100 rounded-full text-gray-500 hover:text-mistral-black"
+                    title="Tekrar Dene"
+                  >
+                    <RotateCcw size={12} />
+                  </button>
+                )}
+                {!inFlight && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRemove(item.id); }}
+                    className="p-1 hover:bg-gray-100 rounded-full text-gray-500 hover:text-red-500"
+                    title="Kaldır"
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ScanQueue;
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { OCRPageObject } from '../types';
+import { SourceLine, SourceLocations, getSourceLines, lineKey } from '../services/sourceLocator';
+import { isPdfSource, loadPdf, renderPdfPage } from '../services/pdfService';
+import { Loader2, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface SourceViewerProps {
+  source: File | string; // The file OCR read (preprocessed image when preprocessing ran)
+  pages: OCRPageObject[];
+  locations: SourceLocations;
+  activeField: string | null;
+  onFieldSelect: (field: string | null) => void;
+}
+
+// Render size of PDF pages; boxes are scaled through the SVG viewBox
+const PDF_RENDER_SIZE = 1600;
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ source, pages, locations, activeField, onFieldSelect }) => {
+  const [pageIndex, setPageIndex] = useState(0);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [selectedLine, setSelectedLine] = useState<SourceLine | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const page = pages[pageIndex];
+  const sourceLines = useMemo(() => getSourceLines(pages), [pages]);
+  const lines = sourceLines[pageIndex] || [];
+
+  // Reverse lookup so clicking a line can reveal its field
+  const fieldByLine = useMemo(() => {
+    const map: Record<string, string> = {};
+    Object.entries(locations).forEach(([field, line]: [string, SourceLine]) => {
+      if (!map[lineKey(line)]) map[lineKey(line)] = field;
+    });
+    return map;
+  }, [locations]);
+
+  const activeLine = activeField ? locations[activeField] || null : selectedLine;
+
+  // Follow the active field to its page
+  useEffect(() => {
+    if (activeLine && activeLine.page !== pageIndex) setPageIndex(activeLine.page);
+  }, [activeLine]);
+
+  // Image uploads are shown directly; PDF pages are rendered with pdf.js
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl = '';
+    setError('');
+    setNaturalSize(null);
+
+    if (!isPdfSource(source)) {
+      objectUrl = source instanceof File ? URL.createObjectURL(source) : '';
+      setImageUrl(objectUrl || (source as string));
+      return () => { if (objectUrl) URL.revokeObjectURL(objectUrl); };
+    }
+
+    setLoading(true);
+    setImageUrl(null);
+    (async () => {
+      const pdf = await loadPdf(source);
+      try {
+        const pageNumber = Math.min(pdf.numPages, (page?.index ?? pageIndex) + 1);
+        const canvas = await renderPdfPage(pdf, pageNumber, PDF_RENDER_SIZE);
+        if (!cancelled) setImageUrl(canvas.toDataURL('image/png'));
+      } finally {
+        pdf.destroy();
+      }
+    })()
+      .catch((err: any) => { if (!cancelled) setError(err.message || 'Sayfa görüntülenemedi'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [source, pageIndex]);
+
+  useEffect(() => {
+    if (!activeLine) return;
+    listRef.current
+      ?.querySelector(`[data-line="${lineKey(activeLine)}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeLine]);
+
+  const selectLine = (line: SourceLine) => {
+    const field = fieldByLine[lineKey(line)] || null;
+    setSelectedLine(field ? null : line);
+    onFieldSelect(field);
+  };
+
+  // Boxes are in OCR page pixels; fall back to the image size when the engine gave none
+  const viewBox = page?.dimensions
+    ? { width: page.dimensions.width, height: page.dimensions.height }
+    : naturalSize;
+  const boxedLines = lines.filter(l => l.bbox);
+  const hasGeometry = boxedLines.length > 0;
+
+  return (
+    <div className="h-full flex flex-col min-h-0">
+      {/* Page switcher */}
+      {pages.length > 1 && (
+        <div className="flex items-center justify-center gap-2 py-2 border-b border-gray-200 text-[10px] text-gray-600">
+          <button onClick={() => setPageIndex(i => Math.max(0, i - 1))} disabled={pageIndex === 0} className="p-1 disabled:opacity-30">
+            <ChevronLeft size={14} />
+          </button>
+          Sayfa {(page?.index ?? pageIndex) + 1} ({pageIndex + 1}/{pages.length})
+          <button onClick={() => setPageIndex(i => Math.min(pages.length - 1, i + 1))} disabled={pageIndex === pages.length - 1} className="p-1 disabled:opacity-30">
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      )}
+
+      {/* Document with overlays */}
+      <div className="flex-1 min-h-0 overflow-auto bg-gray-100 p-3 flex items-start justify-center">
+        {error ? (
+          <p className="text-xs text-red-500 mt-8 flex items-center gap-1"><AlertCircle size={12} /> {error}</p>
+        ) : loading || !imageUrl ? (
+          <Loader2 size={20} className="animate-spin text-gray-400 mt-8" />
+        ) : (
+          <div className="relative inline-block shadow-sm">
+            <img
+              src={imageUrl}
+              alt="Kaynak belge"
+              onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              className="max-w-full block"
+            />
+            {viewBox && (
+              <svg
+                viewBox={`0 0 ${viewBox.width} ${viewBox.height}`}
+                preserveAspectRatio="none"
+                className="absolute inset-0 w-full h-full"
+              >
+                {page?.images.map(image => image.top_left_x !== null && image.top_left_y !== null && image.bottom_right_x !== null && image.bottom_right_y !== null && (
+                  <rect
+                    key={image.id}
+                    x={image.top_left_x}
+                    y={image.top_left_y}
+                    width={image.bottom_right_x - image.top_left_x}
+                    height={image.bottom_right_y - image.top_left_y}
+                    fill="none"
+                    stroke="#9ca3af"
+                    strokeDasharray="6 4"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  >
+                    <title>{image.id}</title>
+                  </rect>
+                ))}
+                {boxedLines.map(line => {
+                  const isActive = activeLine !== null && lineKey(line) === lineKey(activeLine);
+                  const mapped = !!fieldByLine[lineKey(line)];
+                  return (
+                    <rect
+                      key={lineKey(line)}
+                      x={line.bbox!.x0}
+                      y={line.bbox!.y0}
+                      width={line.bbox!.x1 - line.bbox!.x0}
+                      height={line.bbox!.y1 - line.bbox!.y0}
+                      onClick={() => selectLine(line)}
+                      className="cursor-pointer"
+                      fill={isActive ? 'rgba(250,204,21,0.35)' : mapped ? 'rgba(59,130,246,0.08)' : 'transparent'}
+                      stroke={isActive ? '#eab308' : mapped ? 'rgba(59,130,246,0.5)' : 'transparent'}
+                      strokeWidth={isActive ? 2 : 1}
+                      vectorEffect="non-scaling-stroke"
+                    >
+                      <title>{line.text}</title>
+                    </rect>
+                  );
+                })}
+              </svg>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* OCR lines */}
+      <div ref={listRef} className="h-48 flex-shrink-0 overflow-y-auto border-t border-gray-200 bg-white font-mono text-[10px] leading-relaxed">
+        {!hasGeometry && (
+          <p className="sticky top-0 bg-gray-50 px-3 py-1 text-gray-400 font-sans border-b border-gray-100">
+            Bu OCR motoru satır konumu vermiyor; alanlar aşağıdaki metin satırlarında gösterilir.
+          </p>
+        )}
+        {lines.map(line => {
+          if (!line.text.trim()) return null;
+          const isActive = activeLine !== null && lineKey(line) === lineKey(activeLine);
+          const mapped = !!fieldByLine[lineKey(line)];
+          return (
+            <div
+              key={lineKey(line)}
+              data-line={lineKey(line)}
+              onClick={() => selectLine(line)}
+              className={`px-3 whitespace-pre-wrap break-all cursor-pointer border-l-2 ${isActive ? 'bg-yellow-100 border-yellow-500' : mapped ? 'border-blue-300 hover:bg-blue-50' : 'border-transparent hover:bg-gray-50'}`}
+            >
+              {line.text}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
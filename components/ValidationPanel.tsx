@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { ValidationFinding } from '../types';
+import { hasBlockingFindings } from '../services/receiptValidator';
+import { ShieldCheck, ShieldAlert, AlertTriangle, AlertCircle, Info, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface ValidationPanelProps {
+  findings: ValidationFinding[];
+  className?: string;
+}
+
+const SEVERITY_STYLES: Record<ValidationFinding['severity'], { icon: React.ReactNode; text: string }> = {
+  error: { icon: <AlertCircle size={12} className="text-red-500 shrink-0" />, text: 'text-red-700' },
+  warning: { icon: <AlertTriangle size={12} className="text-amber-500 shrink-0" />, text: 'text-amber-700' },
+  info: { icon: <Info size={12} className="text-blue-500 shrink-0" />, text: 'text-blue-700' }
+};
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ findings, className = '' }) => {
+  const [expanded, setExpanded] = useState(true);
+
+  if (findings.length === 0) {
+    return (
+      <div className={`flex items-center gap-2 px-3 py-2 text-[10px] font-medium bg-green-50 text-green-700 border border-green-100 ${className}`}>
+        <ShieldCheck size={14} /> Tutarlılık kontrolü: sorun bulunamadı
+      </div>
+    );
+  }
+
+  const blocking = hasBlockingFindings(findings);
+  const errorCount = findings.filter(f => f.severity === 'error').length;
+  const warningCount = findings.filter(f => f.severity === 'warning').length;
+
+  return (
+    <div className={`border text-[10px] ${blocking ? 'bg-red-50/60 border-red-100' : 'bg-amber-50/60 border-amber-100'} ${className}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className={`w-full flex items-center justify-between px-3 py-2 font-medium ${blocking ? 'text-red-700' : 'text-amber-700'}`}
+      >
+        <span className="flex items-center gap-2">
+          <ShieldAlert size={14} />
+          Manuel inceleme gerekli: {errorCount} hata, {warningCount} uyarı
+        </span>
+        {expanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+      </button>
+
+      {expanded && (
+        <ul className="px-3 pb-2 space-y-1">
+          {findings.map((finding, i) => (
+            <li key={`${finding.code}-${i}`} className="flex items-start gap-2">
+              {SEVERITY_STYLES[finding.severity].icon}
+              <span className={`flex-1 ${SEVERITY_STYLES[finding.severity].text}`}>{finding.message}</span>
+              <code className="text-[9px] text-gray-400 font-mono">{finding.field}</code>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,121 @@
+// Local stand-in for the Mistral files, batch and OCR endpoints.
+// Usage: node scripts/mistral-stub.mjs [port]
+// Then set VITE_MISTRAL_BASE_URL=http://localhost:8787 in .env
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.argv[2] || process.env.STUB_PORT || 8787);
+// How many status polls a job stays QUEUED/RUNNING before it succeeds
+const POLLS_UNTIL_DONE = 2;
+
+const files = new Map(); // id -> string content
+const jobs = new Map();  // id -> job object
+
+const STUB_MARKDOWN = `# STUB MARKET A.S.
+**TARIH**: 01.01.2025  **SAAT**: 12:00
+**FİS NO**: 0001
+
+| URUN ADI | MIKTAR | FIYAT | TUTAR |
+| :--- | :--- | :--- | :--- |
+| EKMEK | 1 Adet | *10,00 | 10,00 |
+
+**TOPKDV**: 0,10
+**TOPLAM**: 10,00
+`;
+
+const ocrResponse = (model) => ({
+  pages: [{ index: 0, markdown: STUB_MARKDOWN, images: [], dimensions: { dpi: 200, width: 800, height: 1200 } }],
+  model,
+  usage_info: { pages_processed: 1, doc_size_bytes: 1024 }
+});
+
+const send = (res, status, body, type = 'application/json') => {
+  res.writeHead(status, {
+    'Content-Type': type,
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve) => {
+  const chunks = [];
+  req.on('data', c => chunks.push(c));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+});
+
+// Pulls the "file" part out of a multipart body without a parser dependency
+const extractMultipartFile = (buffer, contentType) => {
+  const boundary = contentType.split('boundary=')[1];
+  const parts = buffer.toString('utf8').split(`--${boundary}`);
+  const filePart = parts.find(p => /name="file"/.test(p));
+  if (!filePart) return '';
+  return filePart.split('\r\n\r\n').slice(1).join('\r\n\r\n').replace(/\r\n$/, '');
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, '');
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const body = await readBody(req);
+
+  if (req.method === 'POST' && url.pathname === '/v1/ocr') {
+    const payload = JSON.parse(body.toString() || '{}');
+    return send(res, 200, ocrResponse(payload.model || 'mistral-ocr-stub'));
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v1/files') {
+    const id = `file_${randomUUID()}`;
+    files.set(id, extractMultipartFile(body, req.headers['content-type'] || ''));
+    return send(res, 200, { id, object: 'file', purpose: 'batch' });
+  }
+
+  const fileContent = url.pathname.match(/^\/v1\/files\/([^/]+)\/content$/);
+  if (req.method === 'GET' && fileContent) {
+    const content = files.get(fileContent[1]);
+    return content === undefined ? send(res, 404, { message: 'File not found' }) : send(res, 200, content, 'application/jsonl');
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v1/batch/jobs') {
+    const payload = JSON.parse(body.toString() || '{}');
+    const id = `job_${randomUUID()}`;
+    jobs.set(id, { id, status: 'QUEUED', polls: 0, model: payload.model, input_files: payload.input_files || [] });
+    return send(res, 200, { id, status: 'QUEUED' });
+  }
+
+  const jobMatch = url.pathname.match(/^\/v1\/batch\/jobs\/([^/]+)$/);
+  if (req.method === 'GET' && jobMatch) {
+    const job = jobs.get(jobMatch[1]);
+    if (!job) return send(res, 404, { message: 'Job not found' });
+
+    job.polls += 1;
+    if (job.polls >= POLLS_UNTIL_DONE && job.status !== 'SUCCESS') {
+      const lines = job.input_files
+        .flatMap(fid => (files.get(fid) || '').split('\n').filter(l => l.trim()))
+        .map(line => {
+          const { custom_id } = JSON.parse(line);
+          return JSON.stringify({ id: randomUUID(), custom_id, response: { status_code: 200, body: ocrResponse(job.model) }, error: null });
+        });
+      const outputId = `file_${randomUUID()}`;
+      files.set(outputId, lines.join('\n') + '\n');
+      job.status = 'SUCCESS';
+      job.output_file = outputId;
+    } else if (job.status === 'QUEUED') {
+      job.status = 'RUNNING';
+    }
+
+    return send(res, 200, {
+      id: job.id,
+      status: job.status,
+      output_file: job.output_file || null,
+      error_file: null,
+      total_requests: job.input_files.length,
+      succeeded_requests: job.status === 'SUCCESS' ? job.input_files.length : 0,
+      failed_requests: 0
+    });
+  }
+
+  send(res, 404, { message: `No stub for ${req.method} ${url.pathname}` });
+});
+
+server.listen(PORT, () => console.log(`Mistral stub listening on http://localhost:${PORT}`));
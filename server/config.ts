@@ -0,0 +1,33 @@
+import path from 'node:path';
+
+// .env is optional: in production the variables usually come from the host panel
+try {
+  process.loadEnvFile();
+} catch {
+  // no .env file
+}
+
+const numberEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const config = {
+  port: numberEnv('PORT', 8788),
+  host: process.env.HOST || '0.0.0.0',
+  mistralApiKey: process.env.MISTRAL_API_KEY || '',
+  mistralBaseUrl: (process.env.MISTRAL_BASE_URL || 'https://api.mistral.ai').replace(/\/+$/, ''),
+  mistralModel: process.env.MISTRAL_MODEL || 'mistral-ocr-latest',
+  geminiApiKey: process.env.GEMINI_API_KEY || '',
+  geminiModel: process.env.GEMINI_MODEL || 'gemini-2.5-flash-lite',
+  // A base64 encoded 15 MB scan is ~20 MB of JSON
+  maxBodyBytes: numberEnv('MAX_BODY_MB', 20) * 1024 * 1024,
+  maxMarkdownChars: numberEnv('MAX_MARKDOWN_CHARS', 200_000),
+  rateLimitPerMinute: numberEnv('RATE_LIMIT_PER_MINUTE', 30),
+  // Batch polling hits the passthrough every few seconds, so it gets its own budget
+  batchRateLimitPerMinute: numberEnv('BATCH_RATE_LIMIT_PER_MINUTE', 120),
+  // Use X-Forwarded-For for the client IP (set when running behind nginx / Plesk)
+  trustProxy: process.env.TRUST_PROXY === '1' || process.env.TRUST_PROXY === 'true',
+  allowedOrigins: (process.env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
+  staticDir: path.resolve(process.env.STATIC_DIR || 'dist')
+};
@@ -0,0 +1,246 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { config } from './config';
+import { HttpError, readBody, readJson, sendJson, openProgressStream, corsHeaders } from './http';
+import { createIdRegistry } from './issuedIds';
+import { SYSTEM_INSTRUCTION, buildReceiptSchema, buildExtractionPrompt, parseExtractionJson } from '../services/extractionContract';
+
+const HEARTBEAT_MS = 3000;
+
+// Mistral batch jobs may run up to 24 hours; their IDs stay usable a while longer
+const ISSUED_ID_TTL_MS = 48 * 60 * 60_000;
+
+// Only files and jobs created through this proxy can be read back
+const issuedFiles = createIdRegistry(ISSUED_ID_TTL_MS);
+const issuedJobs = createIdRegistry(ISSUED_ID_TTL_MS);
+
+const DOCUMENT_TYPES = ['image_url', 'document_url'];
+
+interface OcrRequestBody {
+  document?: { type?: string; [key: string]: unknown };
+  pages?: number[];
+  include_image_base64?: boolean;
+}
+
+interface BatchJobRequestBody {
+  input_files?: unknown;
+}
+
+interface ParseRequestBody {
+  markdown?: string;
+  model?: string;
+  categories?: string[];
+}
+
+// Upper bounds for the category taxonomy sent with a parse request
+const MAX_CATEGORIES = 50;
+const MAX_CATEGORY_LENGTH = 60;
+
+const readApiError = async (response: Response) => {
+  try {
+    const data = await response.json();
+    return data.message || data.error?.message || `API Error: ${response.status}`;
+  } catch {
+    return `API Error: ${response.status} ${response.statusText}`;
+  }
+};
+
+/**
+ * Sends "still working" lines while a slow upstream call is pending
+ */
+const withHeartbeat = async <T>(task: Promise<T>, onTick: (seconds: number) => void): Promise<T> => {
+  const started = Date.now();
+  const timer = setInterval(() => onTick(Math.round((Date.now() - started) / 1000)), HEARTBEAT_MS);
+  try {
+    return await task;
+  } finally {
+    clearInterval(timer);
+  }
+};
+
+export const handleHealth = (req: IncomingMessage, res: ServerResponse) => {
+  sendJson(req, res, 200, { ok: true, ocr: !!config.mistralApiKey, parse: !!config.geminiApiKey });
+};
+
+/**
+ * POST /api/ocr — the /v1/ocr request body the frontend builds, without a key
+ */
+export const handleOcr = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!config.mistralApiKey) throw new HttpError(503, 'Sunucuda MISTRAL_API_KEY tanımlı değil');
+
+  const body = await readJson<OcrRequestBody>(req);
+  if (!body.document || !DOCUMENT_TYPES.includes(body.document.type || '')) {
+    throw new HttpError(400, 'document.type image_url veya document_url olmalı');
+  }
+
+  const stream = openProgressStream(req, res);
+  stream.progress('Mistral OCR\'a gönderiliyor...');
+  try {
+    const request = fetch(`${config.mistralBaseUrl}/v1/ocr`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${config.mistralApiKey}` },
+      body: JSON.stringify({
+        model: config.mistralModel,
+        document: body.document,
+        pages: Array.isArray(body.pages) ? body.pages : undefined,
+        include_image_base64: body.include_image_base64 !== false
+      })
+    });
+    const response = await withHeartbeat(request, s => stream.progress(`Mistral OCR işleniyor (${s} sn)...`));
+    if (!response.ok) return stream.error(await readApiError(response), response.status);
+
+    stream.progress('OCR sonucu alındı');
+    stream.result(await response.json());
+  } catch (error: any) {
+    console.error('OCR proxy error:', error);
+    stream.error(error.message || 'OCR isteği başarısız oldu', 502);
+  }
+};
+
+/**
+ * POST /api/parse — runs the extraction contract on Gemini with the server key
+ */
+export const handleParse = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!config.geminiApiKey) throw new HttpError(503, 'Sunucuda GEMINI_API_KEY tanımlı değil');
+
+  const body = await readJson<ParseRequestBody>(req);
+  if (typeof body.markdown !== 'string' || body.markdown.trim() === '') {
+    throw new HttpError(400, 'markdown alanı gerekli');
+  }
+  if (body.markdown.length > config.maxMarkdownChars) {
+    throw new HttpError(413, 'Metin boyutu sınırı aşıldı');
+  }
+  // Only Gemini models may be requested; anything else uses the server default
+  const model = body.model && /^gemini-[\w.-]+$/.test(body.model) ? body.model : config.geminiModel;
+  const categories = Array.isArray(body.categories)
+    ? body.categories.filter(c => typeof c === 'string' && c.trim() && c.length <= MAX_CATEGORY_LENGTH).slice(0, MAX_CATEGORIES)
+    : [];
+
+  const stream = openProgressStream(req, res);
+  stream.progress(`${model} ile ayrıştırılıyor...`);
+  try {
+    const ai = new GoogleGenAI({ apiKey: config.geminiApiKey });
+    const request = ai.models.generateContent({
+      model,
+      contents: buildExtractionPrompt(body.markdown, categories),
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseJsonSchema: buildReceiptSchema(categories)
+      }
+    });
+    const response = await withHeartbeat(request, s => stream.progress(`Ayrıştırılıyor (${s} sn)...`));
+    if (!response.text) return stream.error('Empty response from Gemini', 502);
+
+    stream.result(parseExtractionJson(response.text));
+  } catch (error: any) {
+    console.error('Parse proxy error:', error);
+    stream.error(error.message || 'Ayrıştırma başarısız oldu', 502);
+  }
+};
+
+const mistralFetch = (path: string, init: { method?: string; headers?: Record<string, string>; body?: BodyInit } = {}) =>
+  fetch(`${config.mistralBaseUrl}${path}`, {
+    ...init,
+    headers: { 'Authorization': `Bearer ${config.mistralApiKey}`, ...init.headers }
+  });
+
+const relay = (req: IncomingMessage, res: ServerResponse, response: Response, body: Buffer) => {
+  res.writeHead(response.status, {
+    'Content-Type': response.headers.get('content-type') || 'application/json',
+    ...corsHeaders(req)
+  });
+  res.end(body);
+};
+
+/**
+ * Relays a JSON response after recording the IDs it hands out
+ */
+const relayJson = async (req: IncomingMessage, res: ServerResponse, response: Response, record: (data: any) => void) => {
+  const body = Buffer.from(await response.arrayBuffer());
+  if (response.ok) {
+    try {
+      record(JSON.parse(body.toString('utf8')));
+    } catch {
+      // not JSON: nothing to record
+    }
+  }
+  relay(req, res, response, body);
+};
+
+/**
+ * POST /v1/files — batch input upload (multipart, as the frontend sends it)
+ */
+const uploadFile = async (req: IncomingMessage, res: ServerResponse) => {
+  const contentType = req.headers['content-type'] || '';
+  if (!contentType.startsWith('multipart/form-data')) throw new HttpError(400, 'multipart/form-data bekleniyor');
+
+  const response = await mistralFetch('/v1/files', {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body: new Uint8Array(await readBody(req))
+  });
+  await relayJson(req, res, response, data => issuedFiles.add(data.id));
+};
+
+/**
+ * POST /v1/batch/jobs — always an OCR job on the configured model, over files uploaded here
+ */
+const createBatchJob = async (req: IncomingMessage, res: ServerResponse) => {
+  const body = await readJson<BatchJobRequestBody>(req);
+  const inputFiles = body.input_files;
+  if (!Array.isArray(inputFiles) || inputFiles.length === 0
+    || !inputFiles.every(id => typeof id === 'string' && issuedFiles.has(id))) {
+    throw new HttpError(400, 'input_files bu sunucuya yüklenmiş dosyaları içermeli');
+  }
+
+  const response = await mistralFetch('/v1/batch/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ input_files: inputFiles, endpoint: '/v1/ocr', model: config.mistralModel })
+  });
+  await relayJson(req, res, response, data => issuedJobs.add(data.id));
+};
+
+/**
+ * GET /v1/batch/jobs/{id} — status of a job created here; its result files become readable
+ */
+const getBatchJob = async (req: IncomingMessage, res: ServerResponse, jobId: string) => {
+  if (!issuedJobs.has(jobId)) throw new HttpError(404, 'Batch işi bulunamadı');
+
+  const response = await mistralFetch(`/v1/batch/jobs/${jobId}`);
+  await relayJson(req, res, response, data => {
+    issuedFiles.add(data.output_file);
+    issuedFiles.add(data.error_file);
+  });
+};
+
+/**
+ * GET /v1/files/{id}/content — an input or result file of a job created here
+ */
+const downloadFile = async (req: IncomingMessage, res: ServerResponse, fileId: string) => {
+  if (!issuedFiles.has(fileId)) throw new HttpError(404, 'Dosya bulunamadı');
+
+  const response = await mistralFetch(`/v1/files/${fileId}/content`);
+  relay(req, res, response, Buffer.from(await response.arrayBuffer()));
+};
+
+/**
+ * /api/mistral/v1/(files|batch/jobs)... — the four batch calls the frontend
+ * makes, with the server key added; every other method and path is refused
+ */
+export const handleMistralPassthrough = async (req: IncomingMessage, res: ServerResponse, upstreamPath: string) => {
+  if (!config.mistralApiKey) throw new HttpError(503, 'Sunucuda MISTRAL_API_KEY tanımlı değil');
+
+  const method = req.method || 'GET';
+  if (method === 'POST' && upstreamPath === '/v1/files') return uploadFile(req, res);
+  if (method === 'POST' && upstreamPath === '/v1/batch/jobs') return createBatchJob(req, res);
+
+  const job = upstreamPath.match(/^\/v1\/batch\/jobs\/([\w-]+)$/);
+  if (method === 'GET' && job) return getBatchJob(req, res, job[1]);
+
+  const file = upstreamPath.match(/^\/v1\/files\/([\w-]+)\/content$/);
+  if (method === 'GET' && file) return downloadFile(req, res, file[1]);
+
+  throw new HttpError(404, 'Desteklenmeyen Mistral uç noktası');
+};
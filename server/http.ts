@@ -0,0 +1,95 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export const clientIp = (req: IncomingMessage): string => {
+  if (config.trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * CORS headers for origins listed in ALLOWED_ORIGINS (same-origin needs none)
+ */
+export const corsHeaders = (req: IncomingMessage): Record<string, string> => {
+  const origin = req.headers.origin;
+  if (!origin || !config.allowedOrigins.includes(origin)) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Vary': 'Origin'
+  };
+};
+
+export const sendJson = (req: IncomingMessage, res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...corsHeaders(req), ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Reads the request body, rejecting with 413 as soon as it passes the limit
+ */
+export const readBody = (req: IncomingMessage, limit = config.maxBodyBytes): Promise<Buffer> => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > limit) return Promise.reject(new HttpError(413, 'İstek boyutu sınırı aşıldı'));
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new HttpError(413, 'İstek boyutu sınırı aşıldı'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+};
+
+export const readJson = async <T>(req: IncomingMessage): Promise<T> => {
+  const body = await readBody(req);
+  try {
+    return JSON.parse(body.toString('utf8')) as T;
+  } catch {
+    throw new HttpError(400, 'Geçersiz JSON gövdesi');
+  }
+};
+
+export interface ProgressStream {
+  progress: (message: string) => void;
+  result: (data: unknown) => void;
+  error: (message: string, status?: number) => void;
+}
+
+/**
+ * NDJSON response: {"type":"progress"} lines, then one "result" or "error" line
+ */
+export const openProgressStream = (req: IncomingMessage, res: ServerResponse): ProgressStream => {
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'X-Accel-Buffering': 'no', // Keep nginx from buffering progress lines
+    ...corsHeaders(req)
+  });
+  const write = (event: Record<string, unknown>) => {
+    if (!res.writableEnded) res.write(JSON.stringify(event) + '\n');
+  };
+  return {
+    progress: message => write({ type: 'progress', message }),
+    result: data => { write({ type: 'result', data }); res.end(); },
+    error: (message, status = 500) => { write({ type: 'error', message, status }); res.end(); }
+  };
+};
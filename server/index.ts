@@ -0,0 +1,59 @@
+// API proxy: keeps the Mistral and Gemini keys on the server and serves dist/.
+// Usage: npm run build && npm run build:server && npm start
+import http from 'node:http';
+import { config } from './config';
+import { createRateLimiter } from './rateLimit';
+import { HttpError, clientIp, corsHeaders, sendJson } from './http';
+import { handleHealth, handleOcr, handleParse, handleMistralPassthrough } from './handlers';
+import { serveStatic } from './static';
+
+const apiLimiter = createRateLimiter(config.rateLimitPerMinute);
+const batchLimiter = createRateLimiter(config.batchRateLimitPerMinute);
+
+const route = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders(req));
+    res.end();
+    return;
+  }
+
+  if (!pathname.startsWith('/api/')) {
+    serveStatic(req, res, pathname);
+    return;
+  }
+
+  if (pathname === '/api/health') return handleHealth(req, res);
+
+  const isBatch = pathname.startsWith('/api/mistral/');
+  const limit = (isBatch ? batchLimiter : apiLimiter)(clientIp(req));
+  if (!limit.allowed) {
+    sendJson(req, res, 429, { message: 'Çok fazla istek. Lütfen biraz sonra tekrar deneyin.' }, { 'Retry-After': String(limit.retryAfterSeconds) });
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/api/ocr') return handleOcr(req, res);
+  if (req.method === 'POST' && pathname === '/api/parse') return handleParse(req, res);
+  if (isBatch) return handleMistralPassthrough(req, res, pathname.slice('/api/mistral'.length));
+
+  throw new HttpError(404, `Bilinmeyen uç nokta: ${req.method} ${pathname}`);
+};
+
+const server = http.createServer((req, res) => {
+  route(req, res).catch((error: any) => {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error('Server error:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendJson(req, res, status, { message: error instanceof HttpError ? error.message : 'Sunucu hatası' });
+  });
+});
+
+server.listen(config.port, config.host, () => {
+  console.log(`API proxy listening on http://${config.host}:${config.port}`);
+  if (!config.mistralApiKey) console.warn('MISTRAL_API_KEY is not set: /api/ocr is disabled');
+  if (!config.geminiApiKey) console.warn('GEMINI_API_KEY is not set: /api/parse is disabled');
+});
@@ -0,0 +1,24 @@
+const SWEEP_MS = 60 * 60_000;
+
+/**
+ * Mistral file and job IDs this process handed out, kept in memory until they
+ * expire. A restart forgets them, so batch jobs pending across a restart have
+ * to be uploaded again.
+ */
+export const createIdRegistry = (ttlMs: number) => {
+  const expiries = new Map<string, number>();
+
+  setInterval(() => {
+    const now = Date.now();
+    expiries.forEach((expiresAt, id) => {
+      if (expiresAt <= now) expiries.delete(id);
+    });
+  }, SWEEP_MS).unref();
+
+  return {
+    add: (id: unknown) => {
+      if (typeof id === 'string' && id) expiries.set(id, Date.now() + ttlMs);
+    },
+    has: (id: string) => (expiries.get(id) || 0) > Date.now()
+  };
+};
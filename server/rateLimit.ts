@@ -0,0 +1,41 @@
+const WINDOW_MS = 60_000;
+
+interface Bucket {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window per-IP limiter kept in memory (one server process)
+ */
+export const createRateLimiter = (limitPerMinute: number) => {
+  const buckets = new Map<string, Bucket>();
+
+  // Drop expired buckets so the map does not grow with every visitor
+  setInterval(() => {
+    const now = Date.now();
+    buckets.forEach((bucket, ip) => {
+      if (bucket.resetAt <= now) buckets.delete(ip);
+    });
+  }, WINDOW_MS).unref();
+
+  return (ip: string): RateLimitResult => {
+    const now = Date.now();
+    let bucket = buckets.get(ip);
+    if (!bucket || bucket.resetAt <= now) {
+      bucket = { count: 0, resetAt: now + WINDOW_MS };
+      buckets.set(ip, bucket);
+    }
+
+    bucket.count += 1;
+    return {
+      allowed: bucket.count <= limitPerMinute,
+      retryAfterSeconds: Math.ceil((bucket.resetAt - now) / 1000)
+    };
+  };
+};
@@ -0,0 +1,46 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { config } from './config';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm',
+  '.gz': 'application/octet-stream' // Tesseract data; must not be sent with Content-Encoding
+};
+
+/**
+ * Serves the built frontend (dist/) with an index.html fallback for client routes
+ */
+export const serveStatic = (req: IncomingMessage, res: ServerResponse, pathname: string) => {
+  let filePath = path.join(config.staticDir, path.normalize(decodeURIComponent(pathname)));
+  if (!filePath.startsWith(config.staticDir)) {
+    res.writeHead(403);
+    res.end();
+    return;
+  }
+
+  if (!fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+    filePath = path.join(config.staticDir, 'index.html');
+  }
+  if (!fs.existsSync(filePath)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Önce "npm run build" çalıştırın.');
+    return;
+  }
+
+  // Hashed assets never change; index.html must always be revalidated
+  const immutable = pathname.startsWith('/assets/');
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream',
+    'Cache-Control': immutable ? 'public, max-age=31536000, immutable' : 'no-cache'
+  });
+  fs.createReadStream(filePath).pipe(res);
+};
@@ -0,0 +1,130 @@
+import { AnalyticsFilter, ExportReceipt, SpendingBucket, SpendingSummary, VatRateTotal } from '../types';
+import { breakdownOf } from './exportService';
+import { PAYMENT_ACCOUNT_LABELS, resolvePaymentKind } from './journalService';
+import { tryRateOf } from './currencyService';
+
+export const EMPTY_ANALYTICS_FILTER: AnalyticsFilter = { from: '', to: '', merchant: '' };
+
+const TOP_ITEM_COUNT = 10;
+
+const round2 = (n: number) => Number(n.toFixed(2));
+
+const fold = (text?: string) => (text || '').toLocaleUpperCase('tr-TR').replace(/\s+/g, ' ').trim();
+
+/**
+ * VKN when read, otherwise the spelling-insensitive name, so one seller
+ * scanned with slightly different names still lands in one bucket
+ */
+const merchantKey = (receipt: ExportReceipt) =>
+  (receipt.data.taxNumber || '').replace(/\D/g, '') || fold(receipt.data.merchantName) || '-';
+
+const monthKey = (date?: string) => /^\d{4}-\d{2}/.test(date || '') ? date!.slice(0, 7) : '';
+
+const monthLabel = (key: string) => {
+  if (!key) return 'Tarihsiz';
+  const [year, month] = key.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('tr-TR', { month: 'short', year: 'numeric' });
+};
+
+/**
+ * Running totals keyed by bucket; the first label seen for a key is kept
+ */
+const createBuckets = () => {
+  const buckets = new Map<string, SpendingBucket>();
+  return {
+    add: (key: string, label: string, amount: number) => {
+      const bucket = buckets.get(key) || { key, label, total: 0, count: 0 };
+      bucket.total += amount;
+      bucket.count += 1;
+      buckets.set(key, bucket);
+    },
+    list: () => [...buckets.values()].map(b => ({ ...b, total: round2(b.total) }))
+  };
+};
+
+const byTotalDesc = (a: SpendingBucket, b: SpendingBucket) => b.total - a.total;
+
+/**
+ * Merchants in the receipts for the filter dropdown, alphabetical
+ */
+export const listMerchants = (receipts: ExportReceipt[]): SpendingBucket[] => {
+  const merchants = createBuckets();
+  receipts.forEach(r => merchants.add(merchantKey(r), r.data.merchantName || r.name, Number(r.data.total) || 0));
+  return merchants.list().sort((a, b) => a.label.localeCompare(b.label, 'tr'));
+};
+
+/**
+ * Receipts dated within the range (undated ones only when no range is set) and from the merchant
+ */
+export const filterReceipts = (receipts: ExportReceipt[], filter: AnalyticsFilter): ExportReceipt[] =>
+  receipts.filter(r => {
+    const date = r.data.date || '';
+    if (filter.from && !(date && date >= filter.from)) return false;
+    if (filter.to && !(date && date <= filter.to)) return false;
+    return !filter.merchant || merchantKey(r) === filter.merchant;
+  });
+
+/**
+ * Spending totals in TRY for the dashboard. Receipt totals drive the month,
+ * merchant and payment views; categories and items sum the item lines (KDV
+ * included). Foreign-currency receipts without a rate are only counted.
+ */
+export const summarizeSpending = (receipts: ExportReceipt[]): SpendingSummary => {
+  const months = createBuckets();
+  const merchants = createBuckets();
+  const categories = createBuckets();
+  const payments = createBuckets();
+  const items = createBuckets();
+  const vat = new Map<number, VatRateTotal>();
+  let receiptCount = 0;
+  let total = 0;
+  let tax = 0;
+
+  receipts.forEach(receipt => {
+    const data = receipt.data;
+    const rate = tryRateOf(data);
+    if (rate === null) return;
+    const amount = (Number(data.total) || 0) * rate;
+    receiptCount += 1;
+    total += amount;
+    tax += (Number(data.tax) || 0) * rate;
+
+    const month = monthKey(data.date);
+    months.add(month, monthLabel(month), amount);
+    merchants.add(merchantKey(receipt), data.merchantName || receipt.name, amount);
+    const paymentKind = data.paymentMethod ? resolvePaymentKind(data.paymentMethod) : null;
+    payments.add(paymentKind || 'unknown', paymentKind ? PAYMENT_ACCOUNT_LABELS[paymentKind] : 'Belirtilmemiş', amount);
+
+    (data.items || []).forEach(item => {
+      const price = (Number(item.totalPrice) || 0) * rate;
+      categories.add(item.category || '', item.category || 'Kategorisiz', price);
+      // Discount lines are not products
+      if (price > 0 && item.description) items.add(fold(item.description), item.description, price);
+    });
+
+    breakdownOf(data).forEach(line => {
+      const vatRate = Number(line.rate) || 0;
+      const entry = vat.get(vatRate) || { rate: vatRate, base: 0, amount: 0 };
+      entry.base += (Number(line.base) || 0) * rate;
+      entry.amount += (Number(line.amount) || 0) * rate;
+      vat.set(vatRate, entry);
+    });
+  });
+
+  return {
+    receiptCount,
+    unconvertedCount: receipts.length - receiptCount,
+    total: round2(total),
+    tax: round2(tax),
+    averageBasket: receiptCount > 0 ? round2(total / receiptCount) : 0,
+    // Undated receipts go last
+    byMonth: months.list().sort((a, b) => (a.key || '9999').localeCompare(b.key || '9999')),
+    byMerchant: merchants.list().sort(byTotalDesc),
+    byCategory: categories.list().sort(byTotalDesc),
+    byPaymentMethod: payments.list().sort(byTotalDesc),
+    vatByRate: [...vat.values()]
+      .map(v => ({ rate: v.rate, base: round2(v.base), amount: round2(v.amount) }))
+      .sort((a, b) => a.rate - b.rate),
+    topItems: items.list().sort(byTotalDesc).slice(0, TOP_ITEM_COUNT)
+  };
+};
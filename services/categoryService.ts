@@ -0,0 +1,119 @@
+import { CategoryRule, CategorySettings, ReceiptData, ReceiptItem } from '../types';
+
+const CATEGORY_SETTINGS_KEY = 'expense_categories';
+
+export const DEFAULT_CATEGORY_SETTINGS: CategorySettings = {
+  categories: ['Gıda', 'Akaryakıt', 'Kırtasiye', 'Temsil-Ağırlama', 'Ulaşım', 'Konaklama', 'Temizlik', 'Elektronik', 'Diğer'],
+  fallbackCategory: 'Diğer',
+  rules: []
+};
+
+export const CATEGORY_RULE_LABELS: Record<CategoryRule['kind'], string> = {
+  taxNumber: 'VKN',
+  keyword: 'Anahtar Kelime',
+  regex: 'Regex'
+};
+
+export const loadCategorySettings = (): CategorySettings => {
+  try {
+    const raw = localStorage.getItem(CATEGORY_SETTINGS_KEY);
+    if (!raw) return DEFAULT_CATEGORY_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<CategorySettings>;
+    const categories = saved.categories?.length ? saved.categories : DEFAULT_CATEGORY_SETTINGS.categories;
+    return {
+      categories,
+      fallbackCategory: saved.fallbackCategory && categories.includes(saved.fallbackCategory) ? saved.fallbackCategory : categories[categories.length - 1],
+      rules: Array.isArray(saved.rules) ? saved.rules : []
+    };
+  } catch {
+    return DEFAULT_CATEGORY_SETTINGS;
+  }
+};
+
+export const saveCategorySettings = (settings: CategorySettings) => {
+  localStorage.setItem(CATEGORY_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const createRuleId = () => `rule_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+
+const fold = (text?: string) => (text || '').toLocaleUpperCase('tr-TR').replace(/\s+/g, ' ').trim();
+
+const digits = (value?: string) => (value || '').replace(/\D/g, '');
+
+/**
+ * Syntax error of a regex rule, or null when it compiles
+ */
+export const validateRulePattern = (rule: Pick<CategoryRule, 'kind' | 'pattern'>): string | null => {
+  if (!rule.pattern.trim()) return 'Desen boş olamaz';
+  if (rule.kind === 'taxNumber' && !/^\d{10,11}$/.test(digits(rule.pattern))) return 'VKN 10, TCKN 11 haneli olmalı';
+  if (rule.kind === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'iu');
+    } catch {
+      return 'Geçersiz regex';
+    }
+  }
+  return null;
+};
+
+const matchesRule = (rule: CategoryRule, item: ReceiptItem, data: ReceiptData) => {
+  if (validateRulePattern(rule)) return false;
+  switch (rule.kind) {
+    case 'taxNumber':
+      return digits(data.taxNumber) === digits(rule.pattern);
+    case 'keyword':
+      return fold(item.description).includes(fold(rule.pattern));
+    case 'regex':
+      return new RegExp(rule.pattern, 'iu').test(item.description || '');
+  }
+};
+
+/**
+ * The taxonomy's spelling of a model-given category, if it is one of them
+ */
+const findCategory = (name: string | undefined, categories: string[]) =>
+  name ? categories.find(c => fold(c) === fold(name)) : undefined;
+
+/**
+ * Puts every item into a taxonomy category. Item rules (keyword, regex) win
+ * over merchant (VKN) rules, then the model's pick if valid; discount lines
+ * follow the item above them and the rest land in the fallback category.
+ */
+export const categorizeReceipt = (data: ReceiptData, settings: CategorySettings): ReceiptData => {
+  const itemRules = settings.rules.filter(r => r.kind !== 'taxNumber');
+  const merchantRules = settings.rules.filter(r => r.kind === 'taxNumber');
+
+  const items: ReceiptItem[] = [];
+  (data.items || []).forEach(item => {
+    const rule = itemRules.find(r => matchesRule(r, item, data)) || merchantRules.find(r => matchesRule(r, item, data));
+    const category = (rule && findCategory(rule.category, settings.categories))
+      || findCategory(item.category, settings.categories)
+      || (item.totalPrice < 0 && items.length > 0 ? items[items.length - 1].category : undefined)
+      || settings.fallbackCategory;
+    items.push({ ...item, category });
+  });
+
+  return { ...data, items };
+};
+
+/**
+ * Turns manual category changes into keyword rules on the item's description,
+ * so the same product is placed the same way next time. Newest rules come first.
+ */
+export const learnFromCorrection = (settings: CategorySettings, before: ReceiptData, after: ReceiptData): CategorySettings => {
+  const learned: CategoryRule[] = [];
+  (after.items || []).forEach((item, i) => {
+    const previous = before.items?.[i];
+    const pattern = fold(item.description);
+    if (!previous || !item.category || item.category === previous.category || !pattern || item.totalPrice < 0) return;
+    if (fold(previous.description) !== pattern) return; // Reordered or renamed: not a category correction
+    learned.push({ id: createRuleId(), kind: 'keyword', pattern, category: item.category, learned: true });
+  });
+  if (learned.length === 0) return settings;
+
+  const patterns = new Set(learned.map(r => r.pattern));
+  return {
+    ...settings,
+    rules: [...learned, ...settings.rules.filter(r => !(r.kind === 'keyword' && patterns.has(fold(r.pattern))))]
+  };
+};
@@ -0,0 +1,31 @@
+import { PRICING, ApiMode } from '../types';
+
+// Gemini Cost Estimation (Flash Lite 2.5 Pricing)
+// Input: $0.075 per 1 Million Tokens
+// Output: $0.30 per 1 Million Tokens
+const GEMINI_INPUT_PER_1M = 0.075;
+const GEMINI_OUTPUT_PER_1M = 0.30;
+
+// Approx 1 Token = 4 Characters
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (charCount: number) => charCount / CHARS_PER_TOKEN;
+
+/**
+ * Mistral OCR cost in USD. Batch jobs get a 50% discount.
+ */
+export const estimateOcrCost = (pageCount: number, apiMode: ApiMode, isAnnotated = true) => {
+  const activeTier = isAnnotated ? PRICING.ANNOTATION : PRICING.OCR;
+  const baseCost = (pageCount / 1000) * activeTier.pricePer1k;
+  const discountFactor = apiMode === 'batch' ? 0.5 : 1;
+  return baseCost * discountFactor;
+};
+
+/**
+ * Gemini parsing cost in USD, estimated from markdown input and JSON output sizes
+ */
+export const estimateParseCost = (inputCharCount: number, outputCharCount: number) => {
+  const inputCost = (estimateTokens(inputCharCount) / 1_000_000) * GEMINI_INPUT_PER_1M;
+  const outputCost = (estimateTokens(outputCharCount) / 1_000_000) * GEMINI_OUTPUT_PER_1M;
+  return inputCost + outputCost;
+};
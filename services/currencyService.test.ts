@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ExchangeRate } from '../types';
+import { detectCurrency, findRate, normalizeCurrency, parseRateFile, parseRatesCsv, parseTcmbXml } from './currencyService';
+
+const TCMB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Tarih_Date Tarih="18.10.2024" Date="10/18/2024" Bulten_No="2024/196">
+  <Currency CrossOrder="0" Kod="USD" CurrencyCode="USD">
+    <Unit>1</Unit><Isim>ABD DOLARI</Isim>
+    <ForexBuying>34.2214</ForexBuying><ForexSelling>34.2831</ForexSelling>
+  </Currency>
+  <Currency CrossOrder="1" Kod="JPY" CurrencyCode="JPY">
+    <Unit>100</Unit><Isim>JAPON YENİ</Isim>
+    <ForexBuying>22.8571</ForexBuying><ForexSelling>23.0085</ForexSelling>
+  </Currency>
+</Tarih_Date>`;
+
+const rate = (date: string, value: number, currency = 'EUR'): ExchangeRate => ({ date, currency, rate: value, source: 'test' });
+
+describe('currency codes', () => {
+  it('normalizes symbols and names to ISO codes', () => {
+    expect(normalizeCurrency('₺')).toBe('TRY');
+    expect(normalizeCurrency('€')).toBe('EUR');
+    expect(normalizeCurrency('usd')).toBe('USD');
+    expect(normalizeCurrency('')).toBe('TRY');
+  });
+
+  it('detects the most frequent currency mark', () => {
+    expect(detectCurrency('TOPLAM €12,00\nKDV €2,00')).toBe('EUR');
+    expect(detectCurrency('TOPLAM 12,00')).toBe('TRY');
+  });
+});
+
+describe('rate files', () => {
+  it('reads TCMB forex buying rates per unit', () => {
+    expect(parseTcmbXml(TCMB_XML, 'today.xml')).toEqual([
+      { date: '2024-10-18', currency: 'USD', rate: 34.2214, source: 'today.xml' },
+      { date: '2024-10-18', currency: 'JPY', rate: 0.228571, source: 'today.xml' }
+    ]);
+  });
+
+  it('reads CSV rows with Turkish decimals and skips the header', () => {
+    expect(parseRatesCsv('tarih;para birimi;kur\n18.10.2024;EUR;37,1234\n2024-10-17;usd;34,10', 'kur.csv')).toEqual([
+      { date: '2024-10-18', currency: 'EUR', rate: 37.1234, source: 'kur.csv' },
+      { date: '2024-10-17', currency: 'USD', rate: 34.1, source: 'kur.csv' }
+    ]);
+  });
+
+  it('rejects files without rates', () => {
+    expect(() => parseRateFile('merhaba', 'bos.txt')).toThrow('bos.txt');
+  });
+});
+
+describe('findRate', () => {
+  const rates = [rate('2024-10-04', 36.9), rate('2024-10-17', 37.0), rate('2024-10-18', 37.1), rate('2024-10-18', 34.2, 'USD')];
+
+  it('uses the rate of the receipt date', () => {
+    expect(findRate(rates, 'EUR', '2024-10-18')?.rate).toBe(37.1);
+  });
+
+  it('falls back to the latest earlier bulletin (weekends, holidays)', () => {
+    expect(findRate(rates, 'EUR', '2024-10-20')?.date).toBe('2024-10-18');
+  });
+
+  it('ignores rates published after the receipt date or more than 10 days before it', () => {
+    expect(findRate(rates, 'EUR', '2024-10-03')).toBeNull();
+    expect(findRate(rates, 'EUR', '2024-10-15')).toBeNull();
+    expect(findRate(rates, 'EUR', '2024-10-14')?.date).toBe('2024-10-04');
+  });
+
+  it('returns null for an unreadable date', () => {
+    expect(findRate(rates, 'EUR', '')).toBeNull();
+  });
+});
@@ -0,0 +1,229 @@
+import { CurrencyConversion, ExchangeRate, ReceiptData } from '../types';
+
+const EXCHANGE_RATES_KEY = 'exchange_rates';
+
+export const BASE_CURRENCY = 'TRY';
+
+// Offered in the receipt editor; any other ISO code from the parser is kept
+export const COMMON_CURRENCIES = ['TRY', 'EUR', 'USD', 'GBP', 'CHF'];
+
+// Receipt dates with no bulletin (weekends, holidays) use the latest one this many days back
+const MAX_RATE_AGE_DAYS = 10;
+
+// Symbols and names printed on receipts or returned by parsers
+const CURRENCY_ALIASES: Record<string, string> = {
+  '₺': 'TRY', 'TL': 'TRY', 'YTL': 'TRY',
+  '€': 'EUR', 'EURO': 'EUR', 'AVRO': 'EUR',
+  '$': 'USD', 'US$': 'USD', 'DOLAR': 'USD',
+  '£': 'GBP', 'STERLİN': 'GBP',
+  '¥': 'JPY',
+  'FR.': 'CHF', 'SFR': 'CHF'
+};
+
+// Marks counted in the OCR text; TRY wins ties because Turkish receipts are the default
+const CURRENCY_MARKS: [string, RegExp][] = [
+  ['TRY', /₺|\bTL\b|\bTRY\b/g],
+  ['EUR', /€|\bEUR\b/g],
+  ['USD', /\$|\bUSD\b/g],
+  ['GBP', /£|\bGBP\b/g],
+  ['CHF', /\bCHF\b/g]
+];
+
+const round2 = (n: number) => Number(n.toFixed(2));
+
+/**
+ * ISO 4217 code of a currency field ('₺', 'TL', '€', 'usd' ...); unknown values are TRY
+ */
+export const normalizeCurrency = (currency?: string): string => {
+  const value = (currency || '').trim().toLocaleUpperCase('tr-TR');
+  if (CURRENCY_ALIASES[value]) return CURRENCY_ALIASES[value];
+  return /^[A-Z]{3}$/.test(value) ? value : BASE_CURRENCY;
+};
+
+/**
+ * Most frequent currency mark in receipt text, TRY when there is none
+ */
+export const detectCurrency = (text: string): string => {
+  let best = BASE_CURRENCY;
+  let bestCount = 0;
+  CURRENCY_MARKS.forEach(([code, pattern]) => {
+    const count = (text.match(pattern) || []).length;
+    if (count > bestCount) {
+      best = code;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Currency field as an ISO code; parsers that left it empty get the one found in the text
+ */
+export const applyCurrency = (data: ReceiptData, markdownText: string): ReceiptData => ({
+  ...data,
+  currency: data.currency ? normalizeCurrency(data.currency) : detectCurrency(markdownText)
+});
+
+const currencyFormat = (code: string) => {
+  try {
+    return new Intl.NumberFormat('tr-TR', { style: 'currency', currency: code, currencyDisplay: 'narrowSymbol' });
+  } catch {
+    return null;
+  }
+};
+
+export const currencySymbol = (currency?: string): string => {
+  const code = normalizeCurrency(currency);
+  return currencyFormat(code)?.formatToParts(0).find(part => part.type === 'currency')?.value || code;
+};
+
+/**
+ * Amount in Turkish number style with the currency's own minor digits (2 for EUR, 0 for JPY)
+ */
+export const formatAmount = (amount: number | undefined, currency?: string): string => {
+  const digits = currencyFormat(normalizeCurrency(currency))?.resolvedOptions().maximumFractionDigits ?? 2;
+  return new Intl.NumberFormat('tr-TR', { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(amount || 0);
+};
+
+export const formatRate = (rate: number) =>
+  new Intl.NumberFormat('tr-TR', { minimumFractionDigits: 4, maximumFractionDigits: 6 }).format(rate);
+
+// --- Rate table (imported, never fetched) ---
+
+export const loadExchangeRates = (): ExchangeRate[] => {
+  try {
+    const raw = localStorage.getItem(EXCHANGE_RATES_KEY);
+    const saved = raw ? JSON.parse(raw) : [];
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveExchangeRates = (rates: ExchangeRate[]) => {
+  localStorage.setItem(EXCHANGE_RATES_KEY, JSON.stringify(rates));
+};
+
+/**
+ * Imported rates replace stored ones for the same date and currency
+ */
+export const mergeExchangeRates = (existing: ExchangeRate[], imported: ExchangeRate[]): ExchangeRate[] => {
+  const byKey = new Map<string, ExchangeRate>();
+  [...existing, ...imported].forEach(rate => byKey.set(`${rate.date}|${rate.currency}`, rate));
+  return [...byKey.values()].sort((a, b) => a.date.localeCompare(b.date) || a.currency.localeCompare(b.currency));
+};
+
+/**
+ * "18.10.2024" / "18/10/2024" / "2024-10-18" -> "2024-10-18"
+ */
+const toIsoDate = (value: string): string | null => {
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const match = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  return match ? `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}` : null;
+};
+
+const parseDecimal = (value: string) => {
+  const text = value.trim();
+  return Number(text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text);
+};
+
+const xmlText = (block: string, tag: string) => block.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1]?.trim() || '';
+
+/**
+ * TCMB bulletins (today.xml or archive days, one or several per file). Uses
+ * the forex buying rate per unit, e.g. JPY is quoted per 100.
+ */
+export const parseTcmbXml = (xml: string, source: string): ExchangeRate[] => {
+  const rates: ExchangeRate[] = [];
+  const bulletins = xml.match(/<Tarih_Date[\s\S]*?<\/Tarih_Date>/g) || [];
+  bulletins.forEach(bulletin => {
+    const date = toIsoDate(bulletin.match(/\bTarih="([^"]+)"/)?.[1] || '');
+    if (!date) return;
+    (bulletin.match(/<Currency\b[\s\S]*?<\/Currency>/g) || []).forEach(block => {
+      const currency = block.match(/\b(?:CurrencyCode|Kod)="([A-Z]{3})"/)?.[1];
+      const unit = Number(xmlText(block, 'Unit')) || 1;
+      const buying = parseDecimal(xmlText(block, 'ForexBuying') || xmlText(block, 'BanknoteBuying'));
+      if (currency && buying > 0) rates.push({ date, currency, rate: buying / unit, source });
+    });
+  });
+  return rates;
+};
+
+/**
+ * Rows of date, currency, rate and an optional unit, separated by ";", tab or ",".
+ * Header and unreadable rows are skipped.
+ */
+export const parseRatesCsv = (text: string, source: string): ExchangeRate[] => {
+  const rates: ExchangeRate[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(line => {
+    const delimiter = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+    const [rawDate = '', rawCurrency = '', rawRate = '', rawUnit = ''] = line.split(delimiter).map(cell => cell.replace(/"/g, '').trim());
+    const date = toIsoDate(rawDate);
+    const currency = rawCurrency.toUpperCase();
+    const rate = parseDecimal(rawRate) / (Number(rawUnit) || 1);
+    if (date && /^[A-Z]{3}$/.test(currency) && rate > 0) rates.push({ date, currency, rate, source });
+  });
+  return rates;
+};
+
+/**
+ * Rates from an imported TCMB XML or CSV file
+ */
+export const parseRateFile = (text: string, fileName: string): ExchangeRate[] => {
+  const rates = text.trimStart().startsWith('<') ? parseTcmbXml(text, fileName) : parseRatesCsv(text, fileName);
+  if (rates.length === 0) throw new Error(`${fileName}: kur bulunamadı (TCMB XML veya tarih;para birimi;kur CSV bekleniyor)`);
+  return rates;
+};
+
+/**
+ * Latest rate published on or before the receipt date, at most MAX_RATE_AGE_DAYS old
+ */
+export const findRate = (rates: ExchangeRate[], currency: string, date: string): ExchangeRate | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '')) return null;
+  const oldest = new Date(`${date}T00:00:00Z`);
+  oldest.setUTCDate(oldest.getUTCDate() - MAX_RATE_AGE_DAYS);
+  const from = oldest.toISOString().slice(0, 10);
+
+  let best: ExchangeRate | null = null;
+  for (const rate of rates) {
+    if (rate.currency !== currency || rate.date > date || rate.date < from) continue;
+    if (!best || rate.date > best.date) best = rate;
+  }
+  return best;
+};
+
+/**
+ * TRY amounts for a foreign-currency receipt from the rate table; TRY receipts
+ * and receipts without a rate for their date carry no conversion
+ */
+export const convertReceipt = (data: ReceiptData, rates: ExchangeRate[]): ReceiptData => {
+  const { conversion: _previous, ...rest } = data;
+  const currency = normalizeCurrency(data.currency);
+  const rate = currency === BASE_CURRENCY ? null : findRate(rates, currency, data.date);
+  if (!rate) return { ...rest, currency };
+
+  const conversion: CurrencyConversion = {
+    rate: rate.rate,
+    rateDate: rate.date,
+    source: rate.source,
+    subtotal: round2((Number(data.subtotal) || 0) * rate.rate),
+    tax: round2((Number(data.tax) || 0) * rate.rate),
+    total: round2((Number(data.total) || 0) * rate.rate)
+  };
+  return { ...rest, currency, conversion };
+};
+
+/**
+ * Multiplier from the receipt's currency to TRY: 1 for TRY, null when no rate was found
+ */
+export const tryRateOf = (data: ReceiptData): number | null =>
+  normalizeCurrency(data.currency) === BASE_CURRENCY ? 1 : data.conversion?.rate ?? null;
+
+/**
+ * An amount of the receipt in TRY, or null when its currency has no rate
+ */
+export const amountInTry = (data: ReceiptData, amount: number): number | null => {
+  const rate = tryRateOf(data);
+  return rate === null ? null : round2((Number(amount) || 0) * rate);
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ReceiptData } from '../types';
+import { fiscalFingerprint, mergeDuplicateReceipts } from './duplicateDetector';
+
+// pdf.js needs browser globals at import time; image hashing is not tested here
+vi.mock('./pdfService', () => ({}));
+
+const receipt = (patch: Partial<ReceiptData> = {}): ReceiptData => ({
+  merchantName: 'STUB MARKET',
+  merchantAddress: '',
+  taxNumber: '1234567890',
+  taxOffice: '',
+  date: '2025-01-01',
+  time: '12:00',
+  invoiceNumber: '0001',
+  items: [{ description: 'EKMEK', quantity: 1, unitPrice: 10, totalPrice: 10, vatRate: 0 }],
+  subtotal: 10,
+  tax: 0,
+  total: 10,
+  totalInWords: '',
+  currency: 'TRY',
+  ...patch
+});
+
+describe('fiscalFingerprint', () => {
+  it('ignores leading zeros and separators in the fiscal numbers', () => {
+    expect(fiscalFingerprint(receipt({ invoiceNumber: '0001' })))
+      .toBe(fiscalFingerprint(receipt({ invoiceNumber: 'No 1', taxNumber: '123 456 7890' })));
+  });
+
+  it('is null without a receipt or Z number', () => {
+    expect(fiscalFingerprint(receipt({ invoiceNumber: '' }))).toBeNull();
+  });
+});
+
+describe('mergeDuplicateReceipts', () => {
+  it('fills empty fields from the duplicate', () => {
+    const merged = mergeDuplicateReceipts(receipt({ taxOffice: '' }), receipt({ taxOffice: 'KADIKÖY' }));
+    expect(merged.taxOffice).toBe('KADIKÖY');
+  });
+
+  it('keeps a legitimate zero on the stored receipt', () => {
+    const merged = mergeDuplicateReceipts(receipt({ tax: 0 }), receipt({ tax: 1.67 }));
+    expect(merged.tax).toBe(0);
+  });
+});
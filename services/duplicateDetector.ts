@@ -0,0 +1,183 @@
+import { DuplicateMatch, ReceiptData, ScanRecord } from '../types';
+import { createCanvas, context2d } from './imagePreprocessor';
+import { isPdfSource, loadPdf, renderPdfPage } from './pdfService';
+
+// dHash grid: 9x8 pixels give 64 left/right comparisons
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Differing bits (of 64) still counted as the same picture (re-saved, resized, recompressed)
+const MAX_IMAGE_DISTANCE = 6;
+
+// Two scans of one receipt print the same time; clocks read from a photo vs. a PDF may differ slightly
+const MAX_TIME_GAP_MINUTES = 10;
+
+/**
+ * Difference hash of a drawable: brighter-than-right-neighbour bits as 16 hex digits
+ */
+const dHash = (source: CanvasImageSource): string => {
+  const canvas = createCanvas(HASH_WIDTH, HASH_HEIGHT);
+  const ctx = context2d(canvas);
+  ctx.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let nibble = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      nibble = (nibble << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+};
+
+/**
+ * Perceptual hash of an uploaded image, or of the first page of a PDF.
+ * Null for sources that cannot be drawn (URLs, other types).
+ */
+export const computeImageHash = async (source: File | string): Promise<string | null> => {
+  if (!(source instanceof File)) return null;
+
+  if (isPdfSource(source)) {
+    const pdf = await loadPdf(source);
+    try {
+      return dHash(await renderPdfPage(pdf, 1, 256));
+    } finally {
+      pdf.destroy();
+    }
+  }
+
+  if (!source.type.startsWith('image/')) return null;
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  try {
+    return dHash(bitmap);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+};
+
+const digits = (value?: string) => (value || '').replace(/\D/g, '').replace(/^0+/, '');
+
+/**
+ * Fiscal identity of a receipt: VKN + date + Fiş No + Z No + EKU No + total.
+ * Null unless the VKN, date, total and a receipt or Z number were read.
+ */
+export const fiscalFingerprint = (data: ReceiptData): string | null => {
+  const taxNumber = digits(data.taxNumber);
+  const invoiceNumber = digits(data.invoiceNumber);
+  const zNumber = digits(data.zNumber);
+  if (!taxNumber || !data.date || !(data.total > 0) || (!invoiceNumber && !zNumber)) return null;
+  return [taxNumber, data.date, invoiceNumber, zNumber, digits(data.ekuNumber), data.total.toFixed(2)].join('|');
+};
+
+const normalizeName = (name?: string) => (name || '')
+  .toLocaleLowerCase('tr')
+  .replace(/[^a-zçğıöşü0-9 ]/g, ' ')
+  .split(/\s+/)
+  .filter(word => word.length >= 2);
+
+/**
+ * Share of the shorter name's words found in the other name
+ */
+const nameSimilarity = (a?: string, b?: string) => {
+  const [shorter, longer] = [normalizeName(a), normalizeName(b)].sort((x, y) => x.length - y.length);
+  if (shorter.length === 0) return 0;
+  return shorter.filter(word => longer.includes(word)).length / shorter.length;
+};
+
+const toMinutes = (time?: string) => {
+  const match = (time || '').match(/^(\d{1,2})[:.](\d{2})/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Same total and date, same seller (VKN or name) and, when both have one, a close time
+ */
+const isFuzzyMatch = (a: ReceiptData, b: ReceiptData) => {
+  if (!(a.total > 0) || Math.abs(a.total - b.total) >= 0.01) return false;
+  if (!a.date || a.date !== b.date) return false;
+
+  const sameSeller = (digits(a.taxNumber) && digits(a.taxNumber) === digits(b.taxNumber))
+    || nameSimilarity(a.merchantName, b.merchantName) >= 0.6;
+  if (!sameSeller) return false;
+
+  const [timeA, timeB] = [toMinutes(a.time), toMinutes(b.time)];
+  return timeA === null || timeB === null || Math.abs(timeA - timeB) <= MAX_TIME_GAP_MINUTES;
+};
+
+/**
+ * Stored scan whose image looks the same, checked before any OCR is paid for
+ */
+export const findImageDuplicate = (hash: string, records: ScanRecord[]): DuplicateMatch | null => {
+  let best: ScanRecord | null = null;
+  let bestDistance = MAX_IMAGE_DISTANCE + 1;
+  for (const record of records) {
+    const distance = record.imageHash ? hammingDistance(hash, record.imageHash) : Infinity;
+    if (distance < bestDistance) {
+      best = record;
+      bestDistance = distance;
+    }
+  }
+  if (!best) return null;
+
+  return {
+    recordId: best.id,
+    recordName: best.name,
+    reason: 'image',
+    detail: bestDistance === 0 ? 'Görüntü birebir aynı' : `Görüntü %${Math.round((1 - bestDistance / 64) * 100)} benzer`
+  };
+};
+
+/**
+ * Stored scan of the same receipt after parsing: the fiscal fingerprint first,
+ * then the merchant / amount / time comparison
+ */
+export const findReceiptDuplicate = (data: ReceiptData, records: ScanRecord[]): DuplicateMatch | null => {
+  const fingerprint = fiscalFingerprint(data);
+  const exact = fingerprint && records.find(r => r.receiptData && fiscalFingerprint(r.receiptData) === fingerprint);
+  if (exact) {
+    return { recordId: exact.id, recordName: exact.name, reason: 'fingerprint', detail: 'VKN, tarih, fiş/Z/EKU no ve toplam aynı' };
+  }
+
+  const fuzzy = records.find(r => r.receiptData && isFuzzyMatch(data, r.receiptData));
+  if (fuzzy) {
+    return { recordId: fuzzy.id, recordName: fuzzy.name, reason: 'fuzzy', detail: 'Satıcı, tarih, saat ve toplam tutuyor' };
+  }
+  return null;
+};
+
+/**
+ * Keeps the stored receipt and fills its empty fields from the duplicate scan
+ */
+export const mergeDuplicateReceipts = (kept: ReceiptData, duplicate: ReceiptData): ReceiptData => {
+  const merged: ReceiptData = { ...kept };
+  const fillEmpty = <K extends keyof ReceiptData>(key: K) => {
+    const value = merged[key];
+    // 0 is a real value (e.g. KDV on an exempt receipt), so only missing text and lists count as empty
+    const empty = value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+    if (empty) merged[key] = duplicate[key];
+  };
+  (Object.keys(duplicate) as (keyof ReceiptData)[]).forEach(fillEmpty);
+  merged.confidence = { ...duplicate.confidence, ...kept.confidence };
+  return merged;
+};
@@ -0,0 +1,355 @@
+import { ExportColumnSetting, ExportMapping, ExportReceipt, ExportSheet, ReceiptData, ReceiptItem, TaxBreakdown } from '../types';
+import { computeFinancials } from './receiptMath';
+import { amountInTry } from './currencyService';
+import { createZip } from './zipWriter';
+
+const EXPORT_MAPPING_KEY = 'export_column_mapping';
+
+// Expands into "KDV %X Matrah" / "KDV %X Tutar" columns for every rate in the export
+const VAT_BREAKDOWN_KEY = 'vatBreakdown';
+
+export const EXPORT_SHEET_LABELS: Record<ExportSheet, string> = {
+  receipts: 'Fişler',
+  items: 'Kalemler'
+};
+
+export type CellKind = 'text' | 'money' | 'number' | 'date';
+export type CellValue = string | number | undefined;
+
+interface ColumnDef<T> {
+  key: string;
+  label: string;
+  kind: CellKind;
+  value: (row: T) => CellValue;
+  expand?: (receipts: ExportReceipt[]) => ColumnDef<T>[]; // One setting that becomes several columns
+}
+
+interface ExportItemRow {
+  receipt: ExportReceipt;
+  item: ReceiptItem;
+  index: number;
+}
+
+// Row type of each sheet: one per receipt, or one per item line
+interface SheetRow {
+  receipts: ExportReceipt;
+  items: ExportItemRow;
+}
+
+export interface ExportTable {
+  headers: string[];
+  kinds: CellKind[];
+  rows: CellValue[][];
+}
+
+const round2 = (n: number) => Number(n.toFixed(2));
+
+/**
+ * "KDV %X Matrah" / "KDV %X Tutar" for every rate found in the exported receipts
+ */
+const vatBreakdownColumns = (receipts: ExportReceipt[]): ColumnDef<ExportReceipt>[] =>
+  Array.from(new Set(receipts.flatMap(r => breakdownOf(r.data).map(tx => Number(tx.rate)))))
+    .sort((a, b) => a - b)
+    .flatMap(rate => {
+      const find = (r: ExportReceipt) => breakdownOf(r.data).find(tx => Number(tx.rate) === rate);
+      return [
+        { key: `${VAT_BREAKDOWN_KEY}${rate}Base`, label: `KDV %${rate} Matrah`, kind: 'money' as const, value: (r: ExportReceipt) => find(r)?.base },
+        { key: `${VAT_BREAKDOWN_KEY}${rate}Amount`, label: `KDV %${rate} Tutar`, kind: 'money' as const, value: (r: ExportReceipt) => find(r)?.amount }
+      ];
+    });
+
+const RECEIPT_COLUMNS: ColumnDef<ExportReceipt>[] = [
+  { key: 'receiptId', label: 'Fiş Ref', kind: 'text', value: r => r.id },
+  { key: 'fileName', label: 'Dosya', kind: 'text', value: r => r.name },
+  { key: 'merchantName', label: 'İşyeri', kind: 'text', value: r => r.data.merchantName },
+  { key: 'taxOffice', label: 'Vergi Dairesi', kind: 'text', value: r => r.data.taxOffice },
+  { key: 'taxNumber', label: 'VKN/TCKN', kind: 'text', value: r => r.data.taxNumber },
+  { key: 'date', label: 'Tarih', kind: 'date', value: r => r.data.date },
+  { key: 'time', label: 'Saat', kind: 'text', value: r => r.data.time },
+  { key: 'invoiceNumber', label: 'Fiş No', kind: 'text', value: r => r.data.invoiceNumber },
+  { key: 'zNumber', label: 'Z No', kind: 'text', value: r => r.data.zNumber },
+  { key: 'ekuNumber', label: 'EKU No', kind: 'text', value: r => r.data.ekuNumber },
+  { key: 'paymentMethod', label: 'Ödeme Şekli', kind: 'text', value: r => r.data.paymentMethod },
+  { key: 'currency', label: 'Para Birimi', kind: 'text', value: r => r.data.currency },
+  { key: 'itemCount', label: 'Kalem Sayısı', kind: 'number', value: r => r.data.items?.length || 0 },
+  { key: 'subtotal', label: 'Ara Toplam', kind: 'money', value: r => r.data.subtotal },
+  { key: 'tax', label: 'Toplam KDV', kind: 'money', value: r => r.data.tax },
+  { key: 'total', label: 'Genel Toplam', kind: 'money', value: r => r.data.total },
+  { key: 'exchangeRate', label: 'Kur', kind: 'number', value: r => r.data.conversion?.rate },
+  { key: 'rateDate', label: 'Kur Tarihi', kind: 'date', value: r => r.data.conversion?.rateDate },
+  { key: 'subtotalTry', label: 'Ara Toplam (TL)', kind: 'money', value: r => amountInTry(r.data, r.data.subtotal) ?? undefined },
+  { key: 'taxTry', label: 'Toplam KDV (TL)', kind: 'money', value: r => amountInTry(r.data, r.data.tax) ?? undefined },
+  { key: 'totalTry', label: 'Genel Toplam (TL)', kind: 'money', value: r => amountInTry(r.data, r.data.total) ?? undefined },
+  { key: VAT_BREAKDOWN_KEY, label: 'KDV Dökümü (oran başına)', kind: 'money', value: () => undefined, expand: vatBreakdownColumns }
+];
+
+const ITEM_COLUMNS: ColumnDef<ExportItemRow>[] = [
+  { key: 'receiptId', label: 'Fiş Ref', kind: 'text', value: r => r.receipt.id },
+  { key: 'line', label: 'Sıra', kind: 'number', value: r => r.index + 1 },
+  { key: 'merchantName', label: 'İşyeri', kind: 'text', value: r => r.receipt.data.merchantName },
+  { key: 'date', label: 'Tarih', kind: 'date', value: r => r.receipt.data.date },
+  { key: 'invoiceNumber', label: 'Fiş No', kind: 'text', value: r => r.receipt.data.invoiceNumber },
+  { key: 'description', label: 'Açıklama', kind: 'text', value: r => r.item.description },
+  { key: 'category', label: 'Kategori', kind: 'text', value: r => r.item.category },
+  { key: 'quantity', label: 'Miktar', kind: 'number', value: r => r.item.quantity },
+  { key: 'unitPrice', label: 'Birim Fiyat', kind: 'money', value: r => r.item.unitPrice },
+  { key: 'vatRate', label: 'KDV %', kind: 'number', value: r => r.item.vatRate },
+  {
+    key: 'vatAmount', label: 'KDV Tutarı', kind: 'money', value: r => {
+      const rate = Number(r.item.vatRate) || 0;
+      return round2((Number(r.item.totalPrice) || 0) * rate / (100 + rate));
+    }
+  },
+  { key: 'totalPrice', label: 'Tutar', kind: 'money', value: r => r.item.totalPrice },
+  { key: 'currency', label: 'Para Birimi', kind: 'text', value: r => r.receipt.data.currency },
+  { key: 'totalPriceTry', label: 'Tutar (TL)', kind: 'money', value: r => amountInTry(r.receipt.data, r.item.totalPrice) ?? undefined }
+];
+
+const COLUMN_DEFS: { [S in ExportSheet]: ColumnDef<SheetRow[S]>[] } = {
+  receipts: RECEIPT_COLUMNS,
+  items: ITEM_COLUMNS
+};
+
+const SHEET_ROWS: { [S in ExportSheet]: (receipts: ExportReceipt[]) => SheetRow[S][] } = {
+  receipts: receipts => receipts,
+  items: receipts => receipts.flatMap(receipt => (receipt.data.items || []).map((item, index) => ({ receipt, item, index })))
+};
+
+// --- Column mapping (persisted) ---
+
+export const getDefaultExportMapping = (): ExportMapping => ({
+  receipts: RECEIPT_COLUMNS.map(c => ({ key: c.key, label: c.label, enabled: c.key !== 'fileName' })),
+  items: ITEM_COLUMNS.map(c => ({ key: c.key, label: c.label, enabled: c.key !== 'merchantName' && c.key !== 'date' }))
+});
+
+/**
+ * Keeps the saved order and labels, drops unknown keys and appends columns added since
+ */
+const mergeWithDefaults = (saved: ExportColumnSetting[] | undefined, defaults: ExportColumnSetting[]) => {
+  const known = (saved || []).filter(s => defaults.some(d => d.key === s.key));
+  const missing = defaults.filter(d => !known.some(s => s.key === d.key));
+  return [...known, ...missing];
+};
+
+export const loadExportMapping = (): ExportMapping => {
+  const defaults = getDefaultExportMapping();
+  try {
+    const raw = localStorage.getItem(EXPORT_MAPPING_KEY);
+    if (!raw) return defaults;
+    const saved = JSON.parse(raw) as Partial<ExportMapping>;
+    return {
+      receipts: mergeWithDefaults(saved.receipts, defaults.receipts),
+      items: mergeWithDefaults(saved.items, defaults.items)
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveExportMapping = (mapping: ExportMapping) => {
+  localStorage.setItem(EXPORT_MAPPING_KEY, JSON.stringify(mapping));
+};
+
+// --- Table building ---
+
+/**
+ * Printed breakdown when present, otherwise derived from the lines
+ */
+export const breakdownOf = (data: ReceiptData): TaxBreakdown[] =>
+  data.taxBreakdown && data.taxBreakdown.length > 0
+    ? data.taxBreakdown
+    : computeFinancials(data.items || []).taxBreakdown;
+
+const buildTable = <S extends ExportSheet>(sheet: S, receipts: ExportReceipt[], mapping: ExportMapping): ExportTable => {
+  const defs: ColumnDef<SheetRow[S]>[] = COLUMN_DEFS[sheet];
+  const columns = mapping[sheet]
+    .filter(setting => setting.enabled)
+    .flatMap(setting => {
+      const def = defs.find(d => d.key === setting.key);
+      if (!def) return [];
+      return def.expand ? def.expand(receipts) : [{ ...def, label: setting.label || def.label }];
+    });
+  const rows: SheetRow[S][] = SHEET_ROWS[sheet](receipts);
+
+  return {
+    headers: columns.map(column => column.label),
+    kinds: columns.map(column => column.kind),
+    rows: rows.map(row => columns.map(column => column.value(row)))
+  };
+};
+
+// --- CSV ---
+
+const formatTurkishNumber = (value: number, kind: CellKind) => new Intl.NumberFormat('tr-TR', {
+  minimumFractionDigits: kind === 'money' ? 2 : 0,
+  maximumFractionDigits: kind === 'money' ? 2 : 4 // Exchange rates have four decimals
+}).format(value);
+
+const formatCsvCell = (value: CellValue, kind: CellKind): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if ((kind === 'money' || kind === 'number') && !isNaN(Number(value))) {
+    return formatTurkishNumber(Number(value), kind);
+  }
+  if (kind === 'date') {
+    const match = String(value).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (match) return `${match[3]}.${match[2]}.${match[1]}`;
+  }
+  return String(value);
+};
+
+const escapeCsv = (text: string) =>
+  /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+/**
+ * Semicolon-separated with a UTF-8 BOM, which is what Excel expects in the tr-TR locale
+ */
+export const tableToCsv = (table: ExportTable): string => {
+  const lines = [
+    table.headers.map(escapeCsv).join(';'),
+    ...table.rows.map(row => row.map((value, i) => escapeCsv(formatCsvCell(value, table.kinds[i]))).join(';'))
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+export const receiptsToCsv = (sheet: ExportSheet, receipts: ExportReceipt[], mapping: ExportMapping): string =>
+  tableToCsv(buildTable(sheet, receipts, mapping));
+
+// --- XLSX (SpreadsheetML in a stored zip) ---
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // XML 1.0 forbids most control characters
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const toExcelDate = (iso: string): number | null => {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / 86400000 + 25569;
+};
+
+// Style indexes in styles.xml: 0 default, 1 header, 2 money, 3 date, 4 number
+const STYLE = { header: 1, money: 2, date: 3, number: 4 };
+
+const xlsxCell = (ref: string, value: CellValue, kind: CellKind): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if ((kind === 'money' || kind === 'number') && !isNaN(Number(value))) {
+    return `<c r="${ref}" s="${kind === 'money' ? STYLE.money : STYLE.number}"><v>${Number(value)}</v></c>`;
+  }
+  if (kind === 'date') {
+    const serial = toExcelDate(String(value));
+    if (serial !== null) return `<c r="${ref}" s="${STYLE.date}"><v>${serial}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const sheetXml = (table: ExportTable): string => {
+  const headerRow = `<row r="1">${table.headers.map((h, i) =>
+    `<c r="${columnName(i)}1" t="inlineStr" s="${STYLE.header}"><is><t>${escapeXml(h)}</t></is></c>`).join('')}</row>`;
+  const dataRows = table.rows.map((row, r) =>
+    `<row r="${r + 2}">${row.map((value, i) => xlsxCell(`${columnName(i)}${r + 2}`, value, table.kinds[i])).join('')}</row>`);
+  const cols = table.headers.map((h, i) =>
+    `<col min="${i + 1}" max="${i + 1}" width="${Math.min(40, Math.max(10, h.length + 4))}" customWidth="1"/>`).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + (cols ? `<cols>${cols}</cols>` : '')
+    + `<sheetData>${headerRow}${dataRows.join('')}</sheetData>`
+    + '</worksheet>';
+};
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<numFmts count="1"><numFmt numFmtId="164" formatCode="dd.mm.yyyy"/></numFmts>'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="5">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '</cellXfs>'
+  + '</styleSheet>';
+
+/**
+ * Numbers are stored as numbers with "#,##0.00", so Excel shows them in the user's (Turkish) locale
+ */
+export const tablesToXlsx = (sheets: { name: string; table: ExportTable }[]): Blob => {
+
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets>${sheets.map((s, i) => `<sheet name="${escapeXml(s.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>`
+    + '</workbook>';
+
+  const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+    + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+    + '</Relationships>';
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + '</Types>';
+
+  const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>';
+
+  const zip = createZip([
+    { path: '[Content_Types].xml', content: contentTypes },
+    { path: '_rels/.rels', content: rootRels },
+    { path: 'xl/workbook.xml', content: workbook },
+    { path: 'xl/_rels/workbook.xml.rels', content: workbookRels },
+    { path: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((sheet, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(sheet.table) }))
+  ]);
+
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+/**
+ * Two-sheet workbook: one row per receipt, and line items keyed by "Fiş Ref"
+ */
+export const receiptsToXlsx = (receipts: ExportReceipt[], mapping: ExportMapping): Blob =>
+  tablesToXlsx((['receipts', 'items'] as ExportSheet[]).map(sheet => ({
+    name: EXPORT_SHEET_LABELS[sheet],
+    table: buildTable(sheet, receipts, mapping)
+  })));
+
+// --- Download helpers ---
+
+export const exportFileName = (base: string, extension: string, date: Date = new Date()) => {
+  const stamp = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+  return `${base}-${stamp}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
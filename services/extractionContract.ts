@@ -0,0 +1,167 @@
+import { FieldConfidence, ReceiptData } from '../types';
+
+/**
+ * Provider-neutral extraction contract: every LLM backend gets the same
+ * instructions, prompt and JSON Schema, and must return JSON matching it.
+ */
+
+export const SYSTEM_INSTRUCTION = `
+You are an expert Turkish Fiscal Receipt (Mali Fiş) Parser AI.
+Your task is to take OCR Markdown text and extract structured data compliant with Turkish Receipt standards (VUK 507).
+
+Key Extraction Rules:
+1. **Merchant Details**: Look for company titles (A.Ş., Ltd. Şti.), addresses, "VN" (Vergi No), "VD" (Vergi Dairesi), "Mersis No".
+2. **Fiscal IDs**: Extract "Fiş No" (Receipt No), "Z No", "EKU No" (Mali Hafıza No), "Kasiyer" (Cashier).
+3. **VAT (KDV) Handling**:
+   - Identify the VAT rate (%1, %8, %10, %20) for EACH item.
+   - Extract the VAT Breakdown table usually found at the bottom (KDV, Matrah, Tutar).
+4. **Items**:
+   - Extract Description, Quantity, Unit Price, and Total Price.
+   - Clean up artifacts like "*" or "e" next to prices.
+   - **CALCULATION RULE**: If Unit Price is missing but Total Price exists, calculate it: Unit Price = Total Price / Quantity.
+   - **CALCULATION RULE**: If Quantity is missing, assume 1.
+5. **Totals & Math**:
+   - **IMPORTANT**: If "ARA TOPLAM" (Subtotal), "TOPLAM KDV" (Tax), or "GENEL TOPLAM" (Total) are missing or illegible, YOU MUST CALCULATE THEM based on the extracted items.
+   - Subtotal = Sum of all item prices before tax.
+   - Total = Subtotal + Tax.
+6. **Formatting**:
+   - Dates should be YYYY-MM-DD.
+   - Currency should be the ISO 4217 code of the printed currency (TRY for ₺/TL, EUR for €, USD for $); use TRY when none is printed.
+   - Missing fields should be empty string or null. Do NOT invent data like Merchant Name or Address if completely absent.
+
+7. **Corrections & Enhancements**:
+   - **Spell Check**: Correct obvious OCR typos in item descriptions or merchant names.
+     - "BUYOK MUKELLEFLER" -> "BÜYÜK MÜKELLEFLER"
+     - "VDB" -> "V.D."
+     - "BIM BIRLESIK" -> "BİM BİRLEŞİK"
+     - "MAGAZALAR" -> "MAĞAZALAR"
+     - "DOM4TES" -> "DOMATES"
+     - "MIGR0S" -> "MIGROS"
+
+8. **Confidence**:
+   - In "fieldConfidence", rate each extracted value from 0 to 1 with its field path (e.g. "total", "items[0].totalPrice").
+   - Use a high score only when the value is printed clearly; lower it for illegible, corrected, guessed or calculated values.
+9. **Categories**:
+   - Give each item an expense category. When a category list is provided, use exactly one of those names; discounts take the category of the item they reduce.
+
+Input text is raw OCR output, so it may have noise. Use context to correct obvious OCR errors.
+Respond with a single JSON object only.
+`;
+
+// Detailed JSON Schema for Turkish Receipts
+export const RECEIPT_SCHEMA = {
+  type: 'object',
+  properties: {
+    merchantName: { type: 'string' },
+    merchantAddress: { type: 'string' },
+    taxNumber: { type: 'string', description: 'Vergi No (VN) or TC Kimlik No' },
+    taxOffice: { type: 'string', description: 'Vergi Dairesi (VD)' },
+    sicilNumber: { type: 'string', description: 'Ticaret Sicil No' },
+    date: { type: 'string', description: 'YYYY-MM-DD' },
+    time: { type: 'string', description: 'HH:MM' },
+    invoiceNumber: { type: 'string', description: 'Fiş No or Fatura No' },
+    zNumber: { type: 'string', description: 'Z No' },
+    ekuNumber: { type: 'string', description: 'EKU No / Mali Hafıza No' },
+    cashier: { type: 'string', description: 'Kasiyer Name or ID' },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          quantity: { type: 'number' },
+          unitPrice: { type: 'number' },
+          totalPrice: { type: 'number' },
+          category: { type: 'string' },
+          vatRate: { type: 'number', description: 'VAT/KDV percentage (e.g. 1, 10, 20)' }
+        }
+      }
+    },
+    taxBreakdown: {
+      type: 'array',
+      description: 'Summary table of VAT rates, base amounts, and tax amounts',
+      items: {
+        type: 'object',
+        properties: {
+          rate: { type: 'number' },
+          base: { type: 'number', description: 'Matrah (Amount excluding tax)' },
+          amount: { type: 'number', description: 'Tax amount' }
+        }
+      }
+    },
+    subtotal: { type: 'number' },
+    tax: { type: 'number' },
+    total: { type: 'number' },
+    currency: { type: 'string', description: 'ISO 4217 code, e.g. TRY, EUR, USD' },
+    paymentMethod: { type: 'string' },
+    fieldConfidence: {
+      type: 'array',
+      description: 'Confidence (0-1) per extracted value',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string', description: 'Field path, e.g. total or items[0].totalPrice' },
+          confidence: { type: 'number' }
+        }
+      }
+    }
+  },
+  required: ['merchantName', 'items', 'total']
+};
+
+/**
+ * The schema with item categories limited to the user's taxonomy
+ */
+export const buildReceiptSchema = (categories: string[]) => {
+  if (categories.length === 0) return RECEIPT_SCHEMA;
+  const items = RECEIPT_SCHEMA.properties.items;
+  return {
+    ...RECEIPT_SCHEMA,
+    properties: {
+      ...RECEIPT_SCHEMA.properties,
+      items: {
+        ...items,
+        items: { ...items.items, properties: { ...items.items.properties, category: { type: 'string', enum: categories } } }
+      }
+    }
+  };
+};
+
+export const buildExtractionPrompt = (markdownText: string, categories: string[] = []) =>
+  (categories.length > 0 ? `Item categories (use exactly one of these per item): ${categories.join(', ')}\n\n` : '')
+  + `Extract detailed Turkish fiscal receipt data from this text:\n\n${markdownText}`;
+
+/**
+ * The model's fieldConfidence list as a map; some models answer in percent
+ */
+const readFieldConfidence = (list: unknown): Record<string, FieldConfidence> => {
+  const confidence: Record<string, FieldConfidence> = {};
+  if (!Array.isArray(list)) return confidence;
+  list.forEach(entry => {
+    const score = Number(entry?.confidence);
+    if (typeof entry?.field !== 'string' || !Number.isFinite(score)) return;
+    confidence[entry.field] = { confidence: Math.min(1, Math.max(0, score > 1 ? score / 100 : score)), source: 'llm' };
+  });
+  return confidence;
+};
+
+/**
+ * Parses a model reply into ReceiptData. Tolerates ```json fences and
+ * prose around the object, which smaller local models often add.
+ */
+export const parseExtractionJson = (text: string): ReceiptData => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('Model yanıtında JSON bulunamadı');
+
+  const parsed = JSON.parse(text.slice(start, end + 1));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Model yanıtı bir JSON nesnesi değil');
+  }
+  const { fieldConfidence, ...data } = parsed;
+  return {
+    ...data,
+    items: Array.isArray(data.items) ? data.items : [],
+    confidence: readFieldConfidence(fieldConfidence)
+  } as ReceiptData;
+};
@@ -0,0 +1,75 @@
+import { FieldConfidence, FieldSource, ReceiptData } from '../types';
+import { locateFields } from './sourceLocator';
+
+// Values below this are shaded for review
+export const LOW_CONFIDENCE = 0.7;
+
+export const FIELD_SOURCE_LABELS: Record<FieldSource, string> = {
+  ocr: 'OCR satırında bulundu',
+  llm: 'LLM çıkarımı',
+  computed: 'Kalemlerden hesaplandı',
+  fallback: 'Kural tabanlı tahmin'
+};
+
+// Set by recalculateFinancials for totals it fills from the items
+export const COMPUTED_CONFIDENCE: FieldConfidence = { confidence: 0.5, source: 'computed' };
+
+// A value found on an OCR line; the LLM's own score wins when it reported one
+const OCR_CONFIDENCE = 0.9;
+
+// Ceiling for values that match no OCR line (corrected, inferred or invented)
+const UNMATCHED_CONFIDENCE: Record<'llm' | 'fallback', number> = { llm: 0.6, fallback: 0.4 };
+
+const HEADER_FIELDS = ['merchantName', 'taxNumber', 'date', 'time', 'invoiceNumber', 'zNumber', 'subtotal', 'tax', 'total'] as const;
+const ITEM_FIELDS = ['description', 'totalPrice'] as const;
+
+const hasValue = (value: unknown) => typeof value === 'number' ? Number.isFinite(value) && value !== 0 : !!value;
+
+/**
+ * Field paths that get a score, with their current values
+ */
+const scoredValues = (data: ReceiptData): [string, unknown][] => [
+  ...HEADER_FIELDS.map((field): [string, unknown] => [field, data[field]]),
+  ...(data.items || []).flatMap((item, i) => ITEM_FIELDS.map((field): [string, unknown] => [`items[${i}].${field}`, item[field]]))
+];
+
+/**
+ * Scores every extracted value: found verbatim on an OCR line means "ocr",
+ * otherwise it is the parser's own reading and capped low. Scores the LLM
+ * reported (source "llm" in data.confidence) are kept as the starting point.
+ */
+export const scoreReceipt = (data: ReceiptData, markdown: string, parser: 'llm' | 'fallback'): ReceiptData => {
+  const locations = locateFields([{ index: 0, markdown, images: [], dimensions: null }], data);
+  const confidence: Record<string, FieldConfidence> = {};
+
+  scoredValues(data).forEach(([field, value]) => {
+    if (!hasValue(value)) return;
+    const reported = data.confidence?.[field]?.confidence;
+    confidence[field] = locations[field]
+      ? { confidence: reported ?? OCR_CONFIDENCE, source: 'ocr' }
+      : { confidence: Math.min(reported ?? 1, UNMATCHED_CONFIDENCE[parser]), source: parser };
+  });
+
+  return { ...data, confidence };
+};
+
+/**
+ * Manual edits are reviewed values: their scores are dropped so they stop being shaded
+ */
+export const markReviewed = (before: ReceiptData, after: ReceiptData): ReceiptData => {
+  if (!after.confidence) return after;
+  const previous = new Map(scoredValues(before));
+  const confidence = { ...after.confidence };
+  scoredValues(after).forEach(([field, value]) => {
+    if (previous.get(field) !== value) delete confidence[field];
+  });
+  return { ...after, confidence };
+};
+
+/**
+ * Fields whose value needs a look, in display order
+ */
+export const lowConfidenceFields = (data: ReceiptData): string[] =>
+  scoredValues(data)
+    .map(([field]) => field)
+    .filter(field => (data.confidence?.[field]?.confidence ?? 1) < LOW_CONFIDENCE);
@@ -0,0 +1,115 @@
+import { ScanRecord, OCRResult } from '../types';
+import { estimateParseCost } from './costService';
+
+const DB_NAME = 'fis-tarama';
+const DB_VERSION = 1;
+const SCANS_STORE = 'scans';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first run creates) the local history database
+ */
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SCANS_STORE)) {
+        const store = db.createObjectStore(SCANS_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wraps a single-store request in a promise
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SCANS_STORE, mode);
+    const request = run(tx.objectStore(SCANS_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createScanId = () => `rec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveScan = async (record: ScanRecord): Promise<ScanRecord> => {
+  await withStore('readwrite', store => store.put(record));
+  return record;
+};
+
+export const getScan = (id: string): Promise<ScanRecord | undefined> =>
+  withStore('readonly', store => store.get(id));
+
+/**
+ * All stored scans, newest first
+ */
+export const listScans = async (): Promise<ScanRecord[]> => {
+  const records = await withStore<ScanRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteScan = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+/**
+ * Applies a partial update and bumps updatedAt
+ */
+export const updateScan = async (id: string, patch: Partial<ScanRecord>): Promise<ScanRecord> => {
+  const existing = await getScan(id);
+  if (!existing) throw new Error(`Kayıt bulunamadı: ${id}`);
+  return saveScan({ ...existing, ...patch, id, updatedAt: new Date().toISOString() });
+};
+
+/**
+ * Builds a history record from a finished scan
+ */
+export const buildScanRecord = (
+  source: File | string,
+  name: string,
+  result: OCRResult,
+  ocrCost: number, // From the OCR provider (0 for local engines)
+  parserModel: string
+): ScanRecord => {
+  const now = new Date().toISOString();
+  const markdown = result.markdown || '';
+  const parsedJson = result.receiptData ? JSON.stringify(result.receiptData) : '';
+  const pages = result.usage.pages || 1;
+
+  return {
+    id: createScanId(),
+    name,
+    file: source instanceof File ? source : undefined,
+    fileType: source instanceof File ? source.type : undefined,
+    sourceUrl: typeof source === 'string' ? source : undefined,
+    markdown,
+    ocrJson: result.json,
+    receiptData: result.receiptData || null,
+    ocrModel: result.json?.model || 'unknown',
+    parserModel,
+    pages,
+    cost: ocrCost + estimateParseCost(markdown.length, parsedJson.length),
+    createdAt: now,
+    updatedAt: now
+  };
+};
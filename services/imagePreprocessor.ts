@@ -0,0 +1,380 @@
+import { PreprocessOptions } from '../types';
+
+const PREPROCESS_KEY = 'image_preprocess';
+
+// Thermal receipts are printed on 80 mm rolls; used to turn a DPI into a pixel width
+const RECEIPT_WIDTH_MM = 80;
+
+// Long side of the downscaled copy used for crop and skew detection
+const ANALYSIS_SIZE = 600;
+
+// Decoding cap; phone photos above this only cost memory
+const MAX_DECODE_SIZE = 4000;
+
+const MAX_SKEW_DEGREES = 10;
+
+export const DPI_OPTIONS = [0, 200, 300];
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: true,
+  autoRotate: true,
+  crop: true,
+  deskew: true,
+  contrast: true,
+  threshold: false, // Mistral reads grayscale better than hard black/white
+  targetDpi: 300
+};
+
+export interface PreprocessResult {
+  file: File;
+  width: number;
+  height: number;
+  skewAngle: number; // Degrees corrected, 0 when not deskewed
+  cropped: boolean;
+}
+
+export const loadPreprocessOptions = (): PreprocessOptions => {
+  try {
+    const raw = localStorage.getItem(PREPROCESS_KEY);
+    return raw ? { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(raw) } : DEFAULT_PREPROCESS_OPTIONS;
+  } catch {
+    return DEFAULT_PREPROCESS_OPTIONS;
+  }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions) => {
+  localStorage.setItem(PREPROCESS_KEY, JSON.stringify(options));
+};
+
+/**
+ * PDFs and remote URLs go to OCR untouched
+ */
+export const isPreprocessable = (source: File | string): source is File =>
+  source instanceof File && source.type.startsWith('image/');
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+export const context2d = (canvas: HTMLCanvasElement) => canvas.getContext('2d', { willReadFrequently: true })!;
+
+/**
+ * Luminance of every pixel of a canvas scaled to fit within maxSize
+ */
+export const readGray = (source: HTMLCanvasElement, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+  const canvas = createCanvas(source.width * scale, source.height * scale);
+  const ctx = context2d(canvas);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { gray, width: canvas.width, height: canvas.height, scale: canvas.width / source.width };
+};
+
+/**
+ * Global threshold separating dark and light pixels (Otsu)
+ */
+export const otsuThreshold = (gray: Uint8ClampedArray) => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = gray.length - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = i;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * Longest run of indexes whose value reaches the limit
+ */
+const longestRun = (values: number[], limit: number): [number, number] | null => {
+  let best: [number, number] | null = null;
+  let start = -1;
+  for (let i = 0; i <= values.length; i++) {
+    if (i < values.length && values[i] >= limit) {
+      if (start < 0) start = i;
+    } else if (start >= 0) {
+      if (!best || i - start > best[1] - best[0]) best = [start, i];
+      start = -1;
+    }
+  }
+  return best;
+};
+
+/**
+ * Bounding box of the paper: the largest block of rows, then columns, that are
+ * mostly brighter than the background. Null when no clear boundary is found.
+ */
+const findPaperBounds = (canvas: HTMLCanvasElement) => {
+  const { gray, width, height, scale } = readGray(canvas, ANALYSIS_SIZE);
+  const threshold = otsuThreshold(gray);
+
+  const rowFill = Array.from({ length: height }, (_, y) => {
+    let bright = 0;
+    for (let x = 0; x < width; x++) if (gray[y * width + x] > threshold) bright++;
+    return bright / width;
+  });
+  const rows = longestRun(rowFill, 0.3);
+  if (!rows) return null;
+
+  const colFill = Array.from({ length: width }, (_, x) => {
+    let bright = 0;
+    for (let y = rows[0]; y < rows[1]; y++) if (gray[y * width + x] > threshold) bright++;
+    return bright / (rows[1] - rows[0]);
+  });
+  const cols = longestRun(colFill, 0.5);
+  if (!cols) return null;
+
+  // Ignore boxes that are nearly the whole image or too small to be the receipt
+  const area = ((cols[1] - cols[0]) * (rows[1] - rows[0])) / (width * height);
+  if (area > 0.92 || area < 0.1) return null;
+
+  const margin = 4;
+  const x0 = Math.max(0, cols[0] - margin);
+  const y0 = Math.max(0, rows[0] - margin);
+  const x1 = Math.min(width, cols[1] + margin);
+  const y1 = Math.min(height, rows[1] + margin);
+  return { x: x0 / scale, y: y0 / scale, width: (x1 - x0) / scale, height: (y1 - y0) / scale };
+};
+
+/**
+ * Skew of the text lines in degrees (clockwise positive), by maximising the
+ * variance of the row projection of dark pixels over candidate angles.
+ */
+const detectSkew = (canvas: HTMLCanvasElement) => {
+  const { gray, width, height } = readGray(canvas, ANALYSIS_SIZE);
+  const threshold = otsuThreshold(gray);
+
+  const points: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] < threshold) points.push(x, y);
+    }
+  }
+  if (points.length < 200) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const bins = new Float64Array(diagonal * 2 + 1);
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (let i = 0; i < points.length; i += 2) {
+      bins[Math.round(points[i + 1] * cos - points[i] * sin) + diagonal]++;
+    }
+    let total = 0;
+    for (let i = 0; i < bins.length; i++) total += bins[i] * bins[i];
+    return total;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const value = score(angle);
+      if (value > bestScore) {
+        bestScore = value;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10;
+};
+
+/**
+ * Rotates by -degrees onto a white canvas large enough for the result
+ */
+const rotate = (source: HTMLCanvasElement, degrees: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const canvas = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos);
+  const ctx = context2d(canvas);
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(-radians);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+const cropTo = (source: HTMLCanvasElement, box: { x: number; y: number; width: number; height: number }) => {
+  const canvas = createCanvas(box.width, box.height);
+  context2d(canvas).drawImage(source, box.x, box.y, box.width, box.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const resize = (source: HTMLCanvasElement, scale: number) => {
+  const canvas = createCanvas(source.width * scale, source.height * scale);
+  const ctx = context2d(canvas);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Grayscale, then stretch the 1st-99th luminance percentiles to full range
+ * (lifts faded thermal print and flattens mild shadows)
+ */
+const enhanceContrast = (canvas: HTMLCanvasElement) => {
+  const ctx = context2d(canvas);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const pixelCount = canvas.width * canvas.height;
+
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    data[i] = data[i + 1] = data[i + 2] = luminance;
+    histogram[luminance]++;
+  }
+
+  const percentile = (fraction: number) => {
+    let count = 0;
+    for (let i = 0; i < 256; i++) {
+      count += histogram[i];
+      if (count >= pixelCount * fraction) return i;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = percentile(0.99);
+  if (high - low < 10) return;
+
+  const factor = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = (data[i] - low) * factor;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * Bradley-Roth adaptive threshold: a pixel is ink when it is clearly darker
+ * than the mean of its neighbourhood, so shadows do not turn into black blocks.
+ */
+const adaptiveThreshold = (canvas: HTMLCanvasElement) => {
+  const { width, height } = canvas;
+  const ctx = context2d(canvas);
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+
+  const integral = new Uint32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      rowSum += Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(7, Math.round(width / 32));
+  const sensitivity = 0.15;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+
+      const i = (y * width + x) * 4;
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      data[i] = data[i + 1] = data[i + 2] = luminance < mean * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+const toFile = (canvas: HTMLCanvasElement, name: string, binary: boolean) =>
+  new Promise<File>((resolve, reject) => {
+    // Black/white compresses best as PNG; grayscale photos as JPEG
+    const type = binary ? 'image/png' : 'image/jpeg';
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('Görüntü kodlanamadı'));
+      const baseName = name.replace(/\.[^.]+$/, '');
+      resolve(new File([blob], `${baseName}.${binary ? 'png' : 'jpg'}`, { type }));
+    }, type, 0.9);
+  });
+
+/**
+ * EXIF rotation -> paper crop -> deskew -> downscale -> contrast -> threshold.
+ * Each step can be turned off; the result is a new image File for OCR.
+ */
+export const preprocessImage = async (file: File, options: PreprocessOptions): Promise<PreprocessResult> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: options.autoRotate ? 'from-image' : 'none' });
+  } catch {
+    throw new Error('Görüntü okunamadı; dosya bozuk veya desteklenmeyen biçimde olabilir.');
+  }
+
+  const decodeScale = Math.min(1, MAX_DECODE_SIZE / Math.max(bitmap.width, bitmap.height));
+  let canvas = createCanvas(bitmap.width * decodeScale, bitmap.height * decodeScale);
+  context2d(canvas).drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  let cropped = false;
+  if (options.crop) {
+    const bounds = findPaperBounds(canvas);
+    if (bounds) {
+      canvas = cropTo(canvas, bounds);
+      cropped = true;
+    }
+  }
+
+  let skewAngle = 0;
+  if (options.deskew) {
+    skewAngle = detectSkew(canvas);
+    if (Math.abs(skewAngle) >= 0.3) canvas = rotate(canvas, skewAngle);
+    else skewAngle = 0;
+  }
+
+  // Assumes the image is (mostly) the paper width; never upscales
+  if (options.targetDpi > 0) {
+    const targetWidth = (options.targetDpi * RECEIPT_WIDTH_MM) / 25.4;
+    if (canvas.width > targetWidth) canvas = resize(canvas, targetWidth / canvas.width);
+  }
+
+  if (options.contrast) enhanceContrast(canvas);
+  if (options.threshold) adaptiveThreshold(canvas);
+
+  return {
+    file: await toFile(canvas, file.name, options.threshold),
+    width: canvas.width,
+    height: canvas.height,
+    skewAngle,
+    cropped
+  };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ExportReceipt, JournalEntry, ReceiptData } from '../types';
+import { DEFAULT_ACCOUNT_MAPPING, buildJournal, buildJournalEntry, resolvePaymentKind } from './journalService';
+
+const receipt = (patch: Partial<ReceiptData> = {}): ExportReceipt => ({
+  id: 'r1',
+  name: 'fis.jpg',
+  data: {
+    merchantName: 'STUB MARKET',
+    merchantAddress: '',
+    taxNumber: '1234567890',
+    taxOffice: '',
+    date: '2025-01-01',
+    time: '12:00',
+    invoiceNumber: '0001',
+    items: [
+      { description: 'EKMEK', quantity: 1, unitPrice: 10, totalPrice: 10, vatRate: 1 },
+      { description: 'DETERJAN', quantity: 1, unitPrice: 99.99, totalPrice: 99.99, vatRate: 20 }
+    ],
+    subtotal: 93.23,
+    tax: 16.76,
+    total: 109.99,
+    totalInWords: '',
+    currency: 'TRY',
+    paymentMethod: 'NAKİT',
+    ...patch
+  }
+});
+
+const sums = (entry: JournalEntry) => ({
+  debit: Number(entry.lines.reduce((acc, l) => acc + l.debit, 0).toFixed(2)),
+  credit: Number(entry.lines.reduce((acc, l) => acc + l.credit, 0).toFixed(2))
+});
+
+describe('resolvePaymentKind', () => {
+  it('maps payment methods to account kinds', () => {
+    expect(resolvePaymentKind('NAKİT')).toBe('cash');
+    expect(resolvePaymentKind('BANKA KARTI')).toBe('bankCard');
+    expect(resolvePaymentKind('KREDİ KARTI')).toBe('creditCard');
+    expect(resolvePaymentKind('')).toBe('supplier');
+  });
+});
+
+describe('buildJournalEntry', () => {
+  it('balances debit and credit at the receipt total', () => {
+    const entry = buildJournalEntry(receipt(), DEFAULT_ACCOUNT_MAPPING);
+    expect(sums(entry)).toEqual({ debit: 109.99, credit: 109.99 });
+    expect(entry.lines.at(-1)).toMatchObject({ account: '100.01', credit: 109.99 });
+    expect(entry.lines.filter(l => l.account.startsWith('191')).map(l => l.account)).toEqual(['191.01', '191.20']);
+  });
+
+  it('credits 102 Bankalar for debit cards', () => {
+    const entry = buildJournalEntry(receipt({ paymentMethod: 'BANKA KARTI' }), DEFAULT_ACCOUNT_MAPPING);
+    expect(entry.lines.at(-1)?.account).toBe('102.01');
+  });
+
+  it('posts foreign receipts in TRY at their rate, still balanced', () => {
+    const conversion = { rate: 36.5, rateDate: '2025-01-01', source: 'today.xml', subtotal: 0, tax: 0, total: 0 };
+    const entry = buildJournalEntry(receipt({ currency: 'EUR', conversion }), DEFAULT_ACCOUNT_MAPPING);
+    const { debit, credit } = sums(entry);
+    expect(credit).toBe(Number((109.99 * 36.5).toFixed(2)));
+    expect(debit).toBe(credit);
+  });
+
+  it('carries the currency, rate and original amounts of foreign receipts', () => {
+    const conversion = { rate: 36.5, rateDate: '2025-01-01', source: 'today.xml', subtotal: 0, tax: 0, total: 0 };
+    const entry = buildJournalEntry(receipt({ currency: 'EUR', conversion }), DEFAULT_ACCOUNT_MAPPING);
+    expect(entry).toMatchObject({ currency: 'EUR', exchangeRate: 36.5 });
+    expect(entry.lines.at(-1)?.foreignAmount).toBe(109.99);
+    const foreignDebits = entry.lines.filter(l => l.debit > 0).reduce((acc, l) => acc + (l.foreignAmount || 0), 0);
+    expect(Number(foreignDebits.toFixed(2))).toBe(109.99);
+  });
+
+  it('leaves the original amounts off TRY receipts', () => {
+    const entry = buildJournalEntry(receipt(), DEFAULT_ACCOUNT_MAPPING);
+    expect(entry).toMatchObject({ currency: 'TRY', exchangeRate: 1 });
+    expect(entry.lines.every(l => l.foreignAmount === undefined)).toBe(true);
+  });
+
+  it('refuses foreign receipts without a rate', () => {
+    expect(() => buildJournalEntry(receipt({ currency: 'EUR' }), DEFAULT_ACCOUNT_MAPPING)).toThrow();
+  });
+});
+
+describe('buildJournal', () => {
+  it('leaves out foreign receipts without a rate', () => {
+    const entries = buildJournal([receipt(), { ...receipt({ currency: 'USD' }), id: 'r2' }], DEFAULT_ACCOUNT_MAPPING);
+    expect(entries.map(e => e.receiptId)).toEqual(['r1']);
+  });
+});
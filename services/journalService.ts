@@ -0,0 +1,312 @@
+import { AccountMapping, ExportReceipt, JournalEntry, JournalFormat, JournalLine, PaymentAccountKind, ReceiptData } from '../types';
+import { computeFinancials } from './receiptMath';
+import { ExportTable, tableToCsv, tablesToXlsx } from './exportService';
+import { BASE_CURRENCY, formatAmount, formatRate, normalizeCurrency, tryRateOf } from './currencyService';
+
+const ACCOUNT_MAPPING_KEY = 'journal_account_mapping';
+
+export const DEFAULT_ACCOUNT_MAPPING: AccountMapping = {
+  defaultExpenseAccount: '770.01',
+  categoryAccounts: {},
+  vatAccounts: {
+    '1': '191.01',
+    '8': '191.08',
+    '10': '191.10',
+    '18': '191.18',
+    '20': '191.20'
+  },
+  paymentAccounts: {
+    cash: '100.01',
+    bankCard: '102.01',
+    creditCard: '300.01',
+    supplier: '320.01'
+  }
+};
+
+export const PAYMENT_ACCOUNT_LABELS: Record<PaymentAccountKind, string> = {
+  cash: 'Nakit',
+  bankCard: 'Banka Kartı',
+  creditCard: 'Kredi Kartı',
+  supplier: 'Veresiye / Havale'
+};
+
+// Tekdüzen Hesap Planı main accounts, used for the account name column
+const ACCOUNT_NAMES: Record<string, string> = {
+  '100': 'Kasa',
+  '102': 'Bankalar',
+  '191': 'İndirilecek KDV',
+  '300': 'Banka Kredileri',
+  '320': 'Satıcılar',
+  '740': 'Hizmet Üretim Maliyeti',
+  '750': 'Araştırma ve Geliştirme Giderleri',
+  '760': 'Pazarlama Satış ve Dağıtım Giderleri',
+  '770': 'Genel Yönetim Giderleri',
+  '780': 'Finansman Giderleri'
+};
+
+export const JOURNAL_FORMAT_LABELS: Record<JournalFormat, string> = {
+  csv: 'CSV',
+  logo: 'Logo (XML)',
+  mikro: 'Mikro (CSV)',
+  luca: 'Luca (Excel)'
+};
+
+const round2 = (n: number) => Number(n.toFixed(2));
+
+export const accountName = (code: string) => ACCOUNT_NAMES[code.slice(0, 3)] || '';
+
+// --- Mapping persistence ---
+
+export const loadAccountMapping = (): AccountMapping => {
+  try {
+    const raw = localStorage.getItem(ACCOUNT_MAPPING_KEY);
+    if (!raw) return DEFAULT_ACCOUNT_MAPPING;
+    const saved = JSON.parse(raw) as Partial<AccountMapping>;
+    return {
+      defaultExpenseAccount: saved.defaultExpenseAccount || DEFAULT_ACCOUNT_MAPPING.defaultExpenseAccount,
+      categoryAccounts: { ...saved.categoryAccounts },
+      vatAccounts: { ...DEFAULT_ACCOUNT_MAPPING.vatAccounts, ...saved.vatAccounts },
+      paymentAccounts: { ...DEFAULT_ACCOUNT_MAPPING.paymentAccounts, ...saved.paymentAccounts }
+    };
+  } catch {
+    return DEFAULT_ACCOUNT_MAPPING;
+  }
+};
+
+export const saveAccountMapping = (mapping: AccountMapping) => {
+  localStorage.setItem(ACCOUNT_MAPPING_KEY, JSON.stringify(mapping));
+};
+
+// --- Posting rules ---
+
+/**
+ * NAKİT -> Kasa, BANKA KARTI -> Bankalar, KREDİ KARTI -> Banka Kredileri, else Satıcılar
+ */
+export const resolvePaymentKind = (paymentMethod?: string): PaymentAccountKind => {
+  const method = (paymentMethod || '').toLocaleUpperCase('tr-TR');
+  if (/NAK[İI]T/.test(method)) return 'cash';
+  if (/BANKA KART|DEB[İI]T/.test(method)) return 'bankCard';
+  if (/KRED[İI]|KART/.test(method)) return 'creditCard';
+  return 'supplier';
+};
+
+const defaultExpenseAccount = (mapping: AccountMapping) =>
+  mapping.defaultExpenseAccount || DEFAULT_ACCOUNT_MAPPING.defaultExpenseAccount;
+
+const expenseAccountFor = (category: string | undefined, mapping: AccountMapping) =>
+  (category && mapping.categoryAccounts[category]) || defaultExpenseAccount(mapping);
+
+const vatAccountFor = (rate: number, mapping: AccountMapping) =>
+  mapping.vatAccounts[String(rate)] || '191';
+
+interface DraftLine {
+  account: string;
+  description: string;
+  amount: number;
+  expense: boolean;
+}
+
+/**
+ * Rounded debits adding up to the rounded total. The difference goes to the
+ * largest expense line, or to an extra expense line (`extra`) when there is none.
+ */
+const roundDebits = (drafts: DraftLine[], total: number): { debits: number[]; extra: number } => {
+  const debits = drafts.map(d => round2(d.amount));
+  const difference = round2(round2(total) - round2(debits.reduce((acc, d) => acc + d, 0)));
+  const largest = drafts.reduce((best, d, i) => (d.expense && (best < 0 || debits[i] > debits[best]) ? i : best), -1);
+  if (largest < 0) return { debits, extra: difference };
+  debits[largest] = round2(debits[largest] + difference);
+  return { debits, extra: 0 };
+};
+
+/**
+ * One balanced entry per receipt:
+ *   Borç  770.xx per category (net of KDV)
+ *   Borç  191.xx per KDV rate
+ *   Alacak payment account for the receipt total
+ * Rounding differences are absorbed by the largest expense line. Foreign-currency
+ * receipts post in TRY at their conversion rate; one without a rate is refused.
+ */
+export const buildJournalEntry = (receipt: ExportReceipt, mapping: AccountMapping): JournalEntry => {
+  const data: ReceiptData = receipt.data;
+  const documentNumber = data.invoiceNumber || receipt.id;
+  const rate = tryRateOf(data);
+  if (rate === null) throw new Error(`${receipt.name}: ${normalizeCurrency(data.currency)} kuru bulunamadı, yevmiyeye alınamaz`);
+  const foreign = data.conversion
+    ? `${formatAmount(data.total, data.currency)} ${normalizeCurrency(data.currency)} x ${formatRate(data.conversion.rate)}`
+    : '';
+  const description = [data.merchantName, data.invoiceNumber && `Fiş No ${data.invoiceNumber}`, foreign].filter(Boolean).join(' - ');
+
+  // Expense lines: item nets grouped by mapped account, in the receipt's currency
+  const expenses = new Map<string, number>();
+  (data.items || []).forEach(item => {
+    const vatRate = Number(item.vatRate) || 0;
+    const net = (Number(item.totalPrice) || 0) / (1 + vatRate / 100);
+    const account = expenseAccountFor(item.category, mapping);
+    expenses.set(account, (expenses.get(account) || 0) + net);
+  });
+
+  // KDV lines: printed breakdown when present, otherwise derived from the items
+  const breakdown = data.taxBreakdown && data.taxBreakdown.length > 0
+    ? data.taxBreakdown
+    : computeFinancials(data.items || []).taxBreakdown;
+
+  const drafts: DraftLine[] = [];
+  expenses.forEach((amount, account) => {
+    drafts.push({ account, description, amount, expense: true });
+  });
+  breakdown
+    .filter(tx => Number(tx.amount) !== 0)
+    .sort((a, b) => a.rate - b.rate)
+    .forEach(tx => {
+      drafts.push({ account: vatAccountFor(Number(tx.rate), mapping), description: `${description} KDV %${tx.rate}`, amount: Number(tx.amount), expense: false });
+    });
+
+  const receiptTotal = Number(data.total) || 0;
+  const total = round2(receiptTotal * rate);
+  const isForeign = normalizeCurrency(data.currency) !== BASE_CURRENCY;
+  const inTry = roundDebits(drafts.map(d => ({ ...d, amount: d.amount * rate })), total);
+  const inCurrency = roundDebits(drafts, receiptTotal);
+
+  const lines: JournalLine[] = drafts.map((draft, i) => ({
+    account: draft.account,
+    description: draft.description,
+    debit: inTry.debits[i],
+    credit: 0,
+    ...(isForeign && { foreignAmount: inCurrency.debits[i] })
+  }));
+  if (inTry.extra !== 0 || inCurrency.extra !== 0) {
+    lines.unshift({
+      account: defaultExpenseAccount(mapping),
+      description,
+      debit: inTry.extra,
+      credit: 0,
+      ...(isForeign && { foreignAmount: inCurrency.extra })
+    });
+  }
+
+  const paymentKind = resolvePaymentKind(data.paymentMethod);
+  lines.push({
+    account: mapping.paymentAccounts[paymentKind] || DEFAULT_ACCOUNT_MAPPING.paymentAccounts[paymentKind],
+    description,
+    debit: 0,
+    credit: total,
+    ...(isForeign && { foreignAmount: round2(receiptTotal) })
+  });
+
+  return {
+    receiptId: receipt.id,
+    date: data.date,
+    documentNumber,
+    description,
+    currency: normalizeCurrency(data.currency),
+    exchangeRate: rate,
+    // Net-negative expense accounts (e.g. mapped discounts) post on the credit side
+    lines: lines.map(line => line.debit < 0
+      ? { ...line, debit: 0, credit: -line.debit, ...(line.foreignAmount !== undefined && { foreignAmount: -line.foreignAmount }) }
+      : line)
+  };
+};
+
+/**
+ * Foreign-currency receipts with no TRY rate for their date; the journal leaves them out
+ */
+export const unconvertedReceipts = (receipts: ExportReceipt[]): ExportReceipt[] =>
+  receipts.filter(receipt => tryRateOf(receipt.data) === null);
+
+export const buildJournal = (receipts: ExportReceipt[], mapping: AccountMapping): JournalEntry[] =>
+  receipts
+    .filter(receipt => tryRateOf(receipt.data) !== null)
+    .map(receipt => buildJournalEntry(receipt, mapping));
+
+// --- Output formats ---
+
+const toTurkishDate = (iso: string) => {
+  const match = (iso || '').match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? `${match[3]}.${match[2]}.${match[1]}` : iso;
+};
+
+const escapeXml = (text: string) => String(text ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const genericTable = (entries: JournalEntry[]): ExportTable => ({
+  headers: ['Fiş Ref', 'Tarih', 'Evrak No', 'Hesap Kodu', 'Hesap Adı', 'Açıklama', 'Borç', 'Alacak'],
+  kinds: ['text', 'date', 'text', 'text', 'text', 'text', 'money', 'money'],
+  rows: entries.flatMap(entry => entry.lines.map(line => [
+    entry.receiptId, entry.date, entry.documentNumber, line.account, accountName(line.account), line.description, line.debit, line.credit
+  ]))
+});
+
+// Mikro "Muhasebe Fişi" Excel/CSV transfer layout
+const mikroTable = (entries: JournalEntry[]): ExportTable => ({
+  headers: ['Fiş Tarihi', 'Fiş Sıra No', 'Hesap Kodu', 'Açıklama', 'Borç', 'Alacak', 'Belge No', 'Belge Tarihi'],
+  kinds: ['date', 'number', 'text', 'text', 'money', 'money', 'text', 'date'],
+  rows: entries.flatMap((entry, i) => entry.lines.map(line => [
+    entry.date, i + 1, line.account, line.description, line.debit, line.credit, entry.documentNumber, entry.date
+  ]))
+});
+
+// Luca "Fiş Aktarımı" Excel template
+const lucaTable = (entries: JournalEntry[]): ExportTable => ({
+  headers: ['Fiş No', 'Fiş Tarihi', 'Fiş Açıklama', 'Hesap Kodu', 'Evrak No', 'Evrak Tarihi', 'Detay Açıklama', 'Borç', 'Alacak', 'Miktar', 'Belge Tr', 'Para Birimi', 'Kur', 'Döviz Tutar'],
+  kinds: ['number', 'date', 'text', 'text', 'text', 'date', 'text', 'money', 'money', 'number', 'text', 'text', 'number', 'money'],
+  rows: entries.flatMap((entry, i) => entry.lines.map(line => [
+    i + 1, entry.date, entry.description, line.account, entry.documentNumber, entry.date, line.description,
+    line.debit, line.credit, undefined, 'FİŞ',
+    // Currency columns stay empty for TRY receipts
+    line.foreignAmount === undefined ? undefined : entry.currency,
+    line.foreignAmount === undefined ? undefined : entry.exchangeRate,
+    line.foreignAmount
+  ]))
+});
+
+/**
+ * Logo Tiger/GO accounting slip (muhasebe fişi) XML transfer file, one mahsup slip per receipt
+ */
+const logoXml = (entries: JournalEntry[]): string => {
+  const slips = entries.map(entry => {
+    const totalDebit = round2(entry.lines.reduce((acc, l) => acc + l.debit, 0));
+    const totalCredit = round2(entry.lines.reduce((acc, l) => acc + l.credit, 0));
+    const transactions = entry.lines.map(line => {
+      const isCredit = line.credit > 0;
+      return '      <TRANSACTION>\n'
+        + `        <ACCOUNT_CODE>${escapeXml(line.account)}</ACCOUNT_CODE>\n`
+        + `        <SIGN>${isCredit ? 1 : 0}</SIGN>\n`
+        + (isCredit ? `        <CREDIT>${line.credit.toFixed(2)}</CREDIT>\n` : `        <DEBIT>${line.debit.toFixed(2)}</DEBIT>\n`)
+        + `        <LINE_EXP>${escapeXml(line.description)}</LINE_EXP>\n`
+        + `        <DOC_NUMBER>${escapeXml(entry.documentNumber)}</DOC_NUMBER>\n`
+        + '      </TRANSACTION>';
+    }).join('\n');
+
+    return '  <SLIP DBOP="INS">\n'
+      + '    <TYPE>4</TYPE>\n'
+      + '    <NUMBER>~</NUMBER>\n'
+      + `    <DATE>${toTurkishDate(entry.date)}</DATE>\n`
+      + `    <NOTES1>${escapeXml(entry.description)}</NOTES1>\n`
+      + `    <DOC_NUMBER>${escapeXml(entry.documentNumber)}</DOC_NUMBER>\n`
+      + `    <TOTAL_DEBIT>${totalDebit.toFixed(2)}</TOTAL_DEBIT>\n`
+      + `    <TOTAL_CREDIT>${totalCredit.toFixed(2)}</TOTAL_CREDIT>\n`
+      + '    <TRANSACTIONS>\n'
+      + transactions + '\n'
+      + '    </TRANSACTIONS>\n'
+      + '  </SLIP>';
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<ACCOUNTING_SLIPS>\n${slips}\n</ACCOUNTING_SLIPS>\n`;
+};
+
+export const exportJournal = (entries: JournalEntry[], format: JournalFormat): { blob: Blob; extension: string } => {
+  switch (format) {
+    case 'logo':
+      return { blob: new Blob([logoXml(entries)], { type: 'application/xml' }), extension: 'xml' };
+    case 'mikro':
+      return { blob: new Blob([tableToCsv(mikroTable(entries))], { type: 'text/csv;charset=utf-8' }), extension: 'csv' };
+    case 'luca':
+      return { blob: tablesToXlsx([{ name: 'Fiş', table: lucaTable(entries) }]), extension: 'xlsx' };
+    default:
+      return { blob: new Blob([tableToCsv(genericTable(entries))], { type: 'text/csv;charset=utf-8' }), extension: 'csv' };
+  }
+};
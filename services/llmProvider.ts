@@ -0,0 +1,165 @@
+import { CategorySettings, ExchangeRate, LlmProviderId, LlmSettings, ReceiptData } from '../types';
+import { recalculateFinancials, applyTotalInWords } from './receiptMath';
+import { applyTaxIdCheck } from './taxIdService';
+import { scoreReceipt } from './fieldConfidence';
+import { DEFAULT_CATEGORY_SETTINGS, categorizeReceipt } from './categoryService';
+import { applyCurrency, convertReceipt } from './currencyService';
+import { parseReceiptText } from './receiptParser';
+import { GEMINI_MODEL, GEMINI_MODELS, extractWithGemini, isGeminiConfigured } from './geminiService';
+import { OPENAI_DEFAULT_BASE_URL, extractWithOpenAi, listOpenAiModels } from './openAiService';
+import { OLLAMA_DEFAULT_BASE_URL, extractWithOllama, listOllamaModels } from './ollamaService';
+import { PROXY_ENABLED } from './proxyService';
+
+const LLM_SETTINGS_KEY = 'llm_parser_settings';
+// API keys live for the tab session unless the user opts in to remembering them
+const LLM_API_KEY_SESSION_KEY = 'llm_parser_api_key';
+
+// With the proxy the keys belong on the server, so the browser never persists one
+export const CAN_REMEMBER_API_KEY = !PROXY_ENABLED;
+
+export const OFFLINE_PARSER_MODEL = 'regex-fallback';
+
+/**
+ * An LLM backend for the extraction contract in extractionContract.ts
+ */
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  defaults: Omit<LlmSettings, 'provider'>;
+  usesBaseUrl: boolean;
+  isConfigured: (settings: LlmSettings) => boolean;
+  isSelfHosted: (settings: LlmSettings) => boolean; // Receipt text stays on infrastructure we run
+  extract: (markdownText: string, settings: LlmSettings, categories: string[]) => Promise<ReceiptData>;
+  listModels: (settings: LlmSettings) => Promise<string[]>;
+}
+
+/**
+ * localhost, private IPv4 ranges and .local / .internal hosts
+ */
+const isPrivateHost = (baseUrl: string) => {
+  try {
+    const host = new URL(baseUrl).hostname;
+    return host === 'localhost'
+      || host === '[::1]'
+      || /^(127|10)\./.test(host)
+      || /^192\.168\./.test(host)
+      || /^172\.(1[6-9]|2\d|3[01])\./.test(host)
+      || /\.(local|internal|lan)$/.test(host);
+  } catch {
+    return false;
+  }
+};
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Gemini',
+    defaults: { model: GEMINI_MODEL, baseUrl: '', apiKey: '' },
+    usesBaseUrl: false,
+    isConfigured: isGeminiConfigured,
+    isSelfHosted: () => false,
+    extract: extractWithGemini,
+    listModels: async () => GEMINI_MODELS
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI Uyumlu',
+    defaults: { model: 'gpt-4o-mini', baseUrl: OPENAI_DEFAULT_BASE_URL, apiKey: '' },
+    usesBaseUrl: true,
+    // Self-hosted servers usually run without a key
+    isConfigured: settings => !!settings.model && (!!settings.apiKey || isPrivateHost(settings.baseUrl)),
+    isSelfHosted: settings => isPrivateHost(settings.baseUrl),
+    extract: extractWithOpenAi,
+    listModels: listOpenAiModels
+  },
+  ollama: {
+    id: 'ollama',
+    label: 'Ollama',
+    defaults: { model: 'qwen2.5:7b', baseUrl: OLLAMA_DEFAULT_BASE_URL, apiKey: '' },
+    usesBaseUrl: true,
+    isConfigured: settings => !!settings.model,
+    isSelfHosted: () => true,
+    extract: extractWithOllama,
+    listModels: listOllamaModels
+  }
+};
+
+export const defaultLlmSettings = (provider: LlmProviderId): LlmSettings => ({
+  provider,
+  ...LLM_PROVIDERS[provider].defaults
+});
+
+/**
+ * Settings with the session key; a key left in localStorage without opt-in
+ * (older versions always saved it) moves to the session and is wiped
+ */
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const raw = localStorage.getItem(LLM_SETTINGS_KEY);
+    const sessionKey = sessionStorage.getItem(LLM_API_KEY_SESSION_KEY) || '';
+    if (!raw) return { ...defaultLlmSettings('gemini'), apiKey: sessionKey };
+    const saved = JSON.parse(raw) as Partial<LlmSettings>;
+    const provider = saved.provider && saved.provider in LLM_PROVIDERS ? saved.provider : 'gemini';
+    const settings: LlmSettings = { ...defaultLlmSettings(provider), ...saved, provider, apiKey: sessionKey || saved.apiKey || '' };
+    if (saved.apiKey && !(saved.rememberApiKey && CAN_REMEMBER_API_KEY)) saveLlmSettings(settings);
+    return settings;
+  } catch {
+    return defaultLlmSettings('gemini');
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  const remember = !!settings.rememberApiKey && CAN_REMEMBER_API_KEY;
+  localStorage.setItem(LLM_SETTINGS_KEY, JSON.stringify(remember ? settings : { ...settings, apiKey: '' }));
+  if (settings.apiKey) sessionStorage.setItem(LLM_API_KEY_SESSION_KEY, settings.apiKey);
+  else sessionStorage.removeItem(LLM_API_KEY_SESSION_KEY);
+};
+
+/**
+ * Settings to parse with, or null for the offline parser. Local OCR keeps
+ * the document on the device, so only a self-hosted model may see its text.
+ */
+export const resolveParserSettings = (settings: LlmSettings, localOnly: boolean): LlmSettings | null => {
+  const provider = LLM_PROVIDERS[settings.provider];
+  if (!provider.isConfigured(settings)) return null;
+  if (localOnly && !provider.isSelfHosted(settings)) return null;
+  return settings;
+};
+
+/**
+ * Post-processing shared by every backend and the fallback path: score each
+ * field against the OCR text, fill missing totals, settle the currency code,
+ * write the amount in words, checksum the VKN/TCKN.
+ */
+const finalizeReceipt = (data: ReceiptData, markdownText: string, parser: 'llm' | 'fallback'): ReceiptData =>
+  applyTaxIdCheck(applyTotalInWords(applyCurrency(recalculateFinancials(scoreReceipt(data, markdownText, parser)), markdownText)));
+
+/**
+ * Extracts receipt data with the given backend; falls back to the
+ * rule-based parser when no backend is set or the call fails. Category
+ * rules run last, so every item ends up in the taxonomy; foreign-currency
+ * totals are converted to TRY with the imported rate table.
+ */
+export const parseReceipt = async (
+  markdownText: string,
+  settings: LlmSettings | null,
+  categories: CategorySettings = DEFAULT_CATEGORY_SETTINGS,
+  rates: ExchangeRate[] = []
+): Promise<ReceiptData> => {
+  const complete = (data: ReceiptData, parser: 'llm' | 'fallback') =>
+    convertReceipt(categorizeReceipt(finalizeReceipt(data, markdownText, parser), categories), rates);
+
+  if (!settings) {
+    return complete(parseReceiptText(markdownText), 'fallback');
+  }
+
+  try {
+    const parsedData = await LLM_PROVIDERS[settings.provider].extract(markdownText, settings, categories.categories);
+
+    // ENFORCE CALCULATION: Fix 0.00 issues by recalculating based on items
+    return complete(parsedData, 'llm');
+  } catch (error) {
+    console.error(`${LLM_PROVIDERS[settings.provider].label} Parse Error:`, error);
+    return complete(parseReceiptText(markdownText), 'fallback');
+  }
+};
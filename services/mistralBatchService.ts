@@ -0,0 +1,246 @@
+import { PROXY_ENABLED, PROXY_BASE } from './proxyService';
+
+// Through the proxy the server adds the key and pins the OCR endpoint and model, so batch calls need no key here
+export const MISTRAL_API_BASE = PROXY_ENABLED
+  ? `${PROXY_BASE}/api/mistral`
+  : (import.meta.env.VITE_MISTRAL_BASE_URL || 'https://api.mistral.ai').replace(/\/+$/, '');
+
+const PENDING_JOBS_KEY = 'mistral_pending_batch_jobs';
+
+// Poll interval grows from MIN to MAX so long queues don't hammer the API
+const POLL_MIN_MS = 2000;
+const POLL_MAX_MS = 15000;
+
+const TERMINAL_FAILURES = ['FAILED', 'TIMEOUT_EXCEEDED', 'CANCELLED'];
+
+export interface PendingBatchJob {
+  jobId: string;
+  inputName: string;
+  model: string;
+  createdAt: string;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Extracts a readable message from a failed API response (Mistral, OpenAI-style or Ollama)
+ */
+export const readApiError = async (response: Response): Promise<string> => {
+  let errorMessage = `API Error: ${response.status} ${response.statusText}`;
+  try {
+    const errorData = await response.json();
+    if (errorData.message) {
+      errorMessage = typeof errorData.message === 'string' ? errorData.message : JSON.stringify(errorData.message);
+    } else if (errorData.error && errorData.error.message) {
+      errorMessage = errorData.error.message;
+    } else if (typeof errorData.error === 'string') {
+      errorMessage = errorData.error;
+    }
+  } catch (e) {
+    // failed to parse error json
+  }
+  return errorMessage;
+};
+
+// --- Job persistence (survives reloads so polling can resume) ---
+
+export const getPendingBatchJobs = (): PendingBatchJob[] => {
+  try {
+    const raw = localStorage.getItem(PENDING_JOBS_KEY);
+    return raw ? JSON.parse(raw) as PendingBatchJob[] : [];
+  } catch {
+    return [];
+  }
+};
+
+const savePendingBatchJob = (job: PendingBatchJob) => {
+  const jobs = getPendingBatchJobs().filter(j => j.jobId !== job.jobId);
+  localStorage.setItem(PENDING_JOBS_KEY, JSON.stringify([...jobs, job]));
+};
+
+export const clearPendingBatchJob = (jobId: string) => {
+  const jobs = getPendingBatchJobs().filter(j => j.jobId !== jobId);
+  localStorage.setItem(PENDING_JOBS_KEY, JSON.stringify(jobs));
+};
+
+// --- Batch lifecycle ---
+
+/**
+ * Builds the JSONL batch input. Each line wraps one /v1/ocr request body.
+ */
+const buildBatchFile = (requestBody: Record<string, any>): Blob => {
+  const { model, ...body } = requestBody;
+  const line = JSON.stringify({ custom_id: '0', body });
+  return new Blob([line + '\n'], { type: 'application/jsonl' });
+};
+
+const uploadBatchFile = async (file: Blob, apiKey: string): Promise<string> => {
+  const form = new FormData();
+  form.append('purpose', 'batch');
+  form.append('file', file, 'ocr_batch.jsonl');
+
+  const response = await fetch(`${MISTRAL_API_BASE}/v1/files`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${apiKey}` },
+    body: form
+  });
+  if (!response.ok) throw new Error(await readApiError(response));
+
+  const data = await response.json();
+  return data.id;
+};
+
+const createBatchJob = async (inputFileId: string, model: string, apiKey: string): Promise<string> => {
+  const response = await fetch(`${MISTRAL_API_BASE}/v1/batch/jobs`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      input_files: [inputFileId],
+      endpoint: '/v1/ocr',
+      model
+    })
+  });
+  if (!response.ok) throw new Error(await readApiError(response));
+
+  const data = await response.json();
+  return data.id;
+};
+
+const getBatchJob = async (jobId: string, apiKey: string): Promise<any> => {
+  const response = await fetch(`${MISTRAL_API_BASE}/v1/batch/jobs/${jobId}`, {
+    headers: { 'Authorization': `Bearer ${apiKey}` }
+  });
+  if (!response.ok) throw new Error(await readApiError(response));
+  return response.json();
+};
+
+const downloadFile = async (fileId: string, apiKey: string): Promise<string> => {
+  const response = await fetch(`${MISTRAL_API_BASE}/v1/files/${fileId}/content`, {
+    headers: { 'Authorization': `Bearer ${apiKey}` }
+  });
+  if (!response.ok) throw new Error(await readApiError(response));
+  return response.text();
+};
+
+/**
+ * Polls a job until it reaches a terminal state and returns the final job object
+ */
+const waitForBatchJob = async (
+  jobId: string,
+  apiKey: string,
+  onProgress: (status: string) => void
+): Promise<any> => {
+  let interval = POLL_MIN_MS;
+
+  while (true) {
+    const job = await getBatchJob(jobId, apiKey);
+    const status: string = job.status;
+
+    if (status === 'SUCCESS') return job;
+    if (TERMINAL_FAILURES.includes(status)) {
+      throw new Error(`Batch job ${jobId} ended with status ${status}`);
+    }
+
+    const done = (job.succeeded_requests || 0) + (job.failed_requests || 0);
+    const total = job.total_requests || 1;
+    onProgress(`Batch Job ${status} (${done}/${total}) - ID: ${jobId}`);
+
+    await delay(interval);
+    interval = Math.min(interval * 1.5, POLL_MAX_MS);
+  }
+};
+
+/**
+ * Reads the output JSONL and returns the OCR response body of the first request
+ */
+const readBatchOutput = async (job: any, apiKey: string): Promise<any> => {
+  if (!job.output_file) {
+    if (job.error_file) {
+      const errors = await downloadFile(job.error_file, apiKey);
+      const first = errors.split('\n').find(l => l.trim() !== '');
+      const parsed = first ? JSON.parse(first) : null;
+      throw new Error(parsed?.error?.message || parsed?.response?.body?.message || 'Batch request failed');
+    }
+    throw new Error('Batch job finished without an output file');
+  }
+
+  const content = await downloadFile(job.output_file, apiKey);
+  const line = content.split('\n').find(l => l.trim() !== '');
+  if (!line) throw new Error('Batch output file is empty');
+
+  const entry = JSON.parse(line);
+  if (entry.error) {
+    throw new Error(entry.error.message || JSON.stringify(entry.error));
+  }
+  const statusCode = entry.response?.status_code;
+  if (statusCode && statusCode >= 400) {
+    throw new Error(entry.response.body?.message || `Batch request failed with status ${statusCode}`);
+  }
+  return entry.response?.body ?? entry.response;
+};
+
+const finishBatchJob = async (
+  jobId: string,
+  apiKey: string,
+  onProgress: (status: string) => void
+): Promise<any> => {
+  try {
+    const job = await waitForBatchJob(jobId, apiKey, onProgress);
+    onProgress('Downloading batch results...');
+    const body = await readBatchOutput(job, apiKey);
+    clearPendingBatchJob(jobId);
+    return body;
+  } catch (error: any) {
+    // Network errors keep the job so a reload can pick it up again
+    if (!(error.name === 'TypeError' && error.message === 'Failed to fetch')) {
+      clearPendingBatchJob(jobId);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Runs a single /v1/ocr request through the Batch API:
+ * JSONL file -> upload -> job -> poll -> download results.
+ * Returns the raw OCR response body, same shape as the synchronous endpoint.
+ */
+export const runBatchOcr = async (
+  requestBody: Record<string, any>,
+  apiKey: string,
+  inputName: string,
+  onProgress: (status: string) => void
+): Promise<any> => {
+  onProgress('Building batch file...');
+  const batchFile = buildBatchFile(requestBody);
+
+  onProgress('Uploading batch file...');
+  const fileId = await uploadBatchFile(batchFile, apiKey);
+
+  onProgress('Creating batch job...');
+  const jobId = await createBatchJob(fileId, requestBody.model, apiKey);
+
+  savePendingBatchJob({
+    jobId,
+    inputName,
+    model: requestBody.model,
+    createdAt: new Date().toISOString()
+  });
+  onProgress(`Batch Job Queued (ID: ${jobId})...`);
+
+  return finishBatchJob(jobId, apiKey, onProgress);
+};
+
+/**
+ * Resumes polling for a job persisted by a previous session
+ */
+export const resumeBatchOcr = async (
+  job: PendingBatchJob,
+  apiKey: string,
+  onProgress: (status: string) => void
+): Promise<any> => {
+  onProgress(`Resuming Batch Job (ID: ${job.jobId})...`);
+  return finishBatchJob(job.jobId, apiKey, onProgress);
+};
@@ -1,7 +1,9 @@
 
 import { OCRResult, ApiMode } from '../types';
+import { MISTRAL_API_BASE, readApiError, runBatchOcr, resumeBatchOcr, PendingBatchJob } from './mistralBatchService';
+import { PROXY_ENABLED, postToProxy } from './proxyService';
 
-const API_ENDPOINT = 'https://api.mistral.ai/v1/ocr';
+const API_ENDPOINT = `${MISTRAL_API_BASE}/v1/ocr`;
 
 /**
  * Simulates a delay for the mock service
@@ -9,20 +11,16 @@ const API_ENDPOINT = 'https://api.mistral.ai/v1/ocr';
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 /**
- * Converts a file to Base64
+ * Converts a file to Base64 (no FileReader, so the CLI can use it under Node)
  */
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      // Remove data URL prefix
-      const result = reader.result as string;
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = error => reject(error);
-  });
+const fileToBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // Chunked so large PDFs don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 };
 
 /**
@@ -37,16 +35,51 @@ const isUrl = (str: string) => {
   }
 };
 
+/**
+ * Maps a raw /v1/ocr response body (sync or batch) into an OCRResult
+ */
+export const toOCRResult = (data: any): OCRResult => {
+  // Fix: Join ALL pages, not just the first one.
+  const fullMarkdown = data.pages
+    ? data.pages.map((p: any) => p.markdown).join('\n\n---\n\n')
+    : (data.markdown || '');
+
+  // Extract all images from all pages
+  const allImages = data.pages?.flatMap((p: any) => p.images?.map((img: any) => img.image_base64 || img) || []) || [];
+
+  return {
+    markdown: fullMarkdown,
+    json: data, // Return the FULL API response object
+    images: allImages,
+    usage: {
+      pages: data.usage_info?.pages_processed || data.pages?.length || 1,
+      cost: 0
+    }
+  };
+};
+
+/**
+ * Resumes a batch job left running by a previous session
+ */
+export const resumePendingBatch = async (
+  job: PendingBatchJob,
+  apiKey: string,
+  onProgress: (status: string) => void
+): Promise<OCRResult> => {
+  const data = await resumeBatchOcr(job, apiKey, onProgress);
+  return toOCRResult(data);
+};
+
 export const processDocument = async (
   inputSource: File | string,
   apiKey: string,
   apiMode: ApiMode,
-  pages: string, // e.g. "1-5" or empty for all
+  pages: number[], // 0-based page indexes (see parsePageRange), empty for all
   onProgress: (status: string) => void
 ): Promise<OCRResult> => {
 
-  // -- MOCK MODE (Only if no API key is provided) --
-  if (!apiKey || apiKey.trim() === '') {
+  // -- MOCK MODE (Only if no API key or proxy is configured) --
+  if (!PROXY_ENABLED && (!apiKey || apiKey.trim() === '')) {
     await delay(800);
     onProgress('Uploading document (Mock)...');
 
@@ -69,20 +102,21 @@ export const processDocument = async (
 Atatürk Mah. İstiklal Cad. No:12
 Istanbul / TR
 Tel: 0212 555 10 20
+**VD**: BÜYÜK MÜKELLEFLER  **VN**: 6220529513
 
 **TARIH**: 22.05.2024  **SAAT**: 14:30
-**FİS NO**: 0045      **EKU NO**: 0001
+**FİS NO**: 0045      **Z NO**: 0112      **EKU NO**: 0001
 
-| URUN ADI | MIKTAR | FIYAT | TUTAR |
-| :--- | :--- | :--- | :--- |
-| SÜTAŞ TAM YAĞLI SÜT 1L | 2 Adet | *35,50 | 71,00 |
-| BARILLA SPAGETTI 500G | 1 Adet | *28,90 | 28,90 |
-| DOMATES (KG) | 1,500 Kg | *40,00 | 60,00 |
-| POŞET | 1 Adet | *0,25 | 0,25 |
+| URUN ADI | MIKTAR | FIYAT | KDV | TUTAR |
+| :--- | :--- | :--- | :--- | :--- |
+| SÜTAŞ TAM YAĞLI SÜT 1L | 2 Adet | *35,50 | %1 | 71,00 |
+| BARILLA SPAGETTI 500G | 1 Adet | *28,90 | %1 | 28,90 |
+| DOMATES (KG) | 1,500 Kg | *40,00 | %1 | 60,00 |
+| POŞET | 1 Adet | *0,25 | %20 | 0,25 |
 
 ---
-**ARA TOPLAM**: 140,00 ₺
-**KDV (%18)**: 20,15 ₺
+**ARA TOPLAM**: 158,53 ₺
+**TOPKDV**: 1,62 ₺
 **GENEL TOPLAM**: 160,15 ₺
 ---
 
@@ -149,22 +183,23 @@ Tesekkürler, yine bekleriz.
       throw new Error("Invalid input source");
     }
 
+    if (pages.length > 0) {
+      payload.pages = pages;
+    }
+
     if (apiMode === 'batch') {
       onProgress('Sending to Batch Queue...');
-      // Note: Real batch implementation usually requires a different endpoint or async id handling
-      // For now, we hit the standard endpoint but flag it
+      const inputName = inputSource instanceof File ? inputSource.name : inputSource;
+      const data = await runBatchOcr(payload, apiKey, inputName, onProgress);
+      return toOCRResult(data);
     }
 
-    if (pages && pages.trim() !== '') {
-      const pageList = pages.split(',').map(p => parseInt(p.trim())).filter(n => !isNaN(n));
-      if (pageList.length > 0) {
-        payload.pages = pageList;
-      }
+    if (PROXY_ENABLED) {
+      const data = await postToProxy('/api/ocr', payload, onProgress);
+      return toOCRResult(data);
     }
 
-    const endpoint = API_ENDPOINT;
-
-    const response = await fetch(endpoint, {
+    const response = await fetch(API_ENDPOINT, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -174,44 +209,16 @@ Tesekkürler, yine bekleriz.
     });
 
     if (!response.ok) {
-      let errorMessage = `API Error: ${response.status} ${response.statusText}`;
-      try {
-        const errorData = await response.json();
-        if (errorData.message) {
-          errorMessage = errorData.message;
-        } else if (errorData.error && errorData.error.message) {
-          errorMessage = errorData.error.message;
-        }
-      } catch (e) {
-        // failed to parse error json
-      }
-      throw new Error(errorMessage);
+      throw new Error(await readApiError(response));
     }
 
     const data = await response.json();
-
-    // Fix: Join ALL pages, not just the first one.
-    const fullMarkdown = data.pages
-      ? data.pages.map((p: any) => p.markdown).join('\n\n---\n\n')
-      : (data.markdown || '');
-
-    // Extract all images from all pages
-    const allImages = data.pages?.flatMap((p: any) => p.images?.map((img: any) => img.image_base64 || img) || []) || [];
-
-    return {
-      markdown: fullMarkdown,
-      json: data, // Return the FULL API response object
-      images: allImages,
-      usage: {
-        pages: data.usage_info?.pages_processed || data.pages?.length || 1,
-        cost: 0
-      }
-    };
+    return toOCRResult(data);
 
   } catch (error: any) {
     console.error("OCR Error:", error);
     if (error.name === 'TypeError' && error.message === 'Failed to fetch') {
-      throw new Error("Network Error: Possible CORS issue. Mistral API may not allow direct browser access. Please use a proxy or check your internet connection.");
+      throw new Error("Network Error: Possible CORS issue. Mistral API may not allow direct browser access. Run the bundled proxy (npm start) with VITE_API_PROXY_URL set, or check your internet connection.");
     }
     throw error;
   }
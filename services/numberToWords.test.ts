@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { amountToTurkishWords, integerToTurkishWords } from './numberToWords';
+
+describe('amounts in words', () => {
+  it('writes integers the Turkish way ("Bin", not "Bir Bin")', () => {
+    expect(integerToTurkishWords(1000)).toBe('Bin');
+    expect(integerToTurkishWords(2_000_105)).toBe('İki Milyon Yüz Beş');
+  });
+
+  it('adds the currency and kuruş', () => {
+    expect(amountToTurkishWords(1234.5)).toBe('Yalnız Bin İki Yüz Otuz Dört Türk Lirası Elli Kuruş');
+    expect(amountToTurkishWords(100, 'EUR')).toBe('Yalnız Yüz Avro');
+  });
+});
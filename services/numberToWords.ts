@@ -0,0 +1,90 @@
+const ONES = ['', 'Bir', 'İki', 'Üç', 'Dört', 'Beş', 'Altı', 'Yedi', 'Sekiz', 'Dokuz'];
+const TENS = ['', 'On', 'Yirmi', 'Otuz', 'Kırk', 'Elli', 'Altmış', 'Yetmiş', 'Seksen', 'Doksan'];
+const SCALES = ['', 'Bin', 'Milyon', 'Milyar', 'Trilyon'];
+
+/**
+ * 0-999 -> words. "Yüz", never "Bir Yüz".
+ */
+const hundredsToWords = (n: number): string[] => {
+  const words: string[] = [];
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+
+  if (hundreds > 0) {
+    if (hundreds > 1) words.push(ONES[hundreds]);
+    words.push('Yüz');
+  }
+  if (rest >= 10) words.push(TENS[Math.floor(rest / 10)]);
+  if (rest % 10 > 0) words.push(ONES[rest % 10]);
+
+  return words;
+};
+
+/**
+ * Integer -> Turkish words, e.g. 1250 -> "Bin İki Yüz Elli"
+ */
+export const integerToTurkishWords = (value: number): string => {
+  let n = Math.floor(Math.abs(value));
+  if (n === 0) return 'Sıfır';
+
+  const groups: number[] = [];
+  while (n > 0) {
+    groups.push(n % 1000);
+    n = Math.floor(n / 1000);
+  }
+
+  const words: string[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const group = groups[i];
+    if (group === 0) continue;
+
+    // "Bin", never "Bir Bin"
+    if (!(i === 1 && group === 1)) words.push(...hundredsToWords(group));
+    if (SCALES[i]) words.push(SCALES[i]);
+  }
+
+  return words.join(' ');
+};
+
+export type WordsCurrency = 'TRY' | 'EUR' | 'USD' | 'GBP' | 'CHF';
+
+// Main and fractional unit names as written on Turkish invoices
+const CURRENCY_UNITS: Record<WordsCurrency, { main: string; fraction: string }> = {
+  TRY: { main: 'Türk Lirası', fraction: 'Kuruş' },
+  EUR: { main: 'Avro', fraction: 'Sent' },
+  USD: { main: 'ABD Doları', fraction: 'Sent' },
+  GBP: { main: 'İngiliz Sterlini', fraction: 'Peni' },
+  CHF: { main: 'İsviçre Frangı', fraction: 'Santim' }
+};
+
+/**
+ * Maps a receipt currency field ('₺', 'TL', '€', 'USD' ...) to a supported code.
+ * Unknown values fall back to TRY.
+ */
+export const resolveWordsCurrency = (currency?: string): WordsCurrency => {
+  const value = (currency || '').trim().toUpperCase();
+  if (value === '€' || value === 'EUR' || value === 'EURO' || value === 'AVRO') return 'EUR';
+  if (value === '$' || value === 'USD' || value === 'US$' || value === 'DOLAR') return 'USD';
+  if (value === '£' || value === 'GBP') return 'GBP';
+  if (value === 'CHF') return 'CHF';
+  return 'TRY';
+};
+
+/**
+ * Amount -> "Yalnız Yüz Elli Türk Lirası Yirmi Beş Kuruş".
+ * The fractional part is omitted when zero; negative amounts get "Eksi".
+ */
+export const amountToTurkishWords = (amount: number, currency: WordsCurrency = 'TRY'): string => {
+  const value = Number(amount) || 0;
+  const cents = Math.round(Math.abs(value) * 100);
+  const main = Math.floor(cents / 100);
+  const fraction = cents % 100;
+  const units = CURRENCY_UNITS[currency];
+
+  const parts = ['Yalnız'];
+  if (value < 0 && cents > 0) parts.push('Eksi');
+  parts.push(integerToTurkishWords(main), units.main);
+  if (fraction > 0) parts.push(integerToTurkishWords(fraction), units.fraction);
+
+  return parts.join(' ');
+};
@@ -0,0 +1,66 @@
+import { OCRResult, ApiMode, OcrProviderId } from '../types';
+import { processDocument } from './mistralService';
+import { recognizeWithTesseract } from './tesseractService';
+import { estimateOcrCost } from './costService';
+
+const OCR_PROVIDER_KEY = 'ocr_provider';
+
+export interface OcrRequest {
+  apiKey: string;
+  apiMode: ApiMode;
+  pages: number[]; // 0-based page indexes, empty for all
+}
+
+/**
+ * An OCR backend. Every provider returns an OCRResult whose json.pages are
+ * OCRPageObject[] and whose markdown joins the page markdown.
+ */
+export interface OcrProvider {
+  id: OcrProviderId;
+  label: string;
+  description: string;
+  local: boolean; // Runs in the browser; the document never leaves the device
+  supportsBatch: boolean;
+  supportsPdf: boolean;
+  process: (inputSource: File | string, request: OcrRequest, onProgress: (status: string) => void) => Promise<OCRResult>;
+  estimateCost: (pageCount: number, apiMode: ApiMode) => number;
+}
+
+const mistralProvider: OcrProvider = {
+  id: 'mistral',
+  label: 'Mistral',
+  description: 'Bulut',
+  local: false,
+  supportsBatch: true,
+  supportsPdf: true,
+  process: (inputSource, { apiKey, apiMode, pages }, onProgress) =>
+    processDocument(inputSource, apiKey, apiMode, pages, onProgress),
+  estimateCost: (pageCount, apiMode) => estimateOcrCost(pageCount, apiMode)
+};
+
+const tesseractProvider: OcrProvider = {
+  id: 'tesseract',
+  label: 'Tesseract',
+  description: 'Yerel',
+  local: true,
+  supportsBatch: false,
+  supportsPdf: false,
+  process: (inputSource, _request, onProgress) => recognizeWithTesseract(inputSource, onProgress),
+  estimateCost: () => 0
+};
+
+export const OCR_PROVIDERS: Record<OcrProviderId, OcrProvider> = {
+  mistral: mistralProvider,
+  tesseract: tesseractProvider
+};
+
+export const getOcrProvider = (id: OcrProviderId): OcrProvider => OCR_PROVIDERS[id] || mistralProvider;
+
+export const loadOcrProviderId = (): OcrProviderId => {
+  const saved = localStorage.getItem(OCR_PROVIDER_KEY);
+  return saved && saved in OCR_PROVIDERS ? saved as OcrProviderId : 'mistral';
+};
+
+export const saveOcrProviderId = (id: OcrProviderId) => {
+  localStorage.setItem(OCR_PROVIDER_KEY, id);
+};
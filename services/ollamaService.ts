@@ -0,0 +1,50 @@
+import { LlmSettings, ReceiptData } from '../types';
+import { SYSTEM_INSTRUCTION, buildReceiptSchema, buildExtractionPrompt, parseExtractionJson } from './extractionContract';
+import { readApiError } from './mistralBatchService';
+
+// The Ollama server must allow the app's origin (OLLAMA_ORIGINS)
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+
+const ollamaBase = (baseUrl: string) => (baseUrl || OLLAMA_DEFAULT_BASE_URL).trim().replace(/\/+$/, '');
+
+/**
+ * Adapter for a self-hosted Ollama server (/api/chat with a JSON Schema format)
+ */
+export const extractWithOllama = async (
+  markdownText: string,
+  settings: LlmSettings,
+  categories: string[]
+): Promise<ReceiptData> => {
+  const response = await fetch(`${ollamaBase(settings.baseUrl)}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: settings.model,
+      stream: false,
+      format: buildReceiptSchema(categories),
+      options: { temperature: 0 },
+      messages: [
+        { role: 'system', content: SYSTEM_INSTRUCTION },
+        { role: 'user', content: buildExtractionPrompt(markdownText, categories) }
+      ]
+    })
+  });
+
+  if (!response.ok) throw new Error(await readApiError(response));
+
+  const data = await response.json();
+  const content = data.message?.content;
+  if (!content) throw new Error('Empty response from Ollama');
+  return parseExtractionJson(content);
+};
+
+/**
+ * Models pulled on the server (GET /api/tags)
+ */
+export const listOllamaModels = async (settings: LlmSettings): Promise<string[]> => {
+  const response = await fetch(`${ollamaBase(settings.baseUrl)}/api/tags`);
+  if (!response.ok) throw new Error(await readApiError(response));
+
+  const data = await response.json();
+  return (data.models || []).map((m: any) => m.name as string).sort();
+};
@@ -0,0 +1,61 @@
+import { LlmSettings, ReceiptData } from '../types';
+import { SYSTEM_INSTRUCTION, buildReceiptSchema, buildExtractionPrompt, parseExtractionJson } from './extractionContract';
+import { readApiError } from './mistralBatchService';
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com';
+
+/**
+ * Accepts both "https://host" and "https://host/v1" as the base URL
+ */
+export const normalizeOpenAiBaseUrl = (baseUrl: string) =>
+  (baseUrl || OPENAI_DEFAULT_BASE_URL).trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+
+const authHeaders = (apiKey: string): Record<string, string> =>
+  apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+
+/**
+ * Adapter for any OpenAI-compatible /v1/chat/completions endpoint
+ * (OpenAI, Azure-style gateways, vLLM, LM Studio, llama.cpp server)
+ */
+export const extractWithOpenAi = async (
+  markdownText: string,
+  settings: LlmSettings,
+  categories: string[]
+): Promise<ReceiptData> => {
+  const response = await fetch(`${normalizeOpenAiBaseUrl(settings.baseUrl)}/v1/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(settings.apiKey) },
+    body: JSON.stringify({
+      model: settings.model,
+      temperature: 0,
+      messages: [
+        { role: 'system', content: SYSTEM_INSTRUCTION },
+        { role: 'user', content: buildExtractionPrompt(markdownText, categories) }
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'turkish_receipt', schema: buildReceiptSchema(categories), strict: false }
+      }
+    })
+  });
+
+  if (!response.ok) throw new Error(await readApiError(response));
+
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+  if (!content) throw new Error('Empty response from chat completions endpoint');
+  return parseExtractionJson(content);
+};
+
+/**
+ * Model ids served by the endpoint (GET /v1/models)
+ */
+export const listOpenAiModels = async (settings: LlmSettings): Promise<string[]> => {
+  const response = await fetch(`${normalizeOpenAiBaseUrl(settings.baseUrl)}/v1/models`, {
+    headers: authHeaders(settings.apiKey)
+  });
+  if (!response.ok) throw new Error(await readApiError(response));
+
+  const data = await response.json();
+  return (data.data || []).map((m: any) => m.id as string).sort();
+};
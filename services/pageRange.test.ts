@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { formatPageRange, parsePageRange, validatePageRange } from './pageRange';
+
+describe('page ranges', () => {
+  it('turns 1-based ranges into 0-based page indexes', () => {
+    expect(parsePageRange('1, 3-5, 8-', 10)).toEqual([0, 2, 3, 4, 7, 8, 9]);
+    expect(parsePageRange('', 3)).toEqual([]);
+  });
+
+  it('reports unreadable ranges', () => {
+    expect(validatePageRange('1-3')).toBeNull();
+    expect(validatePageRange('5-2')).toContain('5-2');
+    expect(validatePageRange('1,x')).toContain('x');
+  });
+
+  it('formats indexes back into the shortest range text', () => {
+    expect(formatPageRange([0, 2, 3, 4, 7])).toBe('1,3-5,8');
+  });
+});
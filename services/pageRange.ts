@@ -0,0 +1,81 @@
+interface RangePart {
+  text: string;
+  start: number;
+  end?: number; // undefined: open to the last page
+}
+
+/**
+ * Splits "1,3-5,8-" into 1-based parts; throws on anything else
+ */
+const parseParts = (input: string): RangePart[] => input
+  .split(',')
+  .map(part => part.replace(/\s+/g, ''))
+  .filter(Boolean)
+  .map(text => {
+    const match = text.match(/^(\d*)(-?)(\d*)$/);
+    if (!match || (!match[1] && !match[3])) throw new Error(`Geçersiz sayfa aralığı: "${text}"`);
+
+    const [, startText, dash, endText] = match;
+    const start = startText ? parseInt(startText, 10) : 1;
+    const end = !dash ? start : endText ? parseInt(endText, 10) : undefined;
+    if (start < 1 || (end !== undefined && end < start)) throw new Error(`Geçersiz sayfa aralığı: "${text}"`);
+    return { text, start, end };
+  });
+
+/**
+ * Parses a 1-based page range such as "1,3-5,8-" into sorted, unique 0-based
+ * page indexes (the form Mistral expects). An empty range means all pages and
+ * returns []. Open ranges ("8-") need the page count to be known.
+ */
+export const parsePageRange = (input: string, pageCount?: number): number[] => {
+  const pages = new Set<number>();
+
+  for (const { text, start, end } of parseParts(input)) {
+    if (end === undefined && !pageCount) {
+      throw new Error(`"${text}" için sayfa sayısı bilinmiyor; aralığı kapatın (örn. ${start}-${start + 1}).`);
+    }
+    if (pageCount && start > pageCount) throw new Error(`Sayfa ${start} yok; belge ${pageCount} sayfa.`);
+
+    const last = Math.min(end ?? pageCount!, pageCount || Infinity);
+    for (let page = start; page <= last; page++) pages.add(page - 1);
+  }
+
+  return [...pages].sort((a, b) => a - b);
+};
+
+/**
+ * Syntax error of a range regardless of any document, or null when it is valid
+ */
+export const validatePageRange = (input: string): string | null => {
+  try {
+    parseParts(input);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+};
+
+/**
+ * Formats 0-based page indexes back into the compact 1-based form: [0,2,3,4] -> "1,3-5"
+ */
+export const formatPageRange = (indexes: number[]): string => {
+  const sorted = [...new Set(indexes)].sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    parts.push(sorted[i] === start ? `${start + 1}` : `${start + 1}-${sorted[i] + 1}`);
+  }
+  return parts.join(',');
+};
+
+/**
+ * Pages a range will OCR (cost estimate); an invalid range counts the whole document
+ */
+export const countSelectedPages = (input: string, pageCount: number): number => {
+  try {
+    return parsePageRange(input, pageCount).length || pageCount;
+  } catch {
+    return pageCount;
+  }
+};
@@ -0,0 +1,47 @@
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy } from 'pdfjs-dist';
+// Bundled worker so rendering works offline and without a CDN
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export const isPdfSource = (source: File | string) =>
+  source instanceof File ? source.type === 'application/pdf' : /\.pdf(\?|#|$)/i.test(source);
+
+/**
+ * Opens a PDF from an upload or URL (URLs need CORS, like the OCR providers)
+ */
+export const loadPdf = async (source: File | string): Promise<PDFDocumentProxy> => {
+  try {
+    const data = source instanceof File ? new Uint8Array(await source.arrayBuffer()) : undefined;
+    return await getDocument(data ? { data } : { url: source as string }).promise;
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') throw new Error('PDF şifreli; şifresiz bir kopya yükleyin.');
+    throw new Error('PDF açılamadı. Dosya bozuk olabilir veya bağlantı CORS izni vermiyor olabilir.');
+  }
+};
+
+/**
+ * Renders a page (1-based) to a canvas whose longest side is about maxSize pixels
+ */
+export const renderPdfPage = async (pdf: PDFDocumentProxy, pageNumber: number, maxSize: number): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: maxSize / Math.max(base.width, base.height) });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  page.cleanup();
+  return canvas;
+};
+
+/**
+ * Page count of a PDF, read locally so costs are known before any OCR call
+ */
+export const countPdfPages = async (source: File | string): Promise<number> => {
+  const pdf = await loadPdf(source);
+  const count = pdf.numPages;
+  pdf.destroy();
+  return count;
+};
@@ -0,0 +1,61 @@
+/**
+ * Client for the bundled API proxy (server/). Set VITE_API_PROXY_URL to the
+ * proxy origin, or "/" when the proxy also serves the app.
+ */
+const RAW_PROXY_URL = import.meta.env.VITE_API_PROXY_URL || '';
+
+export const PROXY_ENABLED = RAW_PROXY_URL.trim() !== '';
+
+export const PROXY_BASE = RAW_PROXY_URL.trim().replace(/\/+$/, '');
+
+interface StreamEvent {
+  type: 'progress' | 'result' | 'error';
+  message?: string;
+  data?: unknown;
+}
+
+const readError = async (response: Response) => {
+  try {
+    const data = await response.json();
+    return data.message || `Proxy Error: ${response.status}`;
+  } catch {
+    return `Proxy Error: ${response.status} ${response.statusText}`;
+  }
+};
+
+/**
+ * POSTs to a proxy endpoint and follows its NDJSON progress stream
+ */
+export const postToProxy = async <T>(
+  path: string,
+  body: unknown,
+  onProgress: (status: string) => void
+): Promise<T> => {
+  const response = await fetch(`${PROXY_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok || !response.body) throw new Error(await readError(response));
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (value) buffer += value;
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as StreamEvent;
+      if (event.type === 'progress' && event.message) onProgress(event.message);
+      if (event.type === 'result') return event.data as T;
+      if (event.type === 'error') throw new Error(event.message || 'Proxy isteği başarısız oldu');
+    }
+
+    if (done) throw new Error('Proxy yanıtı sonuçlanmadan kapandı');
+  }
+};
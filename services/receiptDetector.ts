@@ -0,0 +1,209 @@
+import { createCanvas, context2d, readGray, otsuThreshold, resize } from './imagePreprocessor';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// Long side of the frame copy searched for the receipt; small enough for every video frame
+const DETECT_SIZE = 240;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const quadArea = (quad: Quad) => Math.abs(quad.reduce((acc, p, i) => {
+  const next = quad[(i + 1) % 4];
+  return acc + p.x * next.y - next.x * p.y;
+}, 0)) / 2;
+
+/**
+ * Finds the receipt as the largest bright region of the frame and takes its
+ * extreme corners. Null when that region is not roughly a quadrilateral.
+ */
+export const detectReceiptQuad = (frame: HTMLCanvasElement): Quad | null => {
+  const { gray, width, height, scale } = readGray(frame, DETECT_SIZE);
+  const threshold = otsuThreshold(gray);
+
+  // Largest 4-connected component of bright pixels
+  const labels = new Int32Array(gray.length);
+  const stack = new Int32Array(gray.length);
+  let best: { size: number; corners: Quad } | null = null;
+  let label = 0;
+
+  for (let start = 0; start < gray.length; start++) {
+    if (labels[start] || gray[start] <= threshold) continue;
+    label++;
+    labels[start] = label;
+    let top = 0;
+    stack[top++] = start;
+    let size = 0;
+    const extremes = { minSum: Infinity, maxSum: -Infinity, minDiff: Infinity, maxDiff: -Infinity };
+    const corners: Quad = [{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }];
+
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      size++;
+
+      if (x + y < extremes.minSum) { extremes.minSum = x + y; corners[0] = { x, y }; }
+      if (x - y > extremes.maxDiff) { extremes.maxDiff = x - y; corners[1] = { x, y }; }
+      if (x + y > extremes.maxSum) { extremes.maxSum = x + y; corners[2] = { x, y }; }
+      if (x - y < extremes.minDiff) { extremes.minDiff = x - y; corners[3] = { x, y }; }
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && !labels[n] && gray[n] > threshold) {
+          labels[n] = label;
+          stack[top++] = n;
+        }
+      }
+    }
+
+    if (!best || size > best.size) best = { size, corners };
+  }
+
+  if (!best) return null;
+
+  // The region must be a reasonable share of the frame and fill its own quad
+  const area = quadArea(best.corners);
+  const frameArea = width * height;
+  if (area < frameArea * 0.08 || area > frameArea * 0.97) return null;
+  const fill = best.size / area;
+  if (fill < 0.8 || fill > 1.2) return null;
+
+  return best.corners.map(p => ({ x: (p.x + 0.5) / scale, y: (p.y + 0.5) / scale })) as Quad;
+};
+
+/**
+ * Largest corner movement between two detections, relative to the frame width
+ */
+export const quadMovement = (a: Quad, b: Quad, frameWidth: number) =>
+  Math.max(...a.map((p, i) => distance(p, b[i]))) / frameWidth;
+
+/**
+ * Projective map from the unit square onto the quad (Heckbert)
+ */
+const squareToQuad = ([p0, p1, p2, p3]: Quad) => {
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+  const den = dx1 * dy2 - dx2 * dy1 || 1e-9;
+  const g = (dx3 * dy2 - dx2 * dy3) / den;
+  const h = (dx1 * dy3 - dx3 * dy1) / den;
+  const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x, c = p0.x;
+  const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y, f = p0.y;
+
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+/**
+ * Perspective correction: the quad of the source becomes an upright rectangle
+ * as large as its longest edges, sampled bilinearly.
+ */
+export const warpQuad = (source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement => {
+  const [tl, tr, br, bl] = quad;
+  const width = Math.round(Math.max(distance(tl, tr), distance(bl, br)));
+  const height = Math.round(Math.max(distance(tl, bl), distance(tr, br)));
+  const map = squareToQuad(quad);
+
+  const src = context2d(source).getImageData(0, 0, source.width, source.height);
+  const output = createCanvas(width, height);
+  const ctx = context2d(output);
+  const dst = ctx.createImageData(output.width, output.height);
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let y = 0; y < output.height; y++) {
+    for (let x = 0; x < output.width; x++) {
+      const p = map((x + 0.5) / output.width, (y + 0.5) / output.height);
+      const sx = Math.min(maxX, Math.max(0, p.x - 0.5));
+      const sy = Math.min(maxY, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0, fy = sy - y0;
+
+      const o = (y * output.width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const v00 = src.data[(y0 * source.width + x0) * 4 + ch];
+        const v10 = src.data[(y0 * source.width + x1) * 4 + ch];
+        const v01 = src.data[(y1 * source.width + x0) * 4 + ch];
+        const v11 = src.data[(y1 * source.width + x1) * 4 + ch];
+        dst.data[o + ch] = (v00 * (1 - fx) + v10 * fx) * (1 - fy) + (v01 * (1 - fx) + v11 * fx) * fy;
+      }
+      dst.data[o + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(dst, 0, 0);
+  return output;
+};
+
+// Columns per row in the overlap signature; several strips tell text lines apart better than one mean
+const PROFILE_STRIPS = 8;
+
+const rowProfile = (canvas: HTMLCanvasElement) => {
+  const { gray, width, height } = readGray(canvas, Math.max(canvas.width, canvas.height));
+  const stripWidth = width / PROFILE_STRIPS;
+  const profile = new Float32Array(height * PROFILE_STRIPS);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      profile[y * PROFILE_STRIPS + Math.min(PROFILE_STRIPS - 1, Math.floor(x / stripWidth))] += gray[y * width + x] / stripWidth;
+    }
+  }
+  return profile;
+};
+
+/**
+ * Rows of `below` that repeat the bottom of `above`: the overlap with the
+ * smallest mean difference of row profiles, or 0 when nothing matches well.
+ */
+const findOverlap = (above: HTMLCanvasElement, below: HTMLCanvasElement) => {
+  const a = rowProfile(above);
+  const b = rowProfile(below);
+  const maxOverlap = Math.floor(Math.min(above.height, below.height) * 0.8);
+  const minOverlap = Math.max(8, Math.floor(Math.min(above.height, below.height) * 0.05));
+
+  let bestOverlap = 0;
+  let bestError = Infinity;
+  for (let overlap = minOverlap; overlap <= maxOverlap; overlap++) {
+    let error = 0;
+    const offset = (above.height - overlap) * PROFILE_STRIPS;
+    for (let i = 0; i < overlap * PROFILE_STRIPS; i++) error += Math.abs(a[offset + i] - b[i]);
+    error /= overlap * PROFILE_STRIPS;
+    if (error < bestError) {
+      bestError = error;
+      bestOverlap = overlap;
+    }
+  }
+  // Mean difference above ~6 grey levels means the frames do not share rows
+  return bestError < 6 ? bestOverlap : 0;
+};
+
+/**
+ * Joins the frames of a long receipt top to bottom, dropping the rows each
+ * frame repeats from the previous one.
+ */
+export const stitchFrames = (frames: HTMLCanvasElement[]): HTMLCanvasElement => {
+  const width = Math.min(...frames.map(f => f.width));
+  const scaled = frames.map(f => (f.width === width ? f : resize(f, width / f.width)));
+
+  const offsets = [0];
+  for (let i = 1; i < scaled.length; i++) {
+    offsets.push(offsets[i - 1] + scaled[i - 1].height - findOverlap(scaled[i - 1], scaled[i]));
+  }
+
+  const output = createCanvas(width, offsets[offsets.length - 1] + scaled[scaled.length - 1].height);
+  const ctx = context2d(output);
+  scaled.forEach((frame, i) => ctx.drawImage(frame, 0, offsets[i]));
+  return output;
+};
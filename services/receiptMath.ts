@@ -0,0 +1,125 @@
+import { ReceiptData, ReceiptItem, TaxBreakdown } from '../types';
+import { amountToTurkishWords, resolveWordsCurrency } from './numberToWords';
+import { COMPUTED_CONFIDENCE } from './fieldConfidence';
+
+export interface Financials {
+  subtotal: number;
+  tax: number;
+  total: number;
+  taxBreakdown: TaxBreakdown[];
+}
+
+const round2 = (n: number) => Number(n.toFixed(2));
+
+/**
+ * Derives totals and the per-rate KDV breakdown from gross line prices.
+ * Item prices on Turkish receipts include KDV, so tax is back-calculated.
+ */
+export const computeFinancials = (items: ReceiptItem[]): Financials => {
+  let calculatedTotal = 0;
+  let calculatedTax = 0;
+  let calculatedSubtotal = 0;
+
+  // Track breakdown by rate
+  const breakdownMap: Record<number, { base: number, amount: number }> = {};
+
+  items.forEach(item => {
+    // Ensure numbers
+    const price = Number(item.totalPrice) || 0;
+    const rate = Number(item.vatRate) || 0; // Default to 0 if missing, usually 1, 10, 20
+
+    calculatedTotal += price;
+
+    // Back-calculate Tax from Gross Price
+    // Formula: Tax = Price * (Rate / (100 + Rate))
+    const taxAmount = price * (rate / (100 + rate));
+    const baseAmount = price - taxAmount;
+
+    calculatedTax += taxAmount;
+    calculatedSubtotal += baseAmount;
+
+    // Update Breakdown
+    if (!breakdownMap[rate]) {
+      breakdownMap[rate] = { base: 0, amount: 0 };
+    }
+    breakdownMap[rate].base += baseAmount;
+    breakdownMap[rate].amount += taxAmount;
+  });
+
+  // Reconstruct breakdown array
+  const taxBreakdown: TaxBreakdown[] = Object.keys(breakdownMap).map(r => {
+    const rate = Number(r);
+    return {
+      rate,
+      base: round2(breakdownMap[rate].base),
+      amount: round2(breakdownMap[rate].amount)
+    };
+  });
+
+  return {
+    subtotal: round2(calculatedSubtotal),
+    tax: round2(calculatedTax),
+    total: round2(calculatedTotal),
+    taxBreakdown
+  };
+};
+
+/**
+ * Recalculates Subtotal, Tax, and Total based on line items to ensure mathematical consistency.
+ * This fixes issues where the OCR/AI returns 0 for totals but has valid items.
+ */
+export const recalculateFinancials = (data: ReceiptData): ReceiptData => {
+  if (!data.items || data.items.length === 0) return data;
+
+  const calculated = computeFinancials(data.items);
+
+  // Override if original values are missing or zero (or just force consistency)
+  const finalTotal = data.total > 0 ? data.total : calculated.total;
+
+  // If the AI didn't provide tax/subtotal, use ours. 
+  // If it did, check if they match rough logic. If 0, use ours.
+  const finalTax = (data.tax && data.tax > 0) ? data.tax : calculated.tax;
+  const finalSubtotal = (data.subtotal && data.subtotal > 0) ? data.subtotal : calculated.subtotal;
+
+  // Filled values are derived, not read; mark them for review
+  const confidence = { ...data.confidence };
+  if (!(data.total > 0)) confidence.total = COMPUTED_CONFIDENCE;
+  if (!(data.tax > 0)) confidence.tax = COMPUTED_CONFIDENCE;
+  if (!(data.subtotal > 0)) confidence.subtotal = COMPUTED_CONFIDENCE;
+
+  return {
+    ...data,
+    confidence,
+    total: round2(finalTotal),
+    tax: round2(finalTax),
+    subtotal: round2(finalSubtotal),
+    taxBreakdown: data.taxBreakdown && data.taxBreakdown.length > 0 ? data.taxBreakdown : calculated.taxBreakdown
+  };
+};
+
+/**
+ * Strict recomputation used while editing: subtotal, tax, breakdown and words
+ * always follow the items. The printed total follows too unless it is locked.
+ */
+export const recomputeEditedReceipt = (data: ReceiptData, lockTotal: boolean): ReceiptData => {
+  const calculated = computeFinancials(data.items || []);
+  const total = lockTotal ? round2(Number(data.total) || 0) : calculated.total;
+
+  return {
+    ...data,
+    subtotal: calculated.subtotal,
+    tax: calculated.tax,
+    taxBreakdown: calculated.taxBreakdown,
+    total,
+    totalInWords: amountToTurkishWords(total, resolveWordsCurrency(data.currency))
+  };
+};
+
+/**
+ * Replaces totalInWords with the deterministic conversion of the final total.
+ * Runs after recalculateFinancials so the words always match the printed number.
+ */
+export const applyTotalInWords = (data: ReceiptData): ReceiptData => ({
+  ...data,
+  totalInWords: amountToTurkishWords(Number(data.total) || 0, resolveWordsCurrency(data.currency))
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseReceiptText, parseTurkishNumber } from './receiptParser';
+
+const receipt = (paymentLine: string) => `# STUB MARKET A.Ş.
+VKN: 1234567890
+**TARIH**: 01.01.2025  **SAAT**: 12:00
+**FİŞ NO**: 0001
+
+| URUN ADI | MIKTAR | FIYAT | TUTAR |
+| :--- | :--- | :--- | :--- |
+| EKMEK %1 | 1 Adet | *10,00 | *10,00 |
+| SUT %1 | 2 Adet | *25,50 | *51,00 |
+
+**TOPKDV**: *0,60
+**TOPLAM**: *61,00
+${paymentLine}
+`;
+
+describe('parseTurkishNumber', () => {
+  it('reads Turkish thousands and decimal separators', () => {
+    expect(parseTurkishNumber('1.234,56')).toBe(1234.56);
+    expect(parseTurkishNumber('*10,00')).toBe(10);
+  });
+});
+
+describe('parseReceiptText', () => {
+  it('reads header fields, items and totals', () => {
+    const data = parseReceiptText(receipt('NAKİT *61,00'));
+    expect(data.merchantName).toBe('STUB MARKET A.Ş.');
+    expect(data.taxNumber).toBe('1234567890');
+    expect(data.date).toBe('2025-01-01');
+    expect(data.time).toBe('12:00');
+    expect(data.items.map(i => [i.description, i.quantity, i.totalPrice, i.vatRate])).toEqual([
+      ['EKMEK', 1, 10, 1],
+      ['SUT', 2, 51, 1]
+    ]);
+    expect(data.tax).toBe(0.6);
+    expect(data.total).toBe(61);
+    expect(data.paymentMethod).toBe('NAKİT');
+  });
+
+  it('keeps debit and credit cards apart', () => {
+    expect(parseReceiptText(receipt('BANKA KARTI *61,00')).paymentMethod).toBe('BANKA KARTI');
+    expect(parseReceiptText(receipt('KREDİ KARTI *61,00')).paymentMethod).toBe('KREDİ KARTI');
+    expect(parseReceiptText(receipt('KART *61,00')).paymentMethod).toBe('KART');
+  });
+});
@@ -0,0 +1,469 @@
+import { ReceiptData, ReceiptItem, TaxBreakdown } from '../types';
+import { detectCurrency } from './currencyService';
+
+/**
+ * Offline rule-based parser for Mistral's markdown of Turkish fiscal receipts.
+ * Used when no Gemini key is configured or the Gemini call fails.
+ */
+
+// Price token: optional "*" marker, Turkish or dotted decimals ("*1.234,56", "60,00", "-5,00")
+const PRICE_TOKEN = /[*]?\s*-?\d{1,3}(?:[.\s]\d{3})*(?:,\d{2})|[*]?\s*-?\d+(?:[.,]\d{2})/g;
+const VAT_MARKER = /%\s?(\d{1,2})(?!\d)/;
+// "1,500 KG X 40,00" / "2 AD X 35,50" / "3 x 10,00"
+const QUANTITY_LINE = /(\d+(?:[.,]\d{1,3})?)\s*(KG|GR|LT|ADET|AD|AD\.|PK|PAKET)?\s*[Xx×]\s*[*]?(\d[\d.,]*)/i;
+const DATE_PATTERN = /(\d{2})[./-](\d{2})[./-](\d{4}|\d{2})|(\d{4})[./-](\d{2})[./-](\d{2})/;
+const TIME_PATTERN = /\b([01]\d|2[0-3])[:.]([0-5]\d)(?::[0-5]\d)?\b/;
+
+// Lines that are never items
+const NON_ITEM_KEYWORDS = /\b(TOPLAM|TOPKDV|KDV|NAKIT|KART|KREDI|PARA USTU|ODEME|TUTAR|MATRAH|TARIH|SAAT|FIS NO|Z NO|EKU|KASIYER|TEL|MERSIS|VD|VN|VKN|BANKA|ONAY|REF|TERMINAL)\b/;
+
+/**
+ * Uppercases with Turkish rules and folds diacritics so keyword regexes stay ASCII
+ */
+const fold = (text: string) => text
+  .toLocaleUpperCase('tr-TR')
+  .replace(/İ/g, 'I').replace(/Ş/g, 'S').replace(/Ğ/g, 'G')
+  .replace(/Ü/g, 'U').replace(/Ö/g, 'O').replace(/Ç/g, 'C');
+
+/**
+ * Removes markdown emphasis, headings and list markers from a line
+ */
+const stripMarkdown = (line: string) => line
+  .replace(/^#+\s*/, '')
+  .replace(/\*\*(.*?)\*\*/g, '$1')
+  .replace(/__(.*?)__/g, '$1')
+  .replace(/^[-+]\s+/, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * "1.234,56" -> 1234.56, "35,50" -> 35.5, "1.500" -> 1500, "12.50" -> 12.5
+ */
+export const parseTurkishNumber = (raw: string): number => {
+  let value = (raw || '').replace(/[*₺$€£\s]|TL|EUR|USD/gi, '').trim();
+  if (value === '') return NaN;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Both present: the last one is the decimal separator
+    value = lastComma > lastDot
+      ? value.replace(/\./g, '').replace(',', '.')
+      : value.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    value = value.replace(/,(?=.*,)/g, '').replace(',', '.');
+  } else if (lastDot >= 0) {
+    // Only dots: "1.500" / "1.234.567" are thousands, "12.50" is a decimal
+    const decimals = value.length - lastDot - 1;
+    if (decimals === 3 || value.split('.').length > 2) value = value.replace(/\./g, '');
+  }
+
+  return parseFloat(value);
+};
+
+const round2 = (n: number) => Number(n.toFixed(2));
+
+/**
+ * All price-looking numbers in a line, in order
+ */
+const findPrices = (line: string): number[] =>
+  (line.match(PRICE_TOKEN) || [])
+    .map(token => parseTurkishNumber(token))
+    .filter(n => !isNaN(n));
+
+const lastPrice = (line: string): number | null => {
+  const prices = findPrices(line);
+  return prices.length > 0 ? prices[prices.length - 1] : null;
+};
+
+const toIsoDate = (match: RegExpMatchArray): string => {
+  if (match[4]) return `${match[4]}-${match[5]}-${match[6]}`;
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  return `${year}-${match[2]}-${match[1]}`;
+};
+
+const cleanDescription = (text: string) => text
+  .replace(VAT_MARKER, '')
+  .replace(/[*|]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// --- Markdown tables ---
+
+interface TableColumns {
+  description: number;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  vatRate: number;
+}
+
+const splitRow = (line: string) => line.replace(/^\s*\|/, '').replace(/\|\s*$/, '').split('|').map(c => stripMarkdown(c));
+
+const isSeparatorRow = (line: string) => /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line);
+
+const detectColumns = (headerCells: string[]): TableColumns | null => {
+  const find = (pattern: RegExp) => headerCells.findIndex(cell => pattern.test(fold(cell)));
+  const columns = {
+    description: find(/URUN|ACIKLAMA|MAL|HIZMET|CINS|ADI|DESCRIPTION|ITEM/),
+    quantity: find(/MIKTAR|ADET|QTY|MIK/),
+    unitPrice: find(/FIYAT|BIRIM|PRICE/),
+    total: find(/TUTAR|TOPLAM|TOTAL|AMOUNT/),
+    vatRate: find(/KDV|VAT|%/)
+  };
+  if (columns.description < 0 || (columns.total < 0 && columns.unitPrice < 0)) return null;
+  return columns;
+};
+
+// --- Parser state ---
+
+interface ParseState {
+  data: ReceiptData;
+  items: ReceiptItem[];
+  breakdown: TaxBreakdown[];
+  pendingQuantity: { quantity: number; unitPrice: number } | null;
+  inTotals: boolean;
+  grandTotalFound: boolean;
+}
+
+const addBreakdown = (state: ParseState, rate: number, amount: number, base?: number) => {
+  const existing = state.breakdown.find(tx => tx.rate === rate);
+  const entry = {
+    rate,
+    amount: round2(amount),
+    base: round2(base !== undefined ? base : (rate > 0 ? amount * 100 / rate : 0))
+  };
+  if (existing) Object.assign(existing, entry);
+  else state.breakdown.push(entry);
+};
+
+/**
+ * Totals, KDV, discount and payment lines. Returns true when the line was consumed.
+ */
+const parseTotalsLine = (state: ParseState, line: string, folded: string): boolean => {
+  const value = lastPrice(line);
+
+  if (/\bINDIRIM\b|\bISKONTO\b/.test(folded) && value !== null) {
+    // Discounts become negative lines at the rate of the item they follow
+    const previous = state.items[state.items.length - 1];
+    const amount = -Math.abs(value);
+    state.items.push({
+      description: cleanDescription(line.replace(PRICE_TOKEN, '')) || 'İNDİRİM',
+      quantity: 1,
+      unitPrice: amount,
+      totalPrice: amount,
+      vatRate: previous?.vatRate,
+      category: 'İndirim'
+    });
+    return true;
+  }
+
+  if (/\bARA ?TOPLAM\b/.test(folded)) {
+    if (value !== null) state.data.subtotal = value;
+    state.inTotals = true;
+    return true;
+  }
+
+  if (/\bTOPKDV\b|\bTOPLAM KDV\b|\bKDV TOPLAM/.test(folded)) {
+    if (value !== null) state.data.tax = value;
+    state.inTotals = true;
+    return true;
+  }
+
+  if (/\bKDV\b/.test(folded) && !/\bKDV ?DAHIL\b/.test(folded)) {
+    const rateMatch = line.match(VAT_MARKER);
+    const prices = findPrices(line.replace(VAT_MARKER, ''));
+    if (rateMatch && prices.length > 0) {
+      const rate = Number(rateMatch[1]);
+      // "KDV %20  100,00  20,00" = base + amount, otherwise just the amount
+      if (prices.length >= 2) addBreakdown(state, rate, prices[prices.length - 1], prices[prices.length - 2]);
+      else addBreakdown(state, rate, prices[0]);
+      state.inTotals = true;
+      return true;
+    }
+    if (prices.length > 0 && !state.data.tax) {
+      state.data.tax = prices[prices.length - 1];
+      state.inTotals = true;
+      return true;
+    }
+  }
+
+  if (/\bGENEL TOPLAM\b|\bODENECEK\b/.test(folded) && value !== null) {
+    state.data.total = value;
+    state.grandTotalFound = true;
+    state.inTotals = true;
+    return true;
+  }
+
+  if (/\bTOPLAM\b|\bTOTAL\b/.test(folded)) {
+    if (value !== null && !state.grandTotalFound) state.data.total = value;
+    state.inTotals = true;
+    return true;
+  }
+
+  // Debit cards post to 102 Bankalar and credit cards to 300, so the two are kept apart
+  if (/\bBANKA KARTI\b|\bDEBIT\b/.test(folded)) {
+    state.data.paymentMethod = 'BANKA KARTI';
+    return true;
+  }
+  if (/\bKREDI KARTI\b/.test(folded)) {
+    state.data.paymentMethod = 'KREDİ KARTI';
+    return true;
+  }
+  if (/\bKART\b/.test(folded)) {
+    // A bare "KART" line does not override a card type read elsewhere
+    if (!/KART/.test(state.data.paymentMethod || '')) state.data.paymentMethod = 'KART';
+    return true;
+  }
+  if (/\bNAKIT\b/.test(folded)) {
+    state.data.paymentMethod = 'NAKİT';
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Fiscal identifiers and header fields. Returns true when the line was consumed.
+ */
+const parseMetaLine = (state: ParseState, line: string, folded: string): boolean => {
+  let consumed = false;
+  const { data } = state;
+
+  const zMatch = folded.match(/\bZ\s*NO\s*[:.]?\s*(\d+)/);
+  if (zMatch) { data.zNumber = zMatch[1]; consumed = true; }
+
+  const ekuMatch = folded.match(/\bEKU\s*NO\s*[:.]?\s*(\d+)/);
+  if (ekuMatch) { data.ekuNumber = ekuMatch[1]; consumed = true; }
+
+  const fisMatch = folded.match(/\bFIS\s*NO\s*[:.]?\s*(\d+)/);
+  if (fisMatch) { data.invoiceNumber = fisMatch[1]; consumed = true; }
+
+  // "KADIKOY VD. 1234567890", "VD: KADIKOY VN: 123...", "V.D. X V.K.N 123..."
+  const vdMatch = line.match(/(?:^|\s)(.*?)\s*\bV\.?\s*D\.?\s*[:.]?\s*([^\d:]*?)\s*(?:\bV\.?\s*K?\.?\s*N\.?\s*[:.]?)?\s*(\d[\d\s]{8,12}\d)?\s*$/i);
+  if (/\bV\.?\s*D\b/i.test(line) && vdMatch) {
+    const office = (vdMatch[2] || vdMatch[1] || '').replace(/[:.]/g, '').trim();
+    if (office) data.taxOffice = office;
+    if (vdMatch[3]) data.taxNumber = vdMatch[3].replace(/\s/g, '');
+    consumed = true;
+  }
+  const vnMatch = line.match(/\b(?:V\.?\s*K?\.?\s*N|TCKN|T\.?C\.?\s*K[İI]ML[İI]K\s*NO)\.?\s*[:.]?\s*([\dO\s]{10,14})/i);
+  if (vnMatch) {
+    data.taxNumber = vnMatch[1].replace(/\s/g, '');
+    consumed = true;
+  }
+
+  const mersisMatch = folded.match(/\b(?:MERSIS|SICIL)\s*NO\s*[:.]?\s*([\d\s-]+)/);
+  if (mersisMatch) { data.sicilNumber = mersisMatch[1].trim(); consumed = true; }
+
+  const cashierMatch = line.match(/KAS[İI]YER\s*[:.]?\s*(.+)$/i);
+  if (cashierMatch) { data.cashier = cashierMatch[1].trim(); consumed = true; }
+
+  if (/\bTARIH\b|\bSAAT\b/.test(folded) || (DATE_PATTERN.test(line) && !findPrices(line.replace(DATE_PATTERN, '')).length)) {
+    const dateMatch = line.match(DATE_PATTERN);
+    if (dateMatch && !data.date) data.date = toIsoDate(dateMatch);
+    const timeMatch = line.replace(DATE_PATTERN, '').match(TIME_PATTERN);
+    if (timeMatch && !data.time) data.time = `${timeMatch[1]}:${timeMatch[2]}`;
+    if (dateMatch || timeMatch) consumed = true;
+  }
+
+  return consumed;
+};
+
+/**
+ * Free-text item line: "DOMATES  %1  *60,00", optionally preceded by a quantity line
+ */
+const parseItemLine = (state: ParseState, line: string, folded: string): boolean => {
+  if (NON_ITEM_KEYWORDS.test(folded)) return false;
+
+  // Quantity line on its own: remember it for the next item
+  const quantityMatch = line.match(QUANTITY_LINE);
+  const prices = findPrices(line);
+  if (quantityMatch) {
+    const quantity = parseTurkishNumber(quantityMatch[1]);
+    const unitPrice = parseTurkishNumber(quantityMatch[3]);
+    const rest = line.replace(QUANTITY_LINE, '').trim();
+    const restPrice = lastPrice(rest);
+    const description = cleanDescription(rest.replace(PRICE_TOKEN, ''));
+
+    if (!description) {
+      state.pendingQuantity = { quantity, unitPrice };
+      return true;
+    }
+    // Description and quantity on the same line
+    const rateMatch = line.match(VAT_MARKER);
+    state.items.push({
+      description,
+      quantity,
+      unitPrice,
+      totalPrice: restPrice !== null ? restPrice : round2(quantity * unitPrice),
+      vatRate: rateMatch ? Number(rateMatch[1]) : undefined
+    });
+    return true;
+  }
+
+  // Item lines must end with a price, usually marked with "*"
+  const endsWithPrice = /[*]?\s*-?\d[\d.,]*\d\s*(?:₺|TL)?$/i.test(line);
+  if (!endsWithPrice || prices.length === 0) return false;
+
+  const description = cleanDescription(line.replace(PRICE_TOKEN, ''));
+  if (!description || !/[A-Za-zÇĞİÖŞÜçğıöşü]{2,}/.test(description)) return false;
+
+  const totalPrice = prices[prices.length - 1];
+  const rateMatch = line.match(VAT_MARKER);
+  const pending = state.pendingQuantity;
+  state.pendingQuantity = null;
+
+  state.items.push({
+    description,
+    quantity: pending?.quantity || 1,
+    unitPrice: pending?.unitPrice || totalPrice,
+    totalPrice,
+    vatRate: rateMatch ? Number(rateMatch[1]) : undefined
+  });
+  return true;
+};
+
+/**
+ * Markdown table rows: item rows or totals rows ("| TOPLAM | | | 160,15 |")
+ */
+const parseTableRow = (state: ParseState, cells: string[], columns: TableColumns) => {
+  const rowText = cells.join(' ');
+  const folded = fold(rowText);
+  if (parseTotalsLine(state, rowText, folded)) return;
+  if (parseMetaLine(state, rowText, folded)) return;
+
+  const description = cleanDescription(cells[columns.description] || '');
+  if (!description) return;
+
+  const quantity = columns.quantity >= 0 ? parseTurkishNumber((cells[columns.quantity] || '').replace(/[^\d.,]/g, '')) : NaN;
+  const unitPrice = columns.unitPrice >= 0 ? parseTurkishNumber(cells[columns.unitPrice] || '') : NaN;
+  const total = columns.total >= 0 ? parseTurkishNumber(cells[columns.total] || '') : NaN;
+  const rateSource = columns.vatRate >= 0 ? cells[columns.vatRate] : rowText;
+  const rateMatch = (rateSource || '').match(/%?\s?(\d{1,2})/);
+  const explicitRate = columns.vatRate >= 0 && rateMatch ? Number(rateMatch[1]) : (rowText.match(VAT_MARKER)?.[1]);
+
+  const qty = !isNaN(quantity) && quantity > 0 ? quantity : 1;
+  const totalPrice = !isNaN(total) ? total : (!isNaN(unitPrice) ? round2(qty * unitPrice) : NaN);
+  if (isNaN(totalPrice)) return;
+
+  state.items.push({
+    description,
+    quantity: qty,
+    unitPrice: !isNaN(unitPrice) ? unitPrice : round2(totalPrice / qty),
+    totalPrice,
+    vatRate: explicitRate !== undefined ? Number(explicitRate) : undefined
+  });
+};
+
+/**
+ * First meaningful line is the merchant title; following lines up to the
+ * first fiscal/meta line are the address.
+ */
+const parseHeader = (lines: string[], data: ReceiptData) => {
+  const isMeta = (line: string) => {
+    const folded = fold(line);
+    return /\bTEL\b|\bFAX\b|\bVD\b|V\.D\.|\bVN\b|\bVKN\b|\bMERSIS\b|\bTARIH\b|\bSAAT\b|\bFIS\b|\bWWW\b/.test(folded)
+      || DATE_PATTERN.test(line)
+      || line.includes('|');
+  };
+
+  const start = lines.findIndex(line => /[A-Za-zÇĞİÖŞÜçğıöşü]{2,}/.test(line) && !isMeta(line));
+  if (start < 0) return;
+  data.merchantName = lines[start];
+
+  const address: string[] = [];
+  for (let i = start + 1; i < lines.length && address.length < 3; i++) {
+    if (isMeta(lines[i]) || findPrices(lines[i]).length > 0 || /^-{3,}$/.test(lines[i])) break;
+    address.push(lines[i]);
+  }
+  data.merchantAddress = address.join(' ');
+};
+
+export const parseReceiptText = (markdown: string): ReceiptData => {
+  const rawLines = (markdown || '').split('\n').map(l => l.trim()).filter(l => l !== '');
+  const lines = rawLines.map(l => l.includes('|') ? l : stripMarkdown(l)).filter(l => l !== '' && !/^-{3,}$/.test(l));
+
+  const state: ParseState = {
+    data: {
+      merchantName: '',
+      merchantAddress: '',
+      taxNumber: '',
+      taxOffice: '',
+      date: '',
+      time: '',
+      invoiceNumber: '',
+      zNumber: '',
+      ekuNumber: '',
+      items: [],
+      subtotal: 0,
+      tax: 0,
+      total: 0,
+      totalInWords: '', // Filled by applyTotalInWords
+      currency: detectCurrency(markdown || ''),
+      paymentMethod: ''
+    },
+    items: [],
+    breakdown: [],
+    pendingQuantity: null,
+    inTotals: false,
+    grandTotalFound: false
+  };
+
+  parseHeader(lines, state.data);
+  const headerLines = new Set([state.data.merchantName]);
+
+  let tableColumns: TableColumns | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Markdown tables: header row followed by a separator row
+    if (line.includes('|')) {
+      if (isSeparatorRow(line)) continue;
+      const cells = splitRow(line);
+      if (!tableColumns && i + 1 < lines.length && isSeparatorRow(lines[i + 1])) {
+        tableColumns = detectColumns(cells);
+        if (tableColumns) continue;
+      }
+      if (tableColumns) {
+        parseTableRow(state, cells, tableColumns);
+        continue;
+      }
+    } else {
+      tableColumns = null;
+    }
+
+    const text = line.includes('|') ? splitRow(line).filter(Boolean).join(' ') : line;
+    if (headerLines.has(text)) continue;
+    const folded = fold(text);
+
+    if (parseTotalsLine(state, text, folded)) continue;
+    if (parseMetaLine(state, text, folded)) continue;
+    if (!state.inTotals) parseItemLine(state, text, folded);
+  }
+
+  const { data, breakdown } = state;
+
+  // Items without a printed rate take the receipt's only rate, else the standard 20%
+  const defaultRate = breakdown.length === 1 ? breakdown[0].rate : 20;
+  data.items = state.items.map(item => ({ ...item, vatRate: item.vatRate ?? defaultRate }));
+  if (breakdown.length > 0) data.taxBreakdown = breakdown;
+
+  if (!data.tax && breakdown.length > 0) {
+    data.tax = round2(breakdown.reduce((acc, tx) => acc + tx.amount, 0));
+  }
+  if (!data.total && data.items.length > 0) {
+    data.total = round2(data.items.reduce((acc, item) => acc + item.totalPrice, 0));
+  }
+  if (!data.subtotal && data.total && data.tax) {
+    data.subtotal = round2(data.total - data.tax);
+  }
+
+  if (data.items.length === 0) {
+    data.items = [{ description: 'Ürün Bulunamadı', quantity: 1, unitPrice: data.total, totalPrice: data.total, vatRate: defaultRate }];
+  }
+
+  return data;
+};
@@ -0,0 +1,137 @@
+import { OCRResult, OCRPageObject } from '../types';
+import { SourceLine, getSourceLines } from './sourceLocator';
+
+// Same page separator as toOCRResult
+const PAGE_SEPARATOR = '\n\n---\n\n';
+
+// A receipt header: a markdown title, or tax office / tax number / MERSIS lines
+const TITLE_PATTERN = /^#\s/;
+const TAX_HEADER_PATTERN = /(^|[^a-zçğıöşü])(v\.?\s*d\.?|v\.?\s*n\.?|vkn|tckn|vergi\s*dairesi|vergi\s*no|mersis)([^a-zçğıöşü]|$)/i;
+
+// The grand total line closes a receipt
+const TOTAL_PATTERN = /toplam|top\b|genel\s*top/i;
+const AMOUNT_PATTERN = /\d[\d.,]*[.,]\d{2}(?!\d)/;
+
+// Lines that belong to the end of the previous receipt, never to the next header
+const FOOTER_PATTERN = /z\s*no|eku|\bmf\b|mali|kasiyer|nakit|kredi|kart|toplam|kdv|te[şs]ekk[üu]r|iyi\s*g[üu]nler|fi[şs]\s*no/i;
+
+// Header lines directly above the tax number (name, address) that move with it
+const MAX_HEADER_LINES = 4;
+
+const isBlank = (text: string) => !text.trim() || /^\s*(-{3,}|\*{3,})\s*$/.test(text);
+
+const isTotalLine = (text: string) => TOTAL_PATTERN.test(text) && !/ara\s*top/i.test(text) && AMOUNT_PATTERN.test(text);
+
+/**
+ * Indexes (into the flat line list) where a new receipt starts, after the first.
+ * A receipt ends after its total; the next one starts at a new page or at the
+ * next header, pulled up over the merchant name and address lines above it.
+ */
+const findBoundaries = (lines: SourceLine[]): number[] => {
+  const boundaries: number[] = [];
+  let segmentStart = 0;
+  let lastTotal = -1;
+
+  lines.forEach((line, i) => {
+    if (lastTotal < segmentStart) {
+      if (isTotalLine(line.text)) lastTotal = i;
+      return;
+    }
+
+    const newPage = i > 0 && line.page !== lines[i - 1].page;
+    let start = -1;
+    if (newPage) {
+      start = i;
+    } else if (TITLE_PATTERN.test(line.text)) {
+      start = i;
+    } else if (TAX_HEADER_PATTERN.test(line.text)) {
+      // A blank line, an amount or a footer line ends the block above
+      start = i;
+      while (start - 1 > lastTotal && i - start < MAX_HEADER_LINES) {
+        const previous = lines[start - 1].text;
+        if (isBlank(previous) || AMOUNT_PATTERN.test(previous) || FOOTER_PATTERN.test(previous)) break;
+        start--;
+      }
+    } else if (isTotalLine(line.text)) {
+      lastTotal = i; // Totals repeated on payment lines
+    }
+
+    if (start > 0) {
+      boundaries.push(start);
+      segmentStart = start;
+      if (isTotalLine(line.text)) lastTotal = i;
+    }
+  });
+
+  return boundaries;
+};
+
+/**
+ * Rebuilds an OCR result from a run of lines: pages keep their metadata
+ * (dimensions, boxes) and only the markdown of the covered lines.
+ */
+const resultFromLines = (source: OCRResult, lines: SourceLine[]): OCRResult => {
+  const sourcePages: OCRPageObject[] = source.json?.pages || [];
+  const pageIndexes = [...new Set(lines.map(l => l.page))];
+  const pages = pageIndexes.map(pageIndex => ({
+    ...sourcePages[pageIndex],
+    markdown: lines.filter(l => l.page === pageIndex).map(l => l.text).join('\n').trim()
+  }));
+
+  return {
+    ...source,
+    markdown: pages.map(p => p.markdown).join(PAGE_SEPARATOR),
+    json: { ...source.json, pages },
+    receiptData: undefined,
+    usage: { ...source.usage, pages: pages.length }
+  };
+};
+
+const flatLines = (result: OCRResult) => getSourceLines(result.json?.pages || []).flat();
+
+/**
+ * Splits a document into one OCR result per detected receipt. A single
+ * receipt (or a result without pages) comes back unchanged.
+ */
+export const segmentReceipts = (result: OCRResult): OCRResult[] => {
+  const lines = flatLines(result);
+  const boundaries = findBoundaries(lines);
+  if (boundaries.length === 0) return [result];
+
+  const starts = [0, ...boundaries];
+  return starts.map((start, i) => resultFromLines(result, lines.slice(start, starts[i + 1] ?? lines.length)));
+};
+
+/**
+ * Lines of a result as shown in the split picker (same indexes splitSegment expects)
+ */
+export const segmentLines = (result: OCRResult): SourceLine[] => flatLines(result);
+
+/**
+ * Splits a receipt in two; the second part starts at lines[lineIndex]
+ */
+export const splitSegment = (result: OCRResult, lineIndex: number): [OCRResult, OCRResult] => {
+  const lines = flatLines(result);
+  if (lineIndex <= 0 || lineIndex >= lines.length) throw new Error('Geçersiz bölme satırı');
+  return [resultFromLines(result, lines.slice(0, lineIndex)), resultFromLines(result, lines.slice(lineIndex))];
+};
+
+/**
+ * Joins two receipts of the same document; pages they share are concatenated
+ */
+export const mergeSegments = (first: OCRResult, second: OCRResult): OCRResult => {
+  const pages: OCRPageObject[] = [...(first.json?.pages || [])];
+  (second.json?.pages || []).forEach((page: OCRPageObject) => {
+    const shared = pages.findIndex(p => p.index === page.index);
+    if (shared >= 0) pages[shared] = { ...pages[shared], markdown: `${pages[shared].markdown}\n${page.markdown}` };
+    else pages.push(page);
+  });
+
+  return {
+    ...first,
+    markdown: pages.map(p => p.markdown).join(PAGE_SEPARATOR),
+    json: { ...first.json, pages },
+    receiptData: undefined,
+    usage: { ...first.usage, pages: pages.length }
+  };
+};
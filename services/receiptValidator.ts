@@ -0,0 +1,190 @@
+import { ReceiptData, ValidationFinding } from '../types';
+import { validateTaxId } from './taxIdService';
+
+// Rounding slack: receipts round per line, we sum unrounded values
+const AMOUNT_TOLERANCE = 0.05;
+
+// KDV rates changed on 2023-07-10 (8 -> 10, 18 -> 20)
+const RATE_CHANGE_DATE = '2023-07-10';
+const LEGAL_RATES_BEFORE = [0, 1, 8, 18];
+const LEGAL_RATES_AFTER = [0, 1, 10, 20];
+
+const fmt = (n: number) => n.toFixed(2);
+const differs = (a: number, b: number) => Math.abs(a - b) > AMOUNT_TOLERANCE;
+
+const legalRatesFor = (date?: string): number[] => {
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return Array.from(new Set([...LEGAL_RATES_BEFORE, ...LEGAL_RATES_AFTER]));
+  }
+  return date < RATE_CHANGE_DATE ? LEGAL_RATES_BEFORE : LEGAL_RATES_AFTER;
+};
+
+// Fields a VUK 507 fiscal receipt must print. Missing identity fields are errors.
+const MANDATORY_FIELDS: { field: keyof ReceiptData; label: string; severity: 'error' | 'warning' }[] = [
+  { field: 'merchantName', label: 'Satıcı unvanı', severity: 'error' },
+  { field: 'taxNumber', label: 'VKN / TCKN', severity: 'error' },
+  { field: 'date', label: 'Tarih', severity: 'error' },
+  { field: 'taxOffice', label: 'Vergi dairesi', severity: 'warning' },
+  { field: 'merchantAddress', label: 'Adres', severity: 'warning' },
+  { field: 'time', label: 'Saat', severity: 'warning' },
+  { field: 'invoiceNumber', label: 'Fiş No', severity: 'warning' },
+  { field: 'zNumber', label: 'Z No', severity: 'warning' },
+  { field: 'ekuNumber', label: 'EKU No', severity: 'warning' }
+];
+
+/**
+ * Cross-checks a parsed receipt and returns findings for manual review.
+ * Never modifies the data; recalculateFinancials stays responsible for filling gaps.
+ */
+export const validateReceipt = (data: ReceiptData, now: Date = new Date()): ValidationFinding[] => {
+  const findings: ValidationFinding[] = [];
+  const items = data.items || [];
+  const total = Number(data.total) || 0;
+
+  // 1. Item sum vs. total
+  if (items.length > 0) {
+    const itemSum = items.reduce((acc, item) => acc + (Number(item.totalPrice) || 0), 0);
+    if (differs(itemSum, total)) {
+      findings.push({
+        code: 'ITEM_SUM_MISMATCH',
+        severity: 'error',
+        field: 'total',
+        message: `Ürün toplamı (${fmt(itemSum)}) genel toplamla (${fmt(total)}) uyuşmuyor`,
+        expected: Number(fmt(itemSum)),
+        actual: total
+      });
+    }
+  }
+
+  // 2. Tax vs. breakdown sum
+  const breakdown = data.taxBreakdown || [];
+  if (breakdown.length > 0) {
+    const breakdownTax = breakdown.reduce((acc, tx) => acc + (Number(tx.amount) || 0), 0);
+    if (differs(breakdownTax, Number(data.tax) || 0)) {
+      findings.push({
+        code: 'TAX_BREAKDOWN_MISMATCH',
+        severity: 'error',
+        field: 'tax',
+        message: `TOPKDV (${fmt(Number(data.tax) || 0)}) KDV dökümü toplamıyla (${fmt(breakdownTax)}) uyuşmuyor`,
+        expected: Number(fmt(breakdownTax)),
+        actual: Number(data.tax) || 0
+      });
+    }
+  }
+
+  // 3. Per-rate base + amount vs. gross of items at that rate
+  breakdown.forEach((tx, i) => {
+    const rateItems = items.filter(item => (Number(item.vatRate) || 0) === Number(tx.rate));
+    if (rateItems.length === 0) {
+      findings.push({
+        code: 'RATE_WITHOUT_ITEMS',
+        severity: 'warning',
+        field: `taxBreakdown[${i}]`,
+        message: `%${tx.rate} KDV dökümde var ama bu oranda ürün yok`
+      });
+      return;
+    }
+    const gross = rateItems.reduce((acc, item) => acc + (Number(item.totalPrice) || 0), 0);
+    const declared = (Number(tx.base) || 0) + (Number(tx.amount) || 0);
+    if (differs(gross, declared)) {
+      findings.push({
+        code: 'RATE_GROSS_MISMATCH',
+        severity: 'error',
+        field: `taxBreakdown[${i}]`,
+        message: `%${tx.rate} için matrah + KDV (${fmt(declared)}) ürün tutarlarıyla (${fmt(gross)}) uyuşmuyor`,
+        expected: Number(fmt(gross)),
+        actual: Number(fmt(declared))
+      });
+    }
+  });
+
+  // 4. Quantity x unit price vs. line total
+  items.forEach((item, i) => {
+    const qty = Number(item.quantity) || 1;
+    const unit = Number(item.unitPrice) || 0;
+    const line = Number(item.totalPrice) || 0;
+    if (unit > 0 && differs(qty * unit, line)) {
+      findings.push({
+        code: 'LINE_TOTAL_MISMATCH',
+        severity: 'warning',
+        field: `items[${i}].totalPrice`,
+        message: `"${item.description || `Satır ${i + 1}`}": ${qty} x ${fmt(unit)} = ${fmt(qty * unit)}, satır tutarı ${fmt(line)}`,
+        expected: Number(fmt(qty * unit)),
+        actual: line
+      });
+    }
+  });
+
+  // 5. VAT rates outside the legal set for the receipt date
+  const legalRates = legalRatesFor(data.date);
+  items.forEach((item, i) => {
+    if (item.vatRate === undefined || item.vatRate === null) return;
+    const rate = Number(item.vatRate);
+    if (!legalRates.includes(rate)) {
+      findings.push({
+        code: 'ILLEGAL_VAT_RATE',
+        severity: 'error',
+        field: `items[${i}].vatRate`,
+        message: `%${rate} KDV oranı bu tarih için geçerli değil (geçerli: ${legalRates.map(r => `%${r}`).join(', ')})`,
+        actual: rate
+      });
+    }
+  });
+
+  // 6. Future date
+  if (data.date && /^\d{4}-\d{2}-\d{2}$/.test(data.date)) {
+    // Local calendar date: in UTC+3 the UTC date is still yesterday until 03:00
+    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    if (data.date > today) {
+      findings.push({
+        code: 'FUTURE_DATE',
+        severity: 'error',
+        field: 'date',
+        message: `Fiş tarihi (${data.date}) gelecekte`,
+        actual: data.date
+      });
+    }
+  } else if (data.date) {
+    findings.push({
+      code: 'INVALID_DATE',
+      severity: 'warning',
+      field: 'date',
+      message: `Tarih YYYY-MM-DD biçiminde değil: "${data.date}"`,
+      actual: data.date
+    });
+  }
+
+  // 7. VKN / TCKN checksum
+  if (data.taxNumber && data.taxNumber.trim() !== '') {
+    const check = validateTaxId(data.taxNumber);
+    if (!check.valid) {
+      findings.push({
+        code: 'TAX_ID_CHECKSUM',
+        severity: 'error',
+        field: 'taxNumber',
+        message: check.kind === 'unknown'
+          ? `VKN/TCKN 10 veya 11 haneli olmalı: "${data.taxNumber}"`
+          : `${check.kind} kontrol hanesi tutmuyor${check.suggestions.length > 0 ? ` (öneri: ${check.suggestions.join(', ')})` : ''}`,
+        actual: data.taxNumber
+      });
+    }
+  }
+
+  // 8. Missing VUK 507 mandatory fields
+  MANDATORY_FIELDS.forEach(({ field, label, severity }) => {
+    const value = data[field];
+    if (value === undefined || value === null || String(value).trim() === '') {
+      findings.push({
+        code: 'MISSING_FIELD',
+        severity,
+        field,
+        message: `${label} eksik (VUK 507 zorunlu alan)`
+      });
+    }
+  });
+
+  return findings;
+};
+
+export const hasBlockingFindings = (findings: ValidationFinding[]) =>
+  findings.some(f => f.severity === 'error');
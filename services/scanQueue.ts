@@ -0,0 +1,64 @@
+import { UploadedFile } from '../types';
+
+// Parallel OCR + parse pipelines; Mistral rate limits kick in quickly above this
+export const MAX_CONCURRENT_SCANS = 3;
+
+let idCounter = 0;
+
+/**
+ * Wraps a File or URL into a queue entry
+ */
+export const createQueueItem = (source: File | string): UploadedFile => {
+  const name = source instanceof File
+    ? source.name
+    : source.split('/').pop() || 'Remote Image';
+
+  return {
+    id: `scan_${Date.now()}_${idCounter++}`,
+    file: source,
+    name,
+    status: 'idle',
+    previewUrl: source instanceof File && source.type.startsWith('image/')
+      ? URL.createObjectURL(source)
+      : undefined
+  };
+};
+
+/**
+ * True for URL inputs, which can be sent to OCR again from the string alone
+ */
+export const isRemoteSource = (source: File | string) =>
+  typeof source === 'string' && /^https?:\/\//i.test(source);
+
+/**
+ * Releases the object URL created for an image preview
+ */
+export const disposeQueueItem = (item: UploadedFile) => {
+  if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+};
+
+/**
+ * Runs the worker over all items with at most `limit` in flight at once.
+ * Worker errors are the worker's responsibility; a rejection does not stop the queue.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  let cursor = 0;
+
+  const next = async (): Promise<void> => {
+    while (cursor < items.length) {
+      const item = items[cursor++];
+      try {
+        await worker(item);
+      } catch (error) {
+        console.error('Queue worker error:', error);
+      }
+    }
+  };
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, () => next());
+  await Promise.all(runners);
+};
@@ -0,0 +1,146 @@
+import { OCRPageObject, OCRTextLine, ReceiptData } from '../types';
+
+/**
+ * One markdown line of an OCR page; bbox is set when the engine reported
+ * line geometry (Tesseract), so the line can be outlined on the image.
+ */
+export interface SourceLine {
+  page: number; // Index into json.pages
+  line: number; // Index into the page's markdown lines
+  text: string;
+  bbox?: OCRTextLine['bbox'];
+}
+
+// Field paths use the ValidationFinding.field format, e.g. "items[2].totalPrice"
+export type SourceLocations = Record<string, SourceLine>;
+
+/**
+ * Markdown lines per page, with Tesseract boxes attached by matching line text in order
+ */
+export const getSourceLines = (pages: OCRPageObject[]): SourceLine[][] =>
+  pages.map((page, pageIndex) => {
+    const boxes = page.lines || [];
+    let cursor = 0;
+    return (page.markdown || '').split('\n').map((text, line) => {
+      const trimmed = text.trim();
+      const match = trimmed ? boxes.findIndex((box, i) => i >= cursor && box.text.trim() === trimmed) : -1;
+      if (match >= 0) cursor = match + 1;
+      return { page: pageIndex, line, text, bbox: match >= 0 ? boxes[match].bbox : undefined };
+    });
+  });
+
+const normalize = (text: string) => text
+  .toLocaleLowerCase('tr')
+  .replace(/[*|#_`>]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Spellings of an amount on Turkish receipts: 1.234,56 / 1234,56 / 1234.56 / 1,234.56
+ */
+const amountPattern = (amount: number) => {
+  const fixed = Math.abs(amount).toFixed(2);
+  const [whole, cents] = fixed.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+  const variants = [`${grouped},${cents}`, `${whole},${cents}`, `${whole}.${cents}`, `${grouped.replace(/\./g, ',')}.${cents}`];
+  return new RegExp(`(^|[^\\d.,])(${[...new Set(variants)].map(escapeRegExp).join('|')})($|[^\\d])`);
+};
+
+const datePattern = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-');
+  if (!year || !month || !day) return null;
+  return new RegExp(`${day}[./-]${month}[./-](${year}|${year.slice(2)})|${year}-${month}-${day}`);
+};
+
+/**
+ * Share of the value's words found in the line (OCR and parser spell names differently)
+ */
+const wordOverlap = (value: string, line: string) => {
+  const words = normalize(value).split(' ').filter(w => w.length >= 2);
+  if (words.length === 0) return 0;
+  return words.filter(w => line.includes(w)).length / words.length;
+};
+
+type LinePredicate = (normalized: string, raw: string) => boolean;
+
+/**
+ * First line after `from` that matches; lines matching `preferred` as well win
+ */
+const findLine = (lines: SourceLine[], matches: LinePredicate, preferred?: LinePredicate, from = 0) => {
+  const candidates = lines.slice(from).filter(l => l.text.trim() && matches(normalize(l.text), l.text));
+  return (preferred && candidates.find(l => preferred(normalize(l.text), l.text))) || candidates[0] || null;
+};
+
+/**
+ * Best-effort mapping from parsed fields to the OCR lines they came from.
+ * Fields that cannot be found are simply absent.
+ */
+export const locateFields = (pages: OCRPageObject[], data: ReceiptData): SourceLocations => {
+  const lines = getSourceLines(pages).flat();
+  const locations: SourceLocations = {};
+  const set = (field: string, line: SourceLine | null) => { if (line) locations[field] = line; };
+
+  if (data.merchantName) {
+    set('merchantName', findLine(lines, n => wordOverlap(data.merchantName, n) >= 0.6));
+  }
+  if (data.taxNumber) {
+    const digits = data.taxNumber.replace(/\D/g, '');
+    if (digits) set('taxNumber', findLine(lines, (_, raw) => raw.replace(/\D/g, '').includes(digits), n => /v\.?\s*n|vkn|vergi/.test(n)));
+  }
+  const date = data.date && datePattern(data.date);
+  if (date) set('date', findLine(lines, (_, raw) => date.test(raw)));
+  if (data.time) {
+    const time = data.time.slice(0, 5);
+    set('time', findLine(lines, (_, raw) => raw.includes(time)));
+  }
+  if (data.invoiceNumber) {
+    const number = data.invoiceNumber;
+    set('invoiceNumber', findLine(lines, (_, raw) => raw.includes(number), n => /fi[şs]\s*no/.test(n)));
+  }
+  if (data.zNumber) {
+    const number = data.zNumber;
+    set('zNumber', findLine(lines, (_, raw) => raw.includes(number), n => /z\s*no/.test(n)));
+  }
+
+  // Items in order, so repeated products map to successive lines
+  let cursor = 0;
+  (data.items || []).forEach((item, i) => {
+    const description = item.description
+      ? findLine(lines, n => wordOverlap(item.description, n) >= 0.6, undefined, cursor)
+      : null;
+    set(`items[${i}].description`, description);
+
+    // The price is on the description line or one of the next two
+    const price = amountPattern(item.totalPrice);
+    const start = description ? lines.indexOf(description) : cursor;
+    const priceLine = lines.slice(start, start + 3).find(l => price.test(l.text)) || null;
+    set(`items[${i}].totalPrice`, priceLine);
+
+    const last = priceLine || description;
+    if (last) cursor = lines.indexOf(last) + 1;
+  });
+
+  // Totals sit below the items; prefer the labelled lines over payment lines with the same amount
+  if (data.subtotal) {
+    const subtotal = amountPattern(data.subtotal);
+    set('subtotal', findLine(lines, (_, raw) => subtotal.test(raw), n => /ara\s*top/.test(n), cursor)
+      || findLine(lines, (_, raw) => subtotal.test(raw), n => /ara\s*top/.test(n)));
+  }
+  if (data.tax) {
+    const tax = amountPattern(data.tax);
+    set('tax', findLine(lines, (_, raw) => tax.test(raw), n => /top\s*kdv|topkdv|kdv/.test(n), cursor)
+      || findLine(lines, (_, raw) => tax.test(raw), n => /kdv/.test(n)));
+  }
+  if (data.total) {
+    const total = amountPattern(data.total);
+    const labelled = (n: string) => /toplam|top\b/.test(n) && !/ara\s*top|kdv/.test(n);
+    set('total', findLine(lines, (_, raw) => total.test(raw), labelled, cursor)
+      || findLine(lines, (_, raw) => total.test(raw), labelled));
+  }
+
+  return locations;
+};
+
+export const lineKey = (line: Pick<SourceLine, 'page' | 'line'>) => `${line.page}:${line.line}`;
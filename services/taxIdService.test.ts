@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { isValidTckn, isValidVkn, normalizeTaxId, validateTaxId } from './taxIdService';
+
+describe('tax ID checksums', () => {
+  it('accepts valid and rejects altered VKNs', () => {
+    expect(isValidVkn('1234567890')).toBe(true);
+    expect(isValidVkn('1234567891')).toBe(false);
+    expect(isValidVkn('123456789')).toBe(false);
+  });
+
+  it('accepts valid and rejects altered TCKNs', () => {
+    expect(isValidTckn('10000000146')).toBe(true);
+    expect(isValidTckn('10000000147')).toBe(false);
+    expect(isValidTckn('00000000146')).toBe(false);
+  });
+
+  it('strips labels and maps OCR look-alike letters', () => {
+    expect(normalizeTaxId('V.K.N.: 123 456 7890')).toBe('1234567890');
+    expect(normalizeTaxId('I234567B90')).toBe('1234567890');
+  });
+
+  it('classifies the number', () => {
+    expect(validateTaxId('VKN: 1234567890')).toMatchObject({ kind: 'VKN', valid: true });
+    expect(validateTaxId('TCKN 10000000146')).toMatchObject({ kind: 'TCKN', valid: true });
+  });
+});
@@ -0,0 +1,123 @@
+import { ReceiptData, TaxIdCheck } from '../types';
+
+// Characters OCR commonly confuses with digits
+const OCR_DIGIT_MAP: Record<string, string> = {
+  O: '0', Q: '0', D: '0',
+  I: '1', L: '1', '|': '1', İ: '1',
+  Z: '2',
+  S: '5',
+  G: '6',
+  B: '8'
+};
+
+// Labels printed before the number on receipts ("VN:", "V.K.N.", "TCKN", "VERGİ NO" ...)
+const PREFIX_REGEX = /^(?:V\.?\s*K\.?\s*N\.?|V\.?\s*N\.?|T\.?\s*C\.?\s*K\.?\s*N\.?|T\.?\s*C\.?(?:\s*KİMLİK\s*NO)?|VERG[İI]\s*(?:K[İI]ML[İI]K\s*)?NO)\s*[:.]?\s*/i;
+
+/**
+ * Strips labels and separators and maps look-alike letters to digits
+ */
+export const normalizeTaxId = (raw: string): string => {
+  const upper = (raw || '').trim().toLocaleUpperCase('tr-TR');
+  const withoutPrefix = upper.replace(PREFIX_REGEX, '');
+  return withoutPrefix
+    .replace(/[\s.\-_/]/g, '')
+    .split('')
+    .map(ch => OCR_DIGIT_MAP[ch] ?? ch)
+    .join('');
+};
+
+/**
+ * Vergi Kimlik No checksum (10 digits)
+ */
+export const isValidVkn = (vkn: string): boolean => {
+  if (!/^\d{10}$/.test(vkn)) return false;
+  const digits = vkn.split('').map(Number);
+
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    const tmp = (digits[i] + 9 - i) % 10;
+    let v = (tmp * Math.pow(2, 9 - i)) % 9;
+    if (tmp !== 0 && v === 0) v = 9;
+    sum += v;
+  }
+
+  return (10 - (sum % 10)) % 10 === digits[9];
+};
+
+/**
+ * TC Kimlik No checksum (11 digits, cannot start with 0)
+ */
+export const isValidTckn = (tckn: string): boolean => {
+  if (!/^[1-9]\d{10}$/.test(tckn)) return false;
+  const d = tckn.split('').map(Number);
+
+  const odd = d[0] + d[2] + d[4] + d[6] + d[8];
+  const even = d[1] + d[3] + d[5] + d[7];
+  const tenth = ((odd * 7 - even) % 10 + 10) % 10;
+  if (tenth !== d[9]) return false;
+
+  const eleventh = d.slice(0, 10).reduce((acc, n) => acc + n, 0) % 10;
+  return eleventh === d[10];
+};
+
+// Digit pairs thermal-print OCR mixes up most; used to rank suggestions
+const DIGIT_CONFUSIONS = new Set(['0-8', '0-6', '0-9', '1-7', '1-4', '3-8', '5-6', '5-8', '6-8', '8-9', '2-7', '4-9']);
+const MAX_SUGGESTIONS = 5;
+
+const isLikelyConfusion = (a: string, b: string) =>
+  DIGIT_CONFUSIONS.has(`${a}-${b}`) || DIGIT_CONFUSIONS.has(`${b}-${a}`);
+
+/**
+ * Variants that differ by one digit and pass the checksum.
+ * A one-digit fix exists at almost every position, so look-alike digits rank first.
+ */
+const singleDigitCorrections = (value: string, isValid: (v: string) => boolean): string[] => {
+  const candidates: { value: string; likely: boolean }[] = [];
+  for (let pos = 0; pos < value.length; pos++) {
+    for (let digit = 0; digit <= 9; digit++) {
+      if (String(digit) === value[pos]) continue;
+      const candidate = value.slice(0, pos) + digit + value.slice(pos + 1);
+      if (isValid(candidate)) {
+        candidates.push({ value: candidate, likely: isLikelyConfusion(value[pos], String(digit)) });
+      }
+    }
+  }
+  return candidates
+    .sort((a, b) => Number(b.likely) - Number(a.likely))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(c => c.value);
+};
+
+export const validateTaxId = (raw: string): TaxIdCheck => {
+  const normalized = normalizeTaxId(raw);
+  const base = { input: raw, normalized };
+
+  if (/^\d{10}$/.test(normalized)) {
+    const valid = isValidVkn(normalized);
+    return { ...base, kind: 'VKN', valid, suggestions: valid ? [] : singleDigitCorrections(normalized, isValidVkn) };
+  }
+  if (/^\d{11}$/.test(normalized)) {
+    const valid = isValidTckn(normalized);
+    return { ...base, kind: 'TCKN', valid, suggestions: valid ? [] : singleDigitCorrections(normalized, isValidTckn) };
+  }
+
+  return { ...base, kind: 'unknown', valid: false, suggestions: [] };
+};
+
+/**
+ * Normalizes taxNumber in place and attaches the checksum result.
+ * Receipts without a tax number are returned unchanged.
+ */
+export const applyTaxIdCheck = (data: ReceiptData): ReceiptData => {
+  if (!data.taxNumber || data.taxNumber.trim() === '') {
+    const { taxNumberCheck, ...rest } = data;
+    return rest;
+  }
+
+  const check = validateTaxId(data.taxNumber);
+  return {
+    ...data,
+    taxNumber: check.kind === 'unknown' ? data.taxNumber.trim() : check.normalized,
+    taxNumberCheck: check
+  };
+};
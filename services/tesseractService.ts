@@ -0,0 +1,161 @@
+import { createWorker, OEM, PSM, Worker, Page } from 'tesseract.js';
+import { OCRResult, OCRPageObject, OCRTextLine } from '../types';
+// Worker and WASM core are bundled as assets so nothing is fetched from a CDN
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreSimdUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+
+export const TESSERACT_MODEL = 'tesseract-5-tur-lstm';
+
+// Served by the tesseract-lang-data plugin in vite.config.ts as tesseract/tur.traineddata.gz
+const TESSERACT_LANG_PATH = `${import.meta.env.BASE_URL}tesseract`;
+
+// Minimal module using a v128 instruction (same probe as wasm-feature-detect)
+const SIMD_PROBE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]);
+
+const STATUS_LABELS: Record<string, string> = {
+  'loading tesseract core': 'Tesseract çekirdeği yükleniyor',
+  'initializing tesseract': 'Tesseract başlatılıyor',
+  'loading language traineddata': 'Türkçe dil verisi yükleniyor',
+  'initializing api': 'Tesseract başlatılıyor',
+  'recognizing text': 'Tesseract: Metin tanınıyor'
+};
+
+let workerPromise: Promise<Worker> | null = null;
+let activeProgress: ((status: string) => void) | null = null;
+let jobChain: Promise<unknown> = Promise.resolve();
+
+const reportProgress = (status: string, progress: number) => {
+  const label = STATUS_LABELS[status] || status;
+  activeProgress?.(progress > 0 && progress < 1 ? `${label} (%${Math.round(progress * 100)})...` : `${label}...`);
+};
+
+/**
+ * Lazily starts a single shared worker; later scans reuse the loaded model
+ */
+const getWorker = (): Promise<Worker> => {
+  if (workerPromise) return workerPromise;
+
+  workerPromise = (async () => {
+    const worker = await createWorker('tur', OEM.LSTM_ONLY, {
+      workerPath: workerUrl,
+      corePath: WebAssembly.validate(SIMD_PROBE) ? coreSimdUrl : coreUrl,
+      // Absolute, since the worker resolves relative URLs against its own script
+      langPath: new URL(TESSERACT_LANG_PATH, location.href).href,
+      gzip: true,
+      workerBlobURL: false,
+      cacheMethod: 'none',
+      logger: message => reportProgress(message.status, message.progress)
+    });
+    // Receipts are a single column; keep runs of spaces so amounts stay aligned
+    await worker.setParameters({
+      tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+      preserve_interword_spaces: '1'
+    });
+    return worker;
+  })();
+
+  // Allow a retry after a failed start (e.g. missing asset)
+  workerPromise.catch(() => { workerPromise = null; });
+  return workerPromise;
+};
+
+/**
+ * Reads image dimensions for OCRPageObject.dimensions
+ */
+const readImageSize = async (image: Blob) => {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Tesseract paragraphs -> plain-text markdown, one receipt line per row
+ */
+const pageToMarkdown = (page: Page): string => {
+  if (!page.blocks) return page.text.trim();
+  return page.blocks
+    .flatMap(block => block.paragraphs)
+    .map(paragraph => paragraph.lines.map(line => line.text.replace(/\s+$/, '')).filter(Boolean).join('\n'))
+    .filter(Boolean)
+    .join('\n\n');
+};
+
+/**
+ * Line boxes in image pixels, for the source overlay
+ */
+const pageToLines = (page: Page): OCRTextLine[] => (page.blocks || [])
+  .flatMap(block => block.paragraphs)
+  .flatMap(paragraph => paragraph.lines)
+  .filter(line => line.text.trim())
+  .map(line => ({ text: line.text.replace(/\s+$/, ''), bbox: line.bbox }));
+
+const loadImage = async (inputSource: File | string): Promise<Blob> => {
+  if (inputSource instanceof File) {
+    if (inputSource.type === 'application/pdf') {
+      throw new Error('Tesseract yalnızca görselleri okuyabilir. PDF belgeler için Mistral OCR sağlayıcısını seçin.');
+    }
+    return inputSource;
+  }
+
+  const response = await fetch(inputSource).catch(() => {
+    throw new Error('Görsel indirilemedi (CORS izni olmayabilir). Dosyayı indirip yükleyin.');
+  });
+  if (!response.ok) throw new Error(`Görsel indirilemedi (${response.status})`);
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) {
+    throw new Error('Tesseract yalnızca görselleri okuyabilir. PDF belgeler için Mistral OCR sağlayıcısını seçin.');
+  }
+  return blob;
+};
+
+/**
+ * Runs Tesseract (WASM) in the browser. Jobs are serialized so progress
+ * messages from the shared worker belong to the current scan.
+ */
+export const recognizeWithTesseract = (
+  inputSource: File | string,
+  onProgress: (status: string) => void
+): Promise<OCRResult> => {
+  const job = jobChain.then(async () => {
+    activeProgress = onProgress;
+    try {
+      onProgress('Görsel hazırlanıyor...');
+      const image = await loadImage(inputSource);
+      const worker = await getWorker();
+      const size = await readImageSize(image);
+      const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+
+      const markdown = pageToMarkdown(data);
+      const page: OCRPageObject = {
+        index: 0,
+        markdown,
+        images: [],
+        dimensions: size ? { dpi: 0, ...size } : null,
+        lines: pageToLines(data)
+      };
+
+      return {
+        markdown,
+        json: {
+          pages: [page],
+          model: TESSERACT_MODEL,
+          usage_info: { pages_processed: 1, doc_size_bytes: image.size },
+          confidence: data.confidence
+        },
+        images: [],
+        usage: { pages: 1, cost: 0 }
+      };
+    } finally {
+      activeProgress = null;
+    }
+  });
+
+  jobChain = job.catch(() => undefined);
+  return job;
+};
@@ -0,0 +1,272 @@
+import { ReceiptData, ReceiptItem } from '../types';
+import { amountToTurkishWords, resolveWordsCurrency } from './numberToWords';
+import { normalizeTaxId } from './taxIdService';
+import { normalizeCurrency } from './currencyService';
+
+/**
+ * Builds a UBL-TR 1.2 Invoice (e-Fatura / e-Arşiv) from parsed receipt data.
+ * The merchant on the receipt is the supplier; the buyer comes from options.
+ */
+
+export type UblProfile = 'EARSIVFATURA' | 'TEMELFATURA' | 'TICARIFATURA';
+
+export interface UblParty {
+  name: string;
+  taxNumber: string; // 10-digit VKN or 11-digit TCKN
+  taxOffice?: string;
+  address?: string;
+}
+
+export interface UblOptions {
+  profile?: UblProfile;
+  customer?: UblParty;
+  serialPrefix?: string; // 3 characters of the 16-character invoice ID
+  ettn?: string;
+}
+
+export interface UblInvoice {
+  xml: string;
+  ettn: string;
+  invoiceId: string;
+}
+
+// GİB convention for e-Arşiv invoices issued to a final consumer
+const FINAL_CONSUMER: UblParty = {
+  name: 'NIHAI TUKETICI',
+  taxNumber: '11111111111'
+};
+
+const NS = {
+  invoice: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  cac: 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  cbc: 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+  ext: 'urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2',
+  ds: 'http://www.w3.org/2000/09/xmldsig#'
+};
+
+const round2 = (n: number) => Number(n.toFixed(2));
+const amount = (n: number) => round2(n).toFixed(2);
+
+const escapeXml = (text: string) => String(text ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const el = (name: string, value: string | number, attrs: Record<string, string> = {}) => {
+  const attrText = Object.entries(attrs).map(([k, v]) => ` ${k}="${escapeXml(v)}"`).join('');
+  return `<${name}${attrText}>${escapeXml(String(value))}</${name}>`;
+};
+
+export const generateEttn = (): string =>
+  (typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+      const r = Math.random() * 16 | 0;
+      return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    })
+  ).toUpperCase();
+
+/**
+ * 16-character GİB invoice ID: 3-character prefix + year + 9-digit sequence
+ */
+export const buildInvoiceId = (data: ReceiptData, prefix = 'FIS') => {
+  const year = /^\d{4}/.test(data.date || '') ? data.date.slice(0, 4) : String(new Date().getFullYear());
+  const serial = (data.invoiceNumber || '').replace(/\D/g, '').slice(-9).padStart(9, '0');
+  const cleanPrefix = prefix.toUpperCase().replace(/[^A-Z0-9]/g, '').padEnd(3, 'X').slice(0, 3);
+  return `${cleanPrefix}${year}${serial}`;
+};
+
+// "Atatürk Mah. No:12 Kadıköy / İstanbul" -> district Kadıköy, city İstanbul
+const splitAddress = (address?: string) => {
+  const text = (address || '').trim();
+  const slash = text.match(/([^\s/]+)\s*\/\s*([^\s/]+)\s*$/);
+  if (slash) {
+    return { street: text.slice(0, slash.index).trim() || text, district: slash[1], city: slash[2] };
+  }
+  const words = text.split(/\s+/).filter(Boolean);
+  const city = words.length > 0 ? words[words.length - 1] : '';
+  return { street: text, district: city, city };
+};
+
+const partyXml = (party: UblParty) => {
+  const id = normalizeTaxId(party.taxNumber);
+  const isPerson = id.length === 11;
+  const address = splitAddress(party.address);
+  const [firstName, ...rest] = party.name.trim().split(/\s+/);
+
+  return '<cac:Party>'
+    + `<cac:PartyIdentification>${el('cbc:ID', id, { schemeID: isPerson ? 'TCKN' : 'VKN' })}</cac:PartyIdentification>`
+    + (!isPerson ? `<cac:PartyName>${el('cbc:Name', party.name)}</cac:PartyName>` : '')
+    + '<cac:PostalAddress>'
+    + (address.street ? el('cbc:StreetName', address.street) : '')
+    + el('cbc:CitySubdivisionName', address.district || '-')
+    + el('cbc:CityName', address.city || '-')
+    + `<cac:Country>${el('cbc:Name', 'Türkiye')}</cac:Country>`
+    + '</cac:PostalAddress>'
+    + (party.taxOffice ? `<cac:PartyTaxScheme><cac:TaxScheme>${el('cbc:Name', party.taxOffice)}</cac:TaxScheme></cac:PartyTaxScheme>` : '')
+    + (isPerson ? `<cac:Person>${el('cbc:FirstName', firstName || '-')}${el('cbc:FamilyName', rest.join(' ') || '-')}</cac:Person>` : '')
+    + '</cac:Party>';
+};
+
+const taxSubtotalXml = (taxable: number, tax: number, rate: number, currencyID: string) =>
+  '<cac:TaxSubtotal>'
+  + el('cbc:TaxableAmount', amount(taxable), { currencyID })
+  + el('cbc:TaxAmount', amount(tax), { currencyID })
+  + el('cbc:Percent', rate)
+  + '<cac:TaxCategory>'
+  // Zero-rated lines need an exemption code; 351 = "İstisna Olmayan Diğer"
+  + (rate === 0 ? el('cbc:TaxExemptionReasonCode', '351') + el('cbc:TaxExemptionReason', 'KDV - İstisna Olmayan Diğer') : '')
+  + '<cac:TaxScheme>'
+  + el('cbc:Name', 'KDV')
+  + el('cbc:TaxTypeCode', '0015')
+  + '</cac:TaxScheme></cac:TaxCategory>'
+  + '</cac:TaxSubtotal>';
+
+interface UblLine {
+  item: ReceiptItem;
+  rate: number;
+  gross: number;
+  discount: number; // Gross discount folded in from following "İNDİRİM" lines
+  net: number;
+  tax: number;
+}
+
+/**
+ * Receipt prices include KDV; UBL lines carry net amounts. Negative lines
+ * (discounts) are folded into the preceding line as an allowance.
+ */
+const buildLines = (items: ReceiptItem[]): UblLine[] => {
+  const lines: UblLine[] = [];
+  items.forEach(item => {
+    const gross = Number(item.totalPrice) || 0;
+    const previous = lines[lines.length - 1];
+    if (gross < 0 && previous) {
+      previous.discount += -gross;
+      return;
+    }
+    lines.push({ item, rate: Number(item.vatRate) || 0, gross, discount: 0, net: 0, tax: 0 });
+  });
+
+  lines.forEach(line => {
+    const payable = line.gross - line.discount;
+    line.net = round2(payable / (1 + line.rate / 100));
+    line.tax = round2(payable - line.net);
+  });
+  return lines;
+};
+
+export const buildUblInvoice = (data: ReceiptData, options: UblOptions = {}): UblInvoice => {
+  const profile = options.profile || 'EARSIVFATURA';
+  const ettn = (options.ettn || generateEttn()).toUpperCase();
+  const invoiceId = buildInvoiceId(data, options.serialPrefix);
+  const currencyID = normalizeCurrency(data.currency);
+  const issueDate = /^\d{4}-\d{2}-\d{2}$/.test(data.date || '') ? data.date : new Date().toISOString().slice(0, 10);
+  const issueTime = /^\d{2}:\d{2}/.test(data.time || '') ? `${data.time!.slice(0, 5)}:00` : '00:00:00';
+
+  const supplier: UblParty = {
+    name: data.merchantName || '-',
+    taxNumber: data.taxNumber || '',
+    taxOffice: data.taxOffice,
+    address: data.merchantAddress
+  };
+  const customer = options.customer || FINAL_CONSUMER;
+
+  const lines = buildLines(data.items || []);
+
+  // Per-rate subtotals, summed from the lines so the document stays internally consistent
+  const byRate = new Map<number, { taxable: number; tax: number }>();
+  lines.forEach(line => {
+    const entry = byRate.get(line.rate) || { taxable: 0, tax: 0 };
+    entry.taxable += line.net;
+    entry.tax += line.tax;
+    byRate.set(line.rate, entry);
+  });
+  const rates = Array.from(byRate.keys()).sort((a, b) => a - b);
+
+  const lineExtension = round2(lines.reduce((acc, l) => acc + l.net, 0));
+  const taxTotal = round2(lines.reduce((acc, l) => acc + l.tax, 0));
+  const payable = round2(lineExtension + taxTotal);
+
+  const notes = [
+    amountToTurkishWords(payable, resolveWordsCurrency(data.currency)),
+    [
+      data.invoiceNumber && `Fiş No: ${data.invoiceNumber}`,
+      data.zNumber && `Z No: ${data.zNumber}`,
+      data.ekuNumber && `EKU No: ${data.ekuNumber}`
+    ].filter(Boolean).join(' ')
+  ].filter(Boolean);
+
+  const supplierId = normalizeTaxId(supplier.taxNumber);
+
+  const invoiceLines = lines.map((line, i) => {
+    const quantity = Number(line.item.quantity) > 0 ? Number(line.item.quantity) : 1;
+    const unitCode = Number.isInteger(quantity) ? 'C62' : 'KGM';
+    const grossNet = round2(line.gross / (1 + line.rate / 100));
+    const discountNet = round2(grossNet - line.net);
+
+    return '<cac:InvoiceLine>'
+      + el('cbc:ID', i + 1)
+      + el('cbc:InvoicedQuantity', quantity, { unitCode })
+      + el('cbc:LineExtensionAmount', amount(line.net), { currencyID })
+      + (line.discount > 0
+        ? '<cac:AllowanceCharge>'
+        + el('cbc:ChargeIndicator', 'false')
+        + el('cbc:Amount', amount(discountNet), { currencyID })
+        + el('cbc:BaseAmount', amount(grossNet), { currencyID })
+        + '</cac:AllowanceCharge>'
+        : '')
+      + '<cac:TaxTotal>'
+      + el('cbc:TaxAmount', amount(line.tax), { currencyID })
+      + taxSubtotalXml(line.net, line.tax, line.rate, currencyID)
+      + '</cac:TaxTotal>'
+      + `<cac:Item>${el('cbc:Name', line.item.description || '-')}</cac:Item>`
+      + `<cac:Price>${el('cbc:PriceAmount', (grossNet / quantity).toFixed(4), { currencyID })}</cac:Price>`
+      + '</cac:InvoiceLine>';
+  });
+
+  const xml = '<?xml version="1.0" encoding="UTF-8"?>'
+    + `<Invoice xmlns="${NS.invoice}" xmlns:cac="${NS.cac}" xmlns:cbc="${NS.cbc}" xmlns:ext="${NS.ext}" xmlns:ds="${NS.ds}">`
+    + '<ext:UBLExtensions><ext:UBLExtension><ext:ExtensionContent/></ext:UBLExtension></ext:UBLExtensions>'
+    + el('cbc:UBLVersionID', '2.1')
+    + el('cbc:CustomizationID', 'TR1.2')
+    + el('cbc:ProfileID', profile)
+    + el('cbc:ID', invoiceId)
+    + el('cbc:CopyIndicator', 'false')
+    + el('cbc:UUID', ettn)
+    + el('cbc:IssueDate', issueDate)
+    + el('cbc:IssueTime', issueTime)
+    + el('cbc:InvoiceTypeCode', 'SATIS')
+    + notes.map(note => el('cbc:Note', note)).join('')
+    + el('cbc:DocumentCurrencyCode', currencyID)
+    + el('cbc:LineCountNumeric', lines.length)
+    + (profile === 'EARSIVFATURA'
+      ? '<cac:AdditionalDocumentReference>'
+      + el('cbc:ID', 'ELEKTRONIK')
+      + el('cbc:IssueDate', issueDate)
+      + el('cbc:DocumentTypeCode', 'SEND_TYPE')
+      + '</cac:AdditionalDocumentReference>'
+      : '')
+    + '<cac:Signature>'
+    + el('cbc:ID', supplierId, { schemeID: 'VKN_TCKN' })
+    + `<cac:SignatoryParty>${partyXml(supplier).replace(/^<cac:Party>|<\/cac:Party>$/g, '')}</cac:SignatoryParty>`
+    + `<cac:DigitalSignatureAttachment><cac:ExternalReference>${el('cbc:URI', '#Signature')}</cac:ExternalReference></cac:DigitalSignatureAttachment>`
+    + '</cac:Signature>'
+    + `<cac:AccountingSupplierParty>${partyXml(supplier)}</cac:AccountingSupplierParty>`
+    + `<cac:AccountingCustomerParty>${partyXml(customer)}</cac:AccountingCustomerParty>`
+    + '<cac:TaxTotal>'
+    + el('cbc:TaxAmount', amount(taxTotal), { currencyID })
+    + rates.map(rate => taxSubtotalXml(byRate.get(rate)!.taxable, byRate.get(rate)!.tax, rate, currencyID)).join('')
+    + '</cac:TaxTotal>'
+    + '<cac:LegalMonetaryTotal>'
+    + el('cbc:LineExtensionAmount', amount(lineExtension), { currencyID })
+    + el('cbc:TaxExclusiveAmount', amount(lineExtension), { currencyID })
+    + el('cbc:TaxInclusiveAmount', amount(payable), { currencyID })
+    + el('cbc:AllowanceTotalAmount', '0.00', { currencyID })
+    + el('cbc:PayableAmount', amount(payable), { currencyID })
+    + '</cac:LegalMonetaryTotal>'
+    + invoiceLines.join('')
+    + '</Invoice>';
+
+  return { xml, ettn, invoiceId };
+};
@@ -0,0 +1,260 @@
+import { ValidationFinding } from '../types';
+
+/**
+ * Offline structural check for generated UBL-TR 1.2 invoices. This is NOT XSD
+ * or Schematron validation: the GİB schema package is not bundled, so only the
+ * rules buildUblInvoice depends on are checked by hand (Invoice element order
+ * and cardinality, code lists, identifier formats, monetary sums). An invoice
+ * that passes may still be rejected by GİB.
+ */
+
+const NS_INVOICE = 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2';
+
+const TOLERANCE = 0.01;
+
+// Invoice children in XSD sequence order; min = minOccurs
+const INVOICE_SEQUENCE: { name: string; min: number; max?: number }[] = [
+  { name: 'UBLExtensions', min: 0, max: 1 },
+  { name: 'UBLVersionID', min: 1, max: 1 },
+  { name: 'CustomizationID', min: 1, max: 1 },
+  { name: 'ProfileID', min: 1, max: 1 },
+  { name: 'ID', min: 1, max: 1 },
+  { name: 'CopyIndicator', min: 1, max: 1 },
+  { name: 'UUID', min: 1, max: 1 },
+  { name: 'IssueDate', min: 1, max: 1 },
+  { name: 'IssueTime', min: 0, max: 1 },
+  { name: 'InvoiceTypeCode', min: 1, max: 1 },
+  { name: 'Note', min: 0 },
+  { name: 'DocumentCurrencyCode', min: 1, max: 1 },
+  { name: 'TaxCurrencyCode', min: 0, max: 1 },
+  { name: 'PricingCurrencyCode', min: 0, max: 1 },
+  { name: 'PaymentCurrencyCode', min: 0, max: 1 },
+  { name: 'PaymentAlternativeCurrencyCode', min: 0, max: 1 },
+  { name: 'AccountingCost', min: 0, max: 1 },
+  { name: 'LineCountNumeric', min: 1, max: 1 },
+  { name: 'InvoicePeriod', min: 0, max: 1 },
+  { name: 'OrderReference', min: 0, max: 1 },
+  { name: 'BillingReference', min: 0 },
+  { name: 'DespatchDocumentReference', min: 0 },
+  { name: 'ReceiptDocumentReference', min: 0 },
+  { name: 'OriginatorDocumentReference', min: 0 },
+  { name: 'ContractDocumentReference', min: 0 },
+  { name: 'AdditionalDocumentReference', min: 0 },
+  { name: 'Signature', min: 1 },
+  { name: 'AccountingSupplierParty', min: 1, max: 1 },
+  { name: 'AccountingCustomerParty', min: 1, max: 1 },
+  { name: 'BuyerCustomerParty', min: 0, max: 1 },
+  { name: 'SellerSupplierParty', min: 0, max: 1 },
+  { name: 'TaxRepresentativeParty', min: 0, max: 1 },
+  { name: 'Delivery', min: 0 },
+  { name: 'PaymentMeans', min: 0 },
+  { name: 'PaymentTerms', min: 0, max: 1 },
+  { name: 'AllowanceCharge', min: 0 },
+  { name: 'TaxExchangeRate', min: 0, max: 1 },
+  { name: 'PricingExchangeRate', min: 0, max: 1 },
+  { name: 'PaymentExchangeRate', min: 0, max: 1 },
+  { name: 'PaymentAlternativeExchangeRate', min: 0, max: 1 },
+  { name: 'TaxTotal', min: 1 },
+  { name: 'WithholdingTaxTotal', min: 0 },
+  { name: 'LegalMonetaryTotal', min: 1, max: 1 },
+  { name: 'InvoiceLine', min: 1 }
+];
+
+const PROFILE_IDS = ['TEMELFATURA', 'TICARIFATURA', 'EARSIVFATURA', 'IHRACAT', 'YOLCUBERABERFATURA', 'KAMU'];
+const INVOICE_TYPE_CODES = ['SATIS', 'IADE', 'TEVKIFAT', 'ISTISNA', 'OZELMATRAH', 'IHRACKAYITLI', 'SGK', 'KOMISYONCU'];
+
+const finding = (code: string, field: string, message: string, expected?: string | number, actual?: string | number): ValidationFinding =>
+  ({ code, severity: 'error', field, message, expected, actual });
+
+const childElements = (parent: Element, localName?: string): Element[] =>
+  Array.from(parent.children).filter(c => !localName || c.localName === localName);
+
+const child = (parent: Element | null | undefined, localName: string): Element | null =>
+  parent ? childElements(parent, localName)[0] || null : null;
+
+const path = (parent: Element | null | undefined, ...names: string[]): Element | null =>
+  names.reduce<Element | null>((node, name) => child(node, name), parent || null);
+
+const text = (node: Element | null) => (node?.textContent || '').trim();
+
+const num = (node: Element | null) => parseFloat(text(node));
+
+/**
+ * Walks the children against INVOICE_SEQUENCE: unknown or out-of-order
+ * elements and min/max violations are reported.
+ */
+const checkSequence = (root: Element): ValidationFinding[] => {
+  const issues: ValidationFinding[] = [];
+  const children = childElements(root);
+  let position = 0;
+
+  INVOICE_SEQUENCE.forEach(rule => {
+    let count = 0;
+    while (position < children.length && children[position].localName === rule.name) {
+      count++;
+      position++;
+    }
+    if (count < rule.min) issues.push(finding('UBL_MISSING_ELEMENT', `Invoice/${rule.name}`, `Zorunlu öğe eksik: ${rule.name}`));
+    if (rule.max !== undefined && count > rule.max) issues.push(finding('UBL_TOO_MANY', `Invoice/${rule.name}`, `${rule.name} en fazla ${rule.max} kez bulunabilir`, rule.max, count));
+  });
+
+  if (position < children.length) {
+    const name = children[position].localName;
+    const known = INVOICE_SEQUENCE.some(r => r.name === name);
+    issues.push(finding(known ? 'UBL_ORDER' : 'UBL_UNKNOWN_ELEMENT', `Invoice/${name}`,
+      known ? `${name} UBL-TR öğe sırasında değil` : `Beklenmeyen öğe: ${name}`));
+  }
+  return issues;
+};
+
+const checkParty = (party: Element | null, field: string): ValidationFinding[] => {
+  if (!party) return [finding('UBL_MISSING_ELEMENT', field, 'Taraf bilgisi (cac:Party) eksik')];
+  const issues: ValidationFinding[] = [];
+
+  const id = path(party, 'PartyIdentification', 'ID');
+  const scheme = id?.getAttribute('schemeID');
+  const value = text(id);
+  if (!id) {
+    issues.push(finding('UBL_MISSING_ELEMENT', `${field}/PartyIdentification`, 'Vergi kimlik numarası eksik'));
+  } else if (scheme === 'VKN' && !/^\d{10}$/.test(value)) {
+    issues.push(finding('UBL_PARTY_ID', `${field}/PartyIdentification/ID`, 'VKN 10 haneli olmalı', '10 hane', value));
+  } else if (scheme === 'TCKN' && !/^\d{11}$/.test(value)) {
+    issues.push(finding('UBL_PARTY_ID', `${field}/PartyIdentification/ID`, 'TCKN 11 haneli olmalı', '11 hane', value));
+  } else if (scheme !== 'VKN' && scheme !== 'TCKN') {
+    issues.push(finding('UBL_PARTY_ID', `${field}/PartyIdentification/ID`, 'schemeID VKN veya TCKN olmalı', 'VKN|TCKN', scheme || ''));
+  }
+
+  if (scheme === 'VKN' && !text(path(party, 'PartyName', 'Name'))) {
+    issues.push(finding('UBL_MISSING_ELEMENT', `${field}/PartyName`, 'VKN ile tanımlanan taraf için unvan zorunlu'));
+  }
+  if (scheme === 'TCKN' && (!text(path(party, 'Person', 'FirstName')) || !text(path(party, 'Person', 'FamilyName')))) {
+    issues.push(finding('UBL_MISSING_ELEMENT', `${field}/Person`, 'TCKN ile tanımlanan taraf için ad ve soyad zorunlu'));
+  }
+
+  const address = child(party, 'PostalAddress');
+  if (!address) {
+    issues.push(finding('UBL_MISSING_ELEMENT', `${field}/PostalAddress`, 'Adres (PostalAddress) eksik'));
+  } else {
+    ['CitySubdivisionName', 'CityName'].forEach(name => {
+      if (!text(child(address, name))) issues.push(finding('UBL_MISSING_ELEMENT', `${field}/PostalAddress/${name}`, `Adreste ${name} zorunlu`));
+    });
+    if (!text(path(address, 'Country', 'Name'))) issues.push(finding('UBL_MISSING_ELEMENT', `${field}/PostalAddress/Country`, 'Adreste ülke zorunlu'));
+  }
+  return issues;
+};
+
+// Document-level subtotals are sums of rounded lines, so tolerance grows with the line count
+const checkTaxTotal = (taxTotal: Element, field: string, tolerance = TOLERANCE): ValidationFinding[] => {
+  const issues: ValidationFinding[] = [];
+  const subtotals = childElements(taxTotal, 'TaxSubtotal');
+  if (subtotals.length === 0) issues.push(finding('UBL_MISSING_ELEMENT', `${field}/TaxSubtotal`, 'En az bir TaxSubtotal gerekli'));
+
+  subtotals.forEach((subtotal, i) => {
+    const subField = `${field}/TaxSubtotal[${i + 1}]`;
+    const taxTypeCode = text(path(subtotal, 'TaxCategory', 'TaxScheme', 'TaxTypeCode'));
+    if (!taxTypeCode) issues.push(finding('UBL_MISSING_ELEMENT', `${subField}/TaxCategory/TaxScheme/TaxTypeCode`, 'Vergi türü kodu eksik'));
+
+    const percent = num(child(subtotal, 'Percent'));
+    const taxable = num(child(subtotal, 'TaxableAmount'));
+    const amount = num(child(subtotal, 'TaxAmount'));
+    if (!isNaN(percent) && !isNaN(taxable) && !isNaN(amount) && Math.abs(taxable * percent / 100 - amount) > tolerance) {
+      issues.push(finding('UBL_TAX_SUBTOTAL', subField, `%${percent} için vergi tutarı matrahla uyuşmuyor`, (taxable * percent / 100).toFixed(2), amount.toFixed(2)));
+    }
+    if (percent === 0 && taxTypeCode === '0015' && !text(path(subtotal, 'TaxCategory', 'TaxExemptionReasonCode'))) {
+      issues.push(finding('UBL_EXEMPTION_CODE', `${subField}/TaxCategory`, '%0 KDV için muafiyet sebebi kodu zorunlu'));
+    }
+  });
+
+  const sum = subtotals.reduce((acc, s) => acc + (num(child(s, 'TaxAmount')) || 0), 0);
+  const total = num(child(taxTotal, 'TaxAmount'));
+  if (Math.abs(sum - total) > TOLERANCE) {
+    issues.push(finding('UBL_TAX_TOTAL', `${field}/TaxAmount`, 'TaxAmount, TaxSubtotal toplamına eşit değil', sum.toFixed(2), isNaN(total) ? '' : total.toFixed(2)));
+  }
+  return issues;
+};
+
+export const checkUblStructure = (xml: string): ValidationFinding[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) return [finding('UBL_NOT_WELL_FORMED', 'Invoice', `XML ayrıştırılamadı: ${text(parseError).slice(0, 120)}`)];
+
+  const root = doc.documentElement;
+  if (root.localName !== 'Invoice' || root.namespaceURI !== NS_INVOICE) {
+    return [finding('UBL_ROOT', 'Invoice', 'Kök öğe UBL Invoice-2 ad alanında olmalı', NS_INVOICE, root.namespaceURI || '')];
+  }
+
+  const issues = checkSequence(root);
+
+  // Header values and code lists
+  const expectValue = (name: string, valid: boolean, message: string, expected?: string) => {
+    if (child(root, name) && !valid) issues.push(finding('UBL_VALUE', `Invoice/${name}`, message, expected, text(child(root, name))));
+  };
+  expectValue('UBLVersionID', text(child(root, 'UBLVersionID')) === '2.1', 'UBL sürümü 2.1 olmalı', '2.1');
+  expectValue('CustomizationID', text(child(root, 'CustomizationID')) === 'TR1.2', 'Özelleştirme TR1.2 olmalı', 'TR1.2');
+  expectValue('ProfileID', PROFILE_IDS.includes(text(child(root, 'ProfileID'))), 'Geçersiz senaryo (ProfileID)');
+  expectValue('ID', /^[A-Z0-9]{3}20\d{2}\d{9}$/.test(text(child(root, 'ID'))), 'Fatura numarası 3 karakter + yıl + 9 hane olmalı', 'ABC2024000000001');
+  expectValue('UUID', /^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/i.test(text(child(root, 'UUID'))), 'ETTN UUID biçiminde olmalı');
+  expectValue('IssueDate', /^\d{4}-\d{2}-\d{2}$/.test(text(child(root, 'IssueDate'))), 'Tarih YYYY-MM-DD olmalı');
+  expectValue('IssueTime', /^\d{2}:\d{2}:\d{2}/.test(text(child(root, 'IssueTime'))), 'Saat HH:MM:SS olmalı');
+  expectValue('InvoiceTypeCode', INVOICE_TYPE_CODES.includes(text(child(root, 'InvoiceTypeCode'))), 'Geçersiz fatura tipi');
+  expectValue('DocumentCurrencyCode', /^[A-Z]{3}$/.test(text(child(root, 'DocumentCurrencyCode'))), 'Para birimi ISO 4217 kodu olmalı');
+
+  const lines = childElements(root, 'InvoiceLine');
+  expectValue('LineCountNumeric', num(child(root, 'LineCountNumeric')) === lines.length, 'Satır sayısı InvoiceLine adedine eşit olmalı', String(lines.length));
+
+  // Every *Amount element carries a currency
+  Array.from(root.getElementsByTagName('*'))
+    .filter(node => /Amount$/.test(node.localName) && !node.getAttribute('currencyID'))
+    .forEach(node => issues.push(finding('UBL_CURRENCY_ID', node.localName, `${node.localName} için currencyID zorunlu`)));
+
+  const signature = child(root, 'Signature');
+  if (signature && (!child(signature, 'ID') || !child(signature, 'SignatoryParty') || !child(signature, 'DigitalSignatureAttachment'))) {
+    issues.push(finding('UBL_MISSING_ELEMENT', 'Invoice/Signature', 'Signature öğesi ID, SignatoryParty ve DigitalSignatureAttachment içermeli'));
+  }
+
+  issues.push(...checkParty(path(root, 'AccountingSupplierParty', 'Party'), 'Invoice/AccountingSupplierParty/Party'));
+  issues.push(...checkParty(path(root, 'AccountingCustomerParty', 'Party'), 'Invoice/AccountingCustomerParty/Party'));
+
+  const taxTotal = child(root, 'TaxTotal');
+  if (taxTotal) issues.push(...checkTaxTotal(taxTotal, 'Invoice/TaxTotal', TOLERANCE * Math.max(1, lines.length)));
+
+  lines.forEach((line, i) => {
+    const field = `Invoice/InvoiceLine[${i + 1}]`;
+    ['ID', 'InvoicedQuantity', 'LineExtensionAmount', 'Item', 'Price'].forEach(name => {
+      if (!child(line, name)) issues.push(finding('UBL_MISSING_ELEMENT', `${field}/${name}`, `Satırda ${name} zorunlu`));
+    });
+    if (child(line, 'InvoicedQuantity') && !child(line, 'InvoicedQuantity')!.getAttribute('unitCode')) {
+      issues.push(finding('UBL_VALUE', `${field}/InvoicedQuantity`, 'Miktar için unitCode zorunlu'));
+    }
+    if (!text(path(line, 'Item', 'Name'))) issues.push(finding('UBL_MISSING_ELEMENT', `${field}/Item/Name`, 'Mal/hizmet adı zorunlu'));
+    const lineTax = child(line, 'TaxTotal');
+    if (lineTax) issues.push(...checkTaxTotal(lineTax, `${field}/TaxTotal`));
+  });
+
+  // Monetary totals
+  const monetary = child(root, 'LegalMonetaryTotal');
+  if (monetary) {
+    const lineSum = lines.reduce((acc, l) => acc + (num(child(l, 'LineExtensionAmount')) || 0), 0);
+    const lineExtension = num(child(monetary, 'LineExtensionAmount'));
+    const taxExclusive = num(child(monetary, 'TaxExclusiveAmount'));
+    const taxInclusive = num(child(monetary, 'TaxInclusiveAmount'));
+    const payable = num(child(monetary, 'PayableAmount'));
+    const taxAmount = num(child(taxTotal, 'TaxAmount')) || 0;
+
+    if (isNaN(lineExtension) || isNaN(taxExclusive) || isNaN(taxInclusive) || isNaN(payable)) {
+      issues.push(finding('UBL_MISSING_ELEMENT', 'Invoice/LegalMonetaryTotal', 'LegalMonetaryTotal tutarları eksik'));
+    } else {
+      if (Math.abs(lineSum - lineExtension) > TOLERANCE) {
+        issues.push(finding('UBL_MONETARY_TOTAL', 'Invoice/LegalMonetaryTotal/LineExtensionAmount', 'Satır tutarları toplamı uyuşmuyor', lineSum.toFixed(2), lineExtension.toFixed(2)));
+      }
+      if (Math.abs(taxExclusive + taxAmount - taxInclusive) > TOLERANCE) {
+        issues.push(finding('UBL_MONETARY_TOTAL', 'Invoice/LegalMonetaryTotal/TaxInclusiveAmount', 'Vergiler dahil tutar uyuşmuyor', (taxExclusive + taxAmount).toFixed(2), taxInclusive.toFixed(2)));
+      }
+      if (payable < 0) {
+        issues.push(finding('UBL_MONETARY_TOTAL', 'Invoice/LegalMonetaryTotal/PayableAmount', 'Ödenecek tutar negatif olamaz', '>= 0', payable.toFixed(2)));
+      }
+    }
+  }
+
+  return issues;
+};
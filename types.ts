@@ -1,11 +1,26 @@
 
+export type UploadStatus = 'idle' | 'uploading' | 'processing' | 'done' | 'error';
+
 export interface UploadedFile {
   id: string;
-  file: File;
+  file: File | string; // File object or remote URL
+  name: string;
   previewUrl?: string;
-  status: 'idle' | 'uploading' | 'processing' | 'done' | 'error';
+  status: UploadStatus; // uploading = OCR, processing = Gemini parse
+  statusMessage?: string;
+  error?: string;
   result?: OCRResult;
-  pageCount?: number; // Estimated
+  pageCount?: number; // PDF pages read with pdf.js on upload; pages OCR'd once done
+  pageRange?: string; // This document's pages (e.g. "1,3-5"); overrides the global range
+  batchJobId?: string; // Set when resuming a batch job from a previous session
+  sourceMissing?: boolean; // Resumed batch job failed and only the file name is left; upload again to retry
+  historyId?: string; // ScanRecord id once the result is saved
+  skipPreprocess?: boolean; // Send the image as-is even when preprocessing is on
+  ocrFile?: File; // Image actually sent to OCR (after preprocessing); source overlays are drawn on it
+  documentId?: string; // Shared by the receipts detected in one uploaded document
+  imageHash?: string; // Perceptual hash of the upload (duplicateDetector)
+  duplicate?: DuplicateMatch; // Likely the same receipt as a stored scan; unresolved until merged or ignored
+  ignoredDuplicates?: string[]; // Stored scans the user marked as different receipts
 }
 
 export interface OCRPageDimensions {
@@ -24,11 +39,18 @@ export interface OCRImageObject {
   image_annotation?: string | null; 
 }
 
+// A recognized text line with its box in page pixels (engines that report geometry)
+export interface OCRTextLine {
+  text: string;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
 export interface OCRPageObject {
   index: number;
   markdown: string;
   images: OCRImageObject[];
   dimensions: OCRPageDimensions | null;
+  lines?: OCRTextLine[]; // Tesseract only; Mistral returns no text coordinates
 }
 
 export interface OCRUsageInfo {
@@ -52,10 +74,29 @@ export interface TaxBreakdown {
   base: number;   // Matrah (Total - KDV)
 }
 
+// VKN (10 digits) / TCKN (11 digits) checksum result
+export interface TaxIdCheck {
+  input: string;
+  normalized: string;
+  kind: 'VKN' | 'TCKN' | 'unknown';
+  valid: boolean;
+  suggestions: string[]; // Single-digit OCR corrections that pass the checksum
+}
+
+// Where an extracted value came from: an OCR line it was found on, the LLM
+// (no matching line), the item sums, or a guess of the rule-based parser
+export type FieldSource = 'ocr' | 'llm' | 'computed' | 'fallback';
+
+export interface FieldConfidence {
+  confidence: number; // 0-1
+  source: FieldSource;
+}
+
 export interface ReceiptData {
   merchantName: string;
   merchantAddress?: string;
   taxNumber?: string; // VN: Vergi No
+  taxNumberCheck?: TaxIdCheck;
   taxOffice?: string; // VD: Vergi Dairesi
   sicilNumber?: string; // SCL NO
   date: string;
@@ -66,12 +107,139 @@ export interface ReceiptData {
   taxBreakdown?: TaxBreakdown[];
   total: number;
   totalInWords?: string; // Text representation: Yalnız Yüz Lira...
-  currency: string;
+  currency: string; // ISO 4217 code (TRY, EUR, USD ...)
+  conversion?: CurrencyConversion; // TRY amounts of a foreign-currency receipt
   paymentMethod?: string;
   invoiceNumber?: string; // Fiş No
   zNumber?: string; // Z No
   ekuNumber?: string; // EKU No
   cashier?: string; // Kasiyer
+  confidence?: Record<string, FieldConfidence>; // Keyed by field path, e.g. "total" or "items[2].totalPrice"
+}
+
+// Currency conversion from an imported rate table (currencyService)
+export interface ExchangeRate {
+  date: string; // YYYY-MM-DD bulletin date
+  currency: string; // ISO 4217
+  rate: number; // TRY per 1 unit (TCMB forex buying)
+  source: string; // Imported file name
+}
+
+export interface CurrencyConversion {
+  rate: number;
+  rateDate: string; // Earlier than the receipt date on weekends and holidays
+  source: string;
+  subtotal: number; // TRY
+  tax: number;
+  total: number;
+}
+
+// Expense category taxonomy (categoryService); accounts per category live in AccountMapping
+export interface CategoryRule {
+  id: string;
+  kind: 'taxNumber' | 'keyword' | 'regex'; // Merchant VKN, or a match on the item description
+  pattern: string;
+  category: string;
+  learned?: boolean; // Created from a manual correction
+}
+
+export interface CategorySettings {
+  categories: string[];
+  fallbackCategory: string; // For items no rule or model placed
+  rules: CategoryRule[];
+}
+
+// Spreadsheet export (exportService)
+export type ExportSheet = 'receipts' | 'items';
+
+export interface ExportColumnSetting {
+  key: string;
+  label: string;
+  enabled: boolean;
+}
+
+export type ExportMapping = Record<ExportSheet, ExportColumnSetting[]>;
+
+export interface ExportReceipt {
+  id: string; // Key linking line items to their receipt row
+  name: string;
+  data: ReceiptData;
+}
+
+// Accounting journal / yevmiye (journalService)
+export type PaymentAccountKind = 'cash' | 'bankCard' | 'creditCard' | 'supplier';
+
+export interface AccountMapping {
+  defaultExpenseAccount: string;
+  categoryAccounts: Record<string, string>; // Item category -> expense account (e.g. 770.01)
+  vatAccounts: Record<string, string>; // KDV rate -> 191 sub-account
+  paymentAccounts: Record<PaymentAccountKind, string>; // 100 / 102 / 300 / 320
+}
+
+export interface JournalLine {
+  account: string;
+  description: string;
+  debit: number;
+  credit: number;
+  foreignAmount?: number; // same line in the receipt's currency; foreign receipts only
+}
+
+export interface JournalEntry {
+  receiptId: string;
+  date: string;
+  documentNumber: string;
+  description: string;
+  currency: string; // ISO code of the receipt
+  exchangeRate: number; // receipt currency -> TRY; 1 for TRY receipts
+  lines: JournalLine[];
+}
+
+export type JournalFormat = 'csv' | 'logo' | 'mikro' | 'luca';
+
+// Spending analytics over stored receipts (analyticsService)
+export interface AnalyticsFilter {
+  from: string; // YYYY-MM-DD, inclusive; empty = open
+  to: string;
+  merchant: string; // Merchant key from listMerchants; empty = all
+}
+
+export interface SpendingBucket {
+  key: string;
+  label: string;
+  total: number;
+  count: number; // Receipts (or item lines for items and categories)
+}
+
+export interface VatRateTotal {
+  rate: number;
+  base: number;
+  amount: number;
+}
+
+export interface SpendingSummary {
+  receiptCount: number; // Receipts in the totals, all in TRY
+  unconvertedCount: number; // Foreign-currency receipts left out for want of a rate
+  total: number;
+  tax: number;
+  averageBasket: number;
+  byMonth: SpendingBucket[]; // Chronological
+  byMerchant: SpendingBucket[]; // Largest first, as are the rest
+  byCategory: SpendingBucket[];
+  byPaymentMethod: SpendingBucket[];
+  vatByRate: VatRateTotal[]; // Ascending rate
+  topItems: SpendingBucket[];
+}
+
+// Consistency check output (receiptValidator)
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationFinding {
+  code: string;
+  severity: FindingSeverity;
+  field: string; // Path into ReceiptData, e.g. "items[2].totalPrice"
+  message: string;
+  expected?: number | string;
+  actual?: number | string;
 }
 
 export interface OCRResult {
@@ -91,8 +259,60 @@ export interface OCRResult {
   };
 }
 
+// A stored scan that looks like the same receipt (duplicateDetector)
+export interface DuplicateMatch {
+  recordId: string;
+  recordName: string;
+  reason: 'image' | 'fingerprint' | 'fuzzy';
+  detail: string; // What matched, for the warning
+}
+
+// Persisted scan (IndexedDB history)
+export interface ScanRecord {
+  id: string;
+  name: string;
+  file?: Blob; // Original upload, absent for URL sources
+  fileType?: string;
+  sourceUrl?: string;
+  markdown: string;
+  ocrJson: OCRResult['json'];
+  receiptData: ReceiptData | null;
+  ocrModel: string;
+  parserModel: string;
+  documentId?: string; // Links receipts split from the same document
+  imageHash?: string; // Perceptual hash of the original upload
+  notDuplicateOf?: string[]; // Scans confirmed to be different receipts
+  pages: number;
+  cost: number; // Estimated USD (OCR + parsing)
+  createdAt: string;
+  updatedAt: string;
+}
+
 export type ApiMode = 'realtime' | 'batch';
 
+export type OcrProviderId = 'mistral' | 'tesseract';
+
+export type LlmProviderId = 'gemini' | 'openai' | 'ollama';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible or Ollama server; unused for Gemini
+  apiKey: string;  // Optional; Gemini falls back to VITE_GEMINI_API_KEY
+  rememberApiKey?: boolean; // Opt-in: keep apiKey in localStorage (never with the API proxy)
+}
+
+// Canvas preprocessing before OCR (imagePreprocessor)
+export interface PreprocessOptions {
+  enabled: boolean;
+  autoRotate: boolean; // EXIF orientation
+  crop: boolean; // Crop to the paper boundary
+  deskew: boolean;
+  contrast: boolean; // Grayscale + contrast stretch
+  threshold: boolean; // Adaptive binarization
+  targetDpi: number; // 0 = keep resolution
+}
+
 export enum ModelType {
   OCR = 'mistral-ocr-latest',
   DOCUMENT_AI = 'document-ai' 
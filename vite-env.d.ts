@@ -5,6 +5,8 @@ interface ImportMetaEnv {
     readonly VITE_GEMINI_API_KEY: string
     readonly VITE_GEMINI_MODEL: string
     readonly VITE_MISTRAL_MODEL: string
+    readonly VITE_MISTRAL_BASE_URL?: string
+    readonly VITE_API_PROXY_URL?: string
 }
 
 interface ImportMeta {
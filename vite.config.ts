@@ -1,19 +1,42 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const TESSERACT_LANG_FILE = 'tesseract/tur.traineddata.gz';
+
+/**
+ * Tesseract fetches `${langPath}/tur.traineddata.gz`, so the bundled Turkish
+ * data needs a fixed, unhashed URL in dev and in the build
+ */
+const tesseractLangData = (): Plugin => {
+  const source = path.resolve(__dirname, 'node_modules/@tesseract.js-data/tur/4.0.0_best_int/tur.traineddata.gz');
+  return {
+    name: 'tesseract-lang-data',
+    configureServer(server) {
+      server.middlewares.use(`/${TESSERACT_LANG_FILE}`, (_req, res) => {
+        res.setHeader('Content-Type', 'application/octet-stream');
+        fs.createReadStream(source).pipe(res);
+      });
+    },
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName: TESSERACT_LANG_FILE, source: fs.readFileSync(source) });
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
   return {
     server: {
       port: 25300,
       host: '0.0.0.0',
+      // With VITE_API_PROXY_URL=/ the dev server forwards API calls to the local proxy
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 8788}`
+      }
     },
-    plugins: [react()],
-    define: {
-      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-    },
+    plugins: [react(), tesseractLangData()],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),